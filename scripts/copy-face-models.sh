@@ -0,0 +1,9 @@
+#!/bin/bash
+# Copy the face-api landmark and recognition weights into public/ so the
+# browser can load the same descriptor model the server reads from node_modules.
+SRC=node_modules/@vladmandic/face-api/model
+DEST=public/models/face-api
+
+[ -d "$SRC" ] || exit 0
+mkdir -p "$DEST"
+cp "$SRC"/face_landmark_68_model* "$SRC"/face_recognition_model* "$DEST"/
@@ -0,0 +1,346 @@
+/**
+ * @fileOverview Offline recognition benchmark.
+ *
+ * Runs a labelled image set through the exact detectFace pipeline on the tfjs
+ * CPU backend and reports false-accept / false-reject rates, an ROC table and
+ * a recommended threshold set as JSON.
+ *
+ * Dataset layout:
+ *   <dataset>/enrol/<personId>/*.jpg|png   photos used to build the gallery
+ *   <dataset>/probe/<personId>/*.jpg|png   photos to recognise
+ * Probe folders without a matching enrol folder are treated as unknown people.
+ *
+ * Usage:
+ *   npm run benchmark:recognition -- <dataset> [--out=report.json] [--target-far=0.001] [--max-review-far=0.05]
+ *
+ * Set BLAZEFACE_MODEL_PATH to a local BlazeFace model directory to run without
+ * network access; the face-api weights are read from node_modules.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { detectFace, embedLargestFace, type DetectFaceInput } from '@/ai/flows/detect-face';
+import { rankStoredMatches, decideMatch, type CandidateScore } from '@/ai/flows/recognition-decision';
+import {
+  DESCRIPTOR_THRESHOLDS,
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  type RecognitionThresholds,
+} from '@/lib/face-descriptor';
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+};
+
+const ANGLES_PER_REGISTRATION = 5; // Same angle numbering as FaceRegistration
+
+interface ProbeResult {
+  personId: string;
+  file: string;
+  isEnrolled: boolean;
+  faceDetected: boolean;
+  scores: CandidateScore[];
+}
+
+interface Trial {
+  expectedId: string | null; // null = impostor, nobody should be identified
+  faceDetected: boolean;
+  scores: CandidateScore[];
+}
+
+interface OperatingPoint {
+  far: number;                // Impostor trials identified as someone
+  frr: number;                // Genuine trials not identified as the right student
+  misidentificationRate: number; // Genuine trials identified as the wrong student
+  reviewRate: number;         // Trials routed to staff as potential matches
+}
+
+function parseArgs(argv: string[]) {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (const arg of argv) {
+    const match = arg.match(/^--([^=]+)=(.*)$/);
+    if (match) options[match[1]] = match[2];
+    else positional.push(arg);
+  }
+  return {
+    datasetDir: positional[0],
+    out: options['out'] || 'recognition-benchmark.json',
+    targetFar: Number(options['target-far'] ?? 0.001),
+    maxReviewFar: Number(options['max-review-far'] ?? 0.05),
+  };
+}
+
+async function listImages(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir).catch(() => [] as string[]);
+  return entries
+    .filter(file => IMAGE_MIME_TYPES[path.extname(file).toLowerCase()])
+    .sort()
+    .map(file => path.join(dir, file));
+}
+
+async function listPeople(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  return entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+}
+
+async function fileToDataUri(file: string): Promise<string> {
+  const buffer = await fs.readFile(file);
+  return `data:${IMAGE_MIME_TYPES[path.extname(file).toLowerCase()]};base64,${buffer.toString('base64')}`;
+}
+
+const round = (value: number, digits = 4) => Number(value.toFixed(digits));
+
+/**
+ * Evaluate one threshold set against every trial using the same ranking and
+ * decision rules as detectFace
+ */
+function evaluate(trials: Trial[], thresholds: RecognitionThresholds): OperatingPoint {
+  let genuine = 0, impostor = 0, falseAccepts = 0, falseRejects = 0, misidentifications = 0, reviews = 0;
+
+  for (const trial of trials) {
+    const decision = trial.faceDetected
+      ? decideMatch(rankStoredMatches(trial.scores, thresholds), thresholds)
+      : null;
+    if (decision?.isPotentialMatch) reviews++;
+
+    if (trial.expectedId === null) {
+      impostor++;
+      if (decision?.studentId) falseAccepts++;
+    } else {
+      genuine++;
+      if (decision?.studentId !== trial.expectedId) falseRejects++;
+      if (decision?.studentId && decision.studentId !== trial.expectedId) misidentifications++;
+    }
+  }
+
+  return {
+    far: impostor > 0 ? falseAccepts / impostor : 0,
+    frr: genuine > 0 ? falseRejects / genuine : 0,
+    misidentificationRate: genuine > 0 ? misidentifications / genuine : 0,
+    reviewRate: trials.length > 0 ? reviews / trials.length : 0,
+  };
+}
+
+function steps(from: number, to: number, step: number): number[] {
+  const values: number[] = [];
+  for (let v = from; v <= to + 1e-9; v += step) values.push(round(v, 2));
+  return values;
+}
+
+/**
+ * Lowest MEDIUM threshold that keeps impostors routed to staff review under the cap
+ */
+function recommendMediumThreshold(trials: Trial[], thresholds: RecognitionThresholds, maxReviewFar: number): number {
+  const impostorTrials = trials.filter(t => t.expectedId === null);
+  for (const medium of steps(thresholds.LOW_CONFIDENCE, thresholds.HIGH_CONFIDENCE, 0.01)) {
+    const candidate = { ...thresholds, MEDIUM_CONFIDENCE: medium };
+    if (evaluate(impostorTrials, candidate).reviewRate <= maxReviewFar) return medium;
+  }
+  return thresholds.HIGH_CONFIDENCE;
+}
+
+async function main() {
+  const { datasetDir, out, targetFar, maxReviewFar } = parseArgs(process.argv.slice(2));
+  if (!datasetDir) {
+    console.error('Usage: npm run benchmark:recognition -- <dataset> [--out=report.json] [--target-far=0.001] [--max-review-far=0.05]');
+    process.exit(1);
+  }
+
+  const enrolDir = path.join(datasetDir, 'enrol');
+  const probeDir = path.join(datasetDir, 'probe');
+  const failedImages: Array<{ file: string; error: string }> = [];
+
+  // 1. Build the gallery the same way registration + approval do
+  console.log('📐 Enrolling gallery...');
+  const gallery: NonNullable<DetectFaceInput['storedEmbeddings']> = [];
+  let enrolImageCount = 0;
+
+  for (const personId of await listPeople(enrolDir)) {
+    const allEmbeddings: Array<{ embedding: number[]; uid: string; angle: number }> = [];
+    const images = await listImages(path.join(enrolDir, personId));
+    enrolImageCount += images.length;
+
+    for (const [index, file] of images.entries()) {
+      try {
+        const { embedding, uid } = await embedLargestFace(await fileToDataUri(file));
+        allEmbeddings.push({ embedding, uid, angle: index % ANGLES_PER_REGISTRATION });
+      } catch (error) {
+        failedImages.push({ file, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    if (allEmbeddings.length > 0) {
+      gallery.push({
+        studentId: personId,
+        studentName: personId,
+        embedding: allEmbeddings[0].embedding,
+        uid: allEmbeddings[0].uid,
+        modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+        allEmbeddings,
+      });
+    }
+    console.log(`  ${personId}: ${allEmbeddings.length}/${images.length} enrolment photos usable`);
+  }
+
+  if (gallery.length === 0) {
+    throw new Error(`No usable enrolment photos found under ${enrolDir}`);
+  }
+  const enrolledIds = new Set(gallery.map(g => g.studentId));
+
+  // 2. Run every probe through detectFace once, keeping the raw candidate scores
+  console.log('🔍 Running probes through detectFace...');
+  const probes: ProbeResult[] = [];
+
+  for (const personId of await listPeople(probeDir)) {
+    for (const file of await listImages(path.join(probeDir, personId))) {
+      try {
+        const { faces } = await detectFace({
+          photoDataUri: await fileToDataUri(file),
+          storedEmbeddings: gallery,
+          includeCandidateScores: true,
+        });
+        // The subject of a probe photo is its largest face
+        const face = faces.sort((a, b) =>
+          b.boundingBox.width * b.boundingBox.height - a.boundingBox.width * a.boundingBox.height
+        )[0];
+        probes.push({
+          personId,
+          file,
+          isEnrolled: enrolledIds.has(personId),
+          faceDetected: !!face,
+          scores: face?.candidateScores || [],
+        });
+      } catch (error) {
+        failedImages.push({ file, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  }
+
+  // 3. Genuine trials, plus impostor trials from unknown people and from each
+  //    enrolled probe with its own identity removed from the gallery
+  const trials: Trial[] = [];
+  for (const probe of probes) {
+    if (probe.isEnrolled) {
+      trials.push({ expectedId: probe.personId, faceDetected: probe.faceDetected, scores: probe.scores });
+      trials.push({
+        expectedId: null,
+        faceDetected: probe.faceDetected,
+        scores: probe.scores.filter(s => s.studentId !== probe.personId),
+      });
+    } else {
+      trials.push({ expectedId: null, faceDetected: probe.faceDetected, scores: probe.scores });
+    }
+  }
+
+  const genuineTrials = trials.filter(t => t.expectedId !== null).length;
+  const impostorTrials = trials.length - genuineTrials;
+  if (genuineTrials === 0) {
+    throw new Error(`No probes of enrolled people found under ${probeDir}`);
+  }
+
+  // 4. ROC table: sweep the identification threshold, other rules unchanged
+  const current: RecognitionThresholds = { ...DESCRIPTOR_THRESHOLDS };
+  const roc = steps(0.5, 0.99, 0.01).map(high => {
+    const thresholds = {
+      ...current,
+      HIGH_CONFIDENCE: high,
+      MEDIUM_CONFIDENCE: Math.min(current.MEDIUM_CONFIDENCE, high),
+      LOW_CONFIDENCE: Math.min(current.LOW_CONFIDENCE, high),
+    };
+    const point = evaluate(trials, thresholds);
+    return {
+      threshold: high,
+      far: round(point.far),
+      frr: round(point.frr),
+      tar: round(1 - point.frr),
+      misidentificationRate: round(point.misidentificationRate),
+    };
+  });
+
+  // 5. Grid search: lowest FRR whose FAR and misidentification stay under target
+  let best: { thresholds: RecognitionThresholds; point: OperatingPoint } | null = null;
+  for (const high of steps(0.5, 0.99, 0.01)) {
+    for (const low of steps(0.5, high, 0.05)) {
+      for (const gap of [0, 0.02, 0.05, 0.08, 0.1, 0.12, 0.15]) {
+        for (const minAngles of [1, 2, 3]) {
+          const thresholds: RecognitionThresholds = {
+            HIGH_CONFIDENCE: high,
+            MEDIUM_CONFIDENCE: high,
+            LOW_CONFIDENCE: low,
+            AMBIGUITY_GAP: gap,
+            UNAMBIGUOUS_SIMILARITY: Math.max(current.UNAMBIGUOUS_SIMILARITY, high),
+            MIN_MATCHING_ANGLES: minAngles,
+          };
+          const point = evaluate(trials, thresholds);
+          if (point.far > targetFar || point.misidentificationRate > targetFar) continue;
+          // Ties go to the more conservative threshold
+          if (!best || point.frr < best.point.frr ||
+              (point.frr === best.point.frr && high > best.thresholds.HIGH_CONFIDENCE)) {
+            best = { thresholds, point };
+          }
+        }
+      }
+    }
+  }
+
+  let recommended = null;
+  if (best) {
+    const thresholds = {
+      ...best.thresholds,
+      MEDIUM_CONFIDENCE: recommendMediumThreshold(trials, best.thresholds, maxReviewFar),
+    };
+    const point = evaluate(trials, thresholds);
+    recommended = {
+      thresholds,
+      far: round(point.far),
+      frr: round(point.frr),
+      misidentificationRate: round(point.misidentificationRate),
+      reviewRate: round(point.reviewRate),
+    };
+  }
+
+  const currentPoint = evaluate(trials, current);
+  const report = {
+    generatedAt: new Date().toISOString(),
+    modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+    backend: 'cpu',
+    dataset: {
+      path: path.resolve(datasetDir),
+      enrolledPeople: gallery.length,
+      enrolImages: enrolImageCount,
+      probeImages: probes.length,
+      probesWithoutFace: probes.filter(p => !p.faceDetected).length,
+      genuineTrials,
+      impostorTrials,
+      failedImages,
+    },
+    targets: { far: targetFar, maxReviewFar },
+    current: {
+      thresholds: current,
+      far: round(currentPoint.far),
+      frr: round(currentPoint.frr),
+      misidentificationRate: round(currentPoint.misidentificationRate),
+      reviewRate: round(currentPoint.reviewRate),
+    },
+    recommended,
+    roc,
+  };
+
+  await fs.writeFile(out, JSON.stringify(report, null, 2));
+
+  console.log(`\n📊 ${genuineTrials} genuine / ${impostorTrials} impostor trials`);
+  console.log(`   Current thresholds:     FAR ${(currentPoint.far * 100).toFixed(2)}%  FRR ${(currentPoint.frr * 100).toFixed(2)}%`);
+  if (recommended) {
+    console.log(`   Recommended thresholds: FAR ${(recommended.far * 100).toFixed(2)}%  FRR ${(recommended.frr * 100).toFixed(2)}%`);
+  } else {
+    console.warn(`⚠️ No threshold set reaches FAR <= ${targetFar}; see the ROC table`);
+  }
+  console.log(`✅ Report written to ${out}`);
+}
+
+main().catch(error => {
+  console.error('❌ Benchmark failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,372 @@
+/**
+ * @fileOverview Nightly adaptive learning for faceEmbeddings.
+ *
+ * Confident real-world recognitions under recognitionHistory/{studentId} are
+ * averaged into a "learned" embedding (angle 99) that captures how a student
+ * actually looks on the bus camera. A candidate is only accepted if it raises
+ * the similarity of held-out recent sightings without moving closer to another
+ * student. Learned entries are capped per student, and every accepted change
+ * first snapshots the previous embedding set under
+ * faceEmbeddingVersions/{studentId}, so an admin can revert it.
+ *
+ * Run state lives under adaptiveLearning/state; per-student results under
+ * adaptiveLearning/students/{studentId}.
+ */
+
+import { db } from '@/lib/firebase';
+import { ref, get, set, update, remove, runTransaction } from 'firebase/database';
+import {
+  DESCRIPTOR_THRESHOLDS,
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  isCurrentModelVersion,
+  isValidDescriptor,
+} from '@/lib/face-descriptor';
+
+export const LEARNED_EMBEDDING_ANGLE = 99;
+
+export interface AdaptiveLearningConfig {
+  minSimilarity: number;     // Only learn from recognitions that matched at least this closely
+  minSamples: number;        // Training samples needed (held-out samples are extra)
+  holdoutFraction: number;   // Share of the newest samples kept back for validation
+  minImprovement: number;    // Required gain in mean held-out similarity
+  maxLearnedEmbeddings: number;
+  maxVersions: number;       // Snapshots kept per student
+  maxHistorySamples: number; // Newest recognitions considered per run
+}
+
+export const DEFAULT_ADAPTIVE_LEARNING_CONFIG: AdaptiveLearningConfig = {
+  minSimilarity: DESCRIPTOR_THRESHOLDS.HIGH_CONFIDENCE,
+  minSamples: 5,
+  holdoutFraction: 0.3,
+  minImprovement: 0.005,
+  maxLearnedEmbeddings: 3,
+  maxVersions: 10,
+  maxHistorySamples: 60,
+};
+
+export type StudentLearningStatus = 'accepted' | 'rejected' | 'skipped' | 'failed';
+
+export interface StudentLearningResult {
+  studentId: string;
+  status: StudentLearningStatus;
+  reason?: string;
+  trainingSamples: number;
+  heldOutSamples: number;
+  heldOutBefore?: number;   // Mean best similarity of held-out samples, current set
+  heldOutAfter?: number;    // ... with the candidate added
+  impostorSimilarity?: number; // Candidate's closest other student
+  versionId?: string;       // Snapshot taken before the change
+  updatedAt: string;
+}
+
+export interface AdaptiveLearningState {
+  status: 'running' | 'completed';
+  startedAt: string;
+  completedAt?: string;
+  leaseExpiresAt?: number | null;
+  acceptedCount: number;
+  rejectedCount: number;
+  skippedCount: number;
+  failedCount: number;
+}
+
+export interface EmbeddingVersion {
+  versionId: string;
+  createdAt: string;
+  reason: 'adaptive-learning' | 'revert';
+  createdBy: string;
+  embeddingCount: number;
+  learnedCount: number;
+  embeddings: any[];
+  primaryEmbedding?: number[];
+}
+
+const LEARNING_LEASE_MS = 15 * 60 * 1000;
+const MIN_HOURS_BETWEEN_RUNS = 20;
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude > 0 ? dot / magnitude : 0;
+}
+
+function bestSimilarity(probe: number[], vectors: number[][]): number {
+  return vectors.reduce((best, vector) => Math.max(best, cosine(probe, vector)), -1);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+const isLearned = (emb: any) => emb?.angle === LEARNED_EMBEDDING_ANGLE;
+
+/**
+ * Snapshot a student's current embedding set before changing it
+ */
+async function saveEmbeddingVersion(
+  studentId: string,
+  record: any,
+  reason: EmbeddingVersion['reason'],
+  createdBy: string,
+  maxVersions: number
+): Promise<string> {
+  const versionId = `${Date.now()}`;
+  const embeddings = record.embeddings || [];
+  const version: EmbeddingVersion = {
+    versionId,
+    createdAt: new Date().toISOString(),
+    reason,
+    createdBy,
+    embeddingCount: embeddings.length,
+    learnedCount: embeddings.filter(isLearned).length,
+    embeddings,
+    ...(record.primaryEmbedding && { primaryEmbedding: record.primaryEmbedding }),
+  };
+  await set(ref(db, `faceEmbeddingVersions/${studentId}/${versionId}`), version);
+
+  // Drop the oldest snapshots beyond the cap
+  const snapshot = await get(ref(db, `faceEmbeddingVersions/${studentId}`));
+  const versionIds = Object.keys(snapshot.val() || {}).sort();
+  for (const oldId of versionIds.slice(0, Math.max(0, versionIds.length - maxVersions))) {
+    await remove(ref(db, `faceEmbeddingVersions/${studentId}/${oldId}`));
+  }
+
+  return versionId;
+}
+
+/**
+ * Learn one student's candidate embedding and accept it if it validates
+ */
+export async function learnStudentEmbeddings(
+  studentId: string,
+  allRecords: Record<string, any>,
+  config: AdaptiveLearningConfig = DEFAULT_ADAPTIVE_LEARNING_CONFIG
+): Promise<StudentLearningResult> {
+  const record = allRecords[studentId];
+  const base = { studentId, trainingSamples: 0, heldOutSamples: 0 };
+  const result = (status: StudentLearningStatus, extra: Partial<StudentLearningResult> = {}): StudentLearningResult => ({
+    ...base, status, ...extra, updatedAt: new Date().toISOString(),
+  });
+
+  if (!record || !isCurrentModelVersion(record.modelVersion)) {
+    return result('skipped', { reason: 'Stored embeddings must be re-embedded with the current model first' });
+  }
+
+  const historySnapshot = await get(ref(db, `recognitionHistory/${studentId}`));
+  const samples = (Object.values(historySnapshot.val() || {}) as any[])
+    // Match similarity; older records only stored the detector's confidence and are skipped
+    .filter(r => typeof r.similarity === 'number' && r.similarity >= config.minSimilarity && isCurrentModelVersion(r.modelVersion) && isValidDescriptor(r.embedding))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .slice(-config.maxHistorySamples);
+
+  // Nothing new since the last learned embedding
+  if (record.lastLearningUpdate && !samples.some(s => new Date(s.timestamp) > new Date(record.lastLearningUpdate))) {
+    return result('skipped', { reason: 'No new recognitions since the last update' });
+  }
+
+  // Hold out the newest sightings: the candidate must generalize to how the student looks now
+  const heldOutCount = Math.max(1, Math.round(samples.length * config.holdoutFraction));
+  const training = samples.slice(0, samples.length - heldOutCount);
+  const heldOut = samples.slice(samples.length - heldOutCount);
+  base.trainingSamples = training.length;
+  base.heldOutSamples = heldOut.length;
+
+  if (training.length < config.minSamples) {
+    return result('skipped', { reason: `Not enough confident samples (${training.length}/${config.minSamples})` });
+  }
+
+  const dimensions = training[0].embedding.length;
+  const sum = new Array(dimensions).fill(0);
+  for (const sample of training) {
+    for (let i = 0; i < dimensions; i++) sum[i] += sample.embedding[i];
+  }
+  const candidate = normalize(sum.map(v => v / training.length));
+
+  const current: any[] = (record.embeddings || []).filter((emb: any) => isValidDescriptor(emb.embedding));
+  const currentVectors = current.map(emb => emb.embedding as number[]);
+  const heldOutBefore = mean(heldOut.map(s => bestSimilarity(s.embedding, currentVectors)));
+  const heldOutAfter = mean(heldOut.map(s => bestSimilarity(s.embedding, [...currentVectors, candidate])));
+
+  // The candidate must not look like someone else
+  let impostorSimilarity = -1;
+  for (const [otherId, other] of Object.entries(allRecords)) {
+    if (otherId === studentId || !isCurrentModelVersion(other.modelVersion)) continue;
+    const otherVectors = (other.embeddings || []).map((emb: any) => emb.embedding).filter(isValidDescriptor);
+    impostorSimilarity = Math.max(impostorSimilarity, bestSimilarity(candidate, otherVectors));
+  }
+
+  const metrics = { heldOutBefore, heldOutAfter, impostorSimilarity };
+
+  if (impostorSimilarity >= DESCRIPTOR_THRESHOLDS.MEDIUM_CONFIDENCE) {
+    return result('rejected', { ...metrics, reason: 'Candidate is too similar to another student' });
+  }
+  if (heldOutAfter - heldOutBefore < config.minImprovement) {
+    return result('rejected', { ...metrics, reason: 'Candidate did not improve held-out recognitions' });
+  }
+
+  const versionId = await saveEmbeddingVersion(studentId, record, 'adaptive-learning', 'nightly-job', config.maxVersions);
+
+  const now = new Date().toISOString();
+  const learned = current.filter(isLearned);
+  const keptLearned = learned.slice(Math.max(0, learned.length - (config.maxLearnedEmbeddings - 1)));
+  const embeddings = [
+    ...current.filter(emb => !isLearned(emb)),
+    ...keptLearned,
+    {
+      embedding: candidate,
+      uid: `learned-${Date.now()}`,
+      angle: LEARNED_EMBEDDING_ANGLE,
+      modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+      timestamp: now,
+      source: 'adaptive-learning',
+      sampleCount: training.length,
+    },
+  ];
+
+  await update(ref(db, `faceEmbeddings/${studentId}`), {
+    embeddings,
+    embeddingCount: embeddings.length,
+    lastLearningUpdate: now,
+    learningSamples: training.length,
+  });
+  allRecords[studentId] = { ...record, embeddings };
+
+  return result('accepted', { ...metrics, versionId });
+}
+
+/**
+ * Read the state of the most recent learning run
+ */
+export async function getAdaptiveLearningState(): Promise<AdaptiveLearningState | null> {
+  const snapshot = await get(ref(db, 'adaptiveLearning/state'));
+  return snapshot.exists() ? snapshot.val() : null;
+}
+
+/**
+ * Run learning for every student with current-model embeddings.
+ * Skips if a run finished less than MIN_HOURS_BETWEEN_RUNS ago unless forced.
+ */
+export async function runAdaptiveLearning(
+  options: { force?: boolean; studentIds?: string[]; config?: AdaptiveLearningConfig } = {}
+): Promise<AdaptiveLearningState> {
+  const { force = false, studentIds, config = DEFAULT_ADAPTIVE_LEARNING_CONFIG } = options;
+  const existingState = await getAdaptiveLearningState();
+
+  if (!force && !studentIds && existingState?.completedAt &&
+      Date.now() - new Date(existingState.completedAt).getTime() < MIN_HOURS_BETWEEN_RUNS * 60 * 60 * 1000) {
+    console.log('🧠 Adaptive learning already ran recently, skipping');
+    return existingState;
+  }
+
+  // Claim the lease atomically so the nightly job and a manual run cannot both proceed
+  const lease = await runTransaction(ref(db, 'adaptiveLearning/state/leaseExpiresAt'), (leaseExpiresAt: number | null) => {
+    if (leaseExpiresAt && leaseExpiresAt > Date.now()) return; // Abort: someone else holds it
+    return Date.now() + LEARNING_LEASE_MS;
+  });
+  if (!lease.committed) {
+    throw new Error('Another adaptive learning run is in progress');
+  }
+
+  const embeddingsSnapshot = await get(ref(db, 'faceEmbeddings'));
+  const allRecords: Record<string, any> = embeddingsSnapshot.val() || {};
+  const targets = studentIds || Object.keys(allRecords);
+
+  const state: AdaptiveLearningState = {
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    leaseExpiresAt: lease.snapshot.val(),
+    acceptedCount: 0,
+    rejectedCount: 0,
+    skippedCount: 0,
+    failedCount: 0,
+  };
+  await set(ref(db, 'adaptiveLearning/state'), state);
+
+  console.log(`🧠 Adaptive learning: ${targets.length} student(s)`);
+
+  try {
+    for (const studentId of targets) {
+      let result: StudentLearningResult;
+      try {
+        result = await learnStudentEmbeddings(studentId, allRecords, config);
+      } catch (error) {
+        result = {
+          studentId,
+          status: 'failed',
+          reason: error instanceof Error ? error.message : 'Unknown error',
+          trainingSamples: 0,
+          heldOutSamples: 0,
+          updatedAt: new Date().toISOString(),
+        };
+      }
+
+      state[`${result.status}Count`]++;
+      if (result.status === 'accepted') {
+        console.log(`✅ Learned embedding for ${studentId} (held-out ${result.heldOutBefore?.toFixed(3)} → ${result.heldOutAfter?.toFixed(3)})`);
+      } else if (result.status !== 'skipped') {
+        console.warn(`⚠️ No learned embedding for ${studentId}: ${result.reason}`);
+      }
+
+      await set(ref(db, `adaptiveLearning/students/${studentId}`), result);
+      await update(ref(db, 'adaptiveLearning/state'), {
+        ...state,
+        leaseExpiresAt: Date.now() + LEARNING_LEASE_MS,
+      });
+    }
+  } finally {
+    state.status = 'completed';
+    state.completedAt = new Date().toISOString();
+    state.leaseExpiresAt = null;
+    await set(ref(db, 'adaptiveLearning/state'), state);
+  }
+
+  return state;
+}
+
+/**
+ * Restore a student's embeddings from a snapshot. The current set is
+ * snapshotted first, so a revert can itself be undone.
+ */
+export async function revertStudentEmbeddings(
+  studentId: string,
+  versionId: string,
+  revertedBy: string
+): Promise<void> {
+  const [recordSnapshot, versionSnapshot] = await Promise.all([
+    get(ref(db, `faceEmbeddings/${studentId}`)),
+    get(ref(db, `faceEmbeddingVersions/${studentId}/${versionId}`)),
+  ]);
+
+  if (!recordSnapshot.exists()) throw new Error('No stored embeddings found');
+  if (!versionSnapshot.exists()) throw new Error('Embedding version not found');
+
+  const record = recordSnapshot.val();
+  const version: EmbeddingVersion = versionSnapshot.val();
+
+  await saveEmbeddingVersion(studentId, record, 'revert', revertedBy, DEFAULT_ADAPTIVE_LEARNING_CONFIG.maxVersions);
+
+  const now = new Date().toISOString();
+  await update(ref(db, `faceEmbeddings/${studentId}`), {
+    embeddings: version.embeddings,
+    embeddingCount: version.embeddings.length,
+    ...(version.primaryEmbedding && { primaryEmbedding: version.primaryEmbedding }),
+    // Don't relearn the reverted embedding from the same recognitions tonight
+    lastLearningUpdate: now,
+    revertedTo: versionId,
+    revertedAt: now,
+  });
+
+  console.log(`↩️ Reverted embeddings for ${studentId} to version ${versionId} (by ${revertedBy})`);
+}
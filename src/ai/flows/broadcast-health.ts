@@ -0,0 +1,179 @@
+/**
+ * @fileOverview Broadcast health monitoring.
+ *
+ * getBroadcastStats() can tell whether a bus's feed is alive right now, but a
+ * feed that stalls mid-trip goes unnoticed until someone opens it. This job
+ * runs every minute (see vercel.json crons) and checks the lead camera feed of
+ * every bus on an active trip: status 'On Route' within its scheduled trip
+ * windows (see getTripSchedule), evaluated in the school's time zone.
+ * - the time between checks counts towards the trip's monitored and live time,
+ *   giving the uptime percentage shown on the buses page
+ * - a feed that stops broadcasting opens an outage and notifies every admin;
+ *   the outage is closed when the feed comes back or the trip ends
+ * Parked buses are not checked, so they do not collect outages.
+ *
+ * Everything lives under broadcastHealth/{busId}: `trips/{tripId}` holds the
+ * uptime totals, `outages/{outageId}` the outage log and `monitor` what the
+ * next check needs to carry on (including the current tripId, which the
+ * buses page reads rather than working out the trip in the browser's zone).
+ */
+
+import { db } from '@/lib/firebase';
+import { ref, get, push, update } from 'firebase/database';
+import { isBroadcasting } from '@/lib/live-stream-manager';
+import { busCameraList, cameraFeedKey, leadCameraId } from '@/lib/bus-cameras';
+import { tripIdFor } from '@/lib/headcount';
+import { busTripWindows, getTripSchedule, isWithinTripWindows, type TripSchedule } from '@/lib/trip-schedule';
+import { getAdminUserIds } from '@/lib/admin-users';
+import { notifyBroadcastStalled } from '@/lib/notification-manager';
+
+export interface BroadcastTripHealth {
+  monitoredMs: number;
+  liveMs: number;
+  outageCount: number;
+  updatedAt: string;
+}
+
+export interface BroadcastOutage {
+  busId: string;
+  feedId: string;
+  tripId: string;
+  startedAt: string;
+  endedAt: string | null;              // null while the feed is still down
+  endedBy?: 'recovered' | 'trip-ended'; // trip-ended: still down when monitoring stopped
+  notifiedAt?: string | null;
+}
+
+export interface BroadcastMonitorState {
+  tripId: string;
+  lastCheckAt: number;
+  openOutageId: string | null;
+}
+
+export const BROADCAST_HEALTH_CONFIG = {
+  maxCheckGapMs: 5 * 60 * 1000, // Longer gaps (missed runs) are not counted either way
+};
+
+export const broadcastHealthPath = (busId: string) => `broadcastHealth/${busId}`;
+
+/**
+ * Uptime of a trip as a whole percentage, or null if it was never monitored
+ */
+export function broadcastUptimePercent(health: BroadcastTripHealth | null | undefined): number | null {
+  if (!health || health.monitoredMs <= 0) return null;
+  return Math.round(100 * health.liveMs / health.monitoredMs);
+}
+
+interface HealthCheckRun {
+  now: number;
+  tripId: string;
+  schedule: TripSchedule;
+  adminUserIds: () => Promise<string[]>;
+  counts: { monitored: number; down: number; opened: number; closed: number; notified: number };
+}
+
+async function checkBus(busId: string, bus: any, run: HealthCheckRun): Promise<void> {
+  const { now, tripId, counts } = run;
+  const nowIso = new Date(now).toISOString();
+  const basePath = broadcastHealthPath(busId);
+  const feedId = cameraFeedKey(busId, leadCameraId(busCameraList(bus?.cameras)));
+  const onTrip = bus?.status === 'On Route'
+    && isWithinTripWindows(new Date(now), busTripWindows(bus, run.schedule), run.schedule.timeZone);
+
+  const [monitorSnapshot, tripSnapshot, isActive] = await Promise.all([
+    get(ref(db, `${basePath}/monitor`)),
+    onTrip ? get(ref(db, `${basePath}/trips/${tripId}`)) : null,
+    onTrip ? isBroadcasting(feedId) : false,
+  ]);
+  const monitor: BroadcastMonitorState | null = monitorSnapshot.val();
+  const updates: Record<string, any> = {};
+  let openOutageId = monitor?.tripId === tripId ? monitor.openOutageId : null;
+
+  // An outage still open when its trip ended (or the bus left the road) ends at the last check
+  if (monitor?.openOutageId && (!onTrip || monitor.tripId !== tripId)) {
+    updates[`outages/${monitor.openOutageId}/endedAt`] = new Date(monitor.lastCheckAt).toISOString();
+    updates[`outages/${monitor.openOutageId}/endedBy`] = 'trip-ended';
+    openOutageId = null;
+    counts.closed++;
+  }
+
+  if (!onTrip) {
+    if (monitor?.openOutageId) updates['monitor/openOutageId'] = null;
+    if (Object.keys(updates).length > 0) await update(ref(db, basePath), updates);
+    return;
+  }
+
+  counts.monitored++;
+  const trip: BroadcastTripHealth = tripSnapshot?.val()
+    || { monitoredMs: 0, liveMs: 0, outageCount: 0, updatedAt: nowIso };
+  const elapsed = monitor?.tripId === tripId ? now - monitor.lastCheckAt : 0;
+  if (elapsed > 0 && elapsed <= BROADCAST_HEALTH_CONFIG.maxCheckGapMs) {
+    trip.monitoredMs += elapsed;
+    if (isActive) trip.liveMs += elapsed;
+  }
+
+  if (!isActive) {
+    counts.down++;
+    if (!openOutageId) {
+      openOutageId = push(ref(db, `${basePath}/outages`)).key!;
+      const outage: BroadcastOutage = { busId, feedId, tripId, startedAt: nowIso, endedAt: null, notifiedAt: null };
+      trip.outageCount += 1;
+      counts.opened++;
+
+      try {
+        const adminUserIds = await run.adminUserIds();
+        if (adminUserIds.length > 0) {
+          await notifyBroadcastStalled(adminUserIds, bus.name || busId, busId);
+          outage.notifiedAt = nowIso;
+          counts.notified++;
+        }
+      } catch (error) {
+        console.error(`Failed to notify admins about ${busId} broadcast outage:`, error);
+      }
+      updates[`outages/${openOutageId}`] = outage;
+      console.log(`📡 ${busId} stopped broadcasting (outage ${openOutageId})`);
+    }
+  } else if (openOutageId) {
+    updates[`outages/${openOutageId}/endedAt`] = nowIso;
+    updates[`outages/${openOutageId}/endedBy`] = 'recovered';
+    console.log(`📡 ${busId} is broadcasting again (outage ${openOutageId} closed)`);
+    openOutageId = null;
+    counts.closed++;
+  }
+
+  trip.updatedAt = nowIso;
+  updates[`trips/${tripId}`] = trip;
+  const nextMonitor: BroadcastMonitorState = { tripId, lastCheckAt: now, openOutageId };
+  updates['monitor'] = nextMonitor;
+  await update(ref(db, basePath), updates);
+}
+
+/**
+ * Check the feed of every bus on an active trip once and update uptime and outages
+ */
+export async function checkBroadcastHealth(): Promise<{ monitored: number; down: number; opened: number; closed: number; notified: number }> {
+  const now = Date.now();
+  const [busesSnapshot, schedule] = await Promise.all([get(ref(db, 'buses')), getTripSchedule()]);
+  const buses: Record<string, any> = busesSnapshot.val() || {};
+
+  // Looked up once, and only if an outage needs reporting
+  let adminUserIds: Promise<string[]> | null = null;
+  const run: HealthCheckRun = {
+    now,
+    tripId: tripIdFor(new Date(now), schedule.timeZone),
+    schedule,
+    adminUserIds: () => adminUserIds ??= getAdminUserIds().then(ids => {
+      if (ids.length === 0) console.warn('No admin has signed in yet; broadcast outages are logged but nobody is notified');
+      return ids;
+    }),
+    counts: { monitored: 0, down: 0, opened: 0, closed: 0, notified: 0 },
+  };
+
+  await Promise.all(Object.entries(buses).map(([busId, bus]) =>
+    checkBus(busId, bus, run).catch(error => console.error(`Broadcast health check failed for ${busId}:`, error))
+  ));
+
+  const { monitored, down, opened, closed, notified } = run.counts;
+  console.log(`📡 Broadcast health: ${monitored} monitored, ${down} down, ${opened} outage(s) opened, ${closed} closed, ${notified} admin notification(s)`);
+  return run.counts;
+}
@@ -1,12 +1,28 @@
 'use server';
 /**
- * @fileOverview An AI agent that detects and recognizes faces in a photo using FaceNet, providing stable IDs.
+ * @fileOverview An AI agent that detects faces with BlazeFace and recognizes them with face-api descriptors, providing stable IDs.
  */
 
 import * as tf from '@tensorflow/tfjs';
 import { z } from 'zod';
-import { loadModel } from './face-detector';
-import { imageDataUriToTensor, cosineSimilarity, generateStableId } from './face-utils';
+import { loadModel, loadDescriptorModels } from './face-detector';
+import { imageDataUriToTensor, cosineSimilarity, generateStableId, createFaceCrop } from './face-utils';
+import {
+  computeFaceDescriptor,
+  isCurrentModelVersion,
+  isDualReadModelVersion,
+  isValidDescriptor,
+  DESCRIPTOR_THRESHOLDS,
+  LEGACY_THRESHOLDS,
+  type RecognitionThresholds,
+} from '@/lib/face-descriptor';
+import { computeLegacyHistogramEmbedding } from '@/lib/legacy-embedding';
+import { scoreStoredEmbeddings, rankStoredMatches, decideMatch, type CandidateScore, type StoredEmbeddingRecord } from './recognition-decision';
+import { getEmbeddingIndex, searchEmbeddingIndex } from './embedding-index';
+import { DEFAULT_RECOGNITION_POLICY } from '@/lib/recognition-policy';
+
+// Candidates kept per face from the index; the decision rules only look at the top two
+const INDEX_TOP_K = 5;
 
 // Add a new input schema that accepts stored embeddings
 const DetectFaceInputSchema = z.object({
@@ -26,7 +42,27 @@ const DetectFaceInputSchema = z.object({
     studentId: z.string().describe('The ID of the registered student.'),
     embedding: z.array(z.number()).describe('The stored face embedding array.'),
     uid: z.string().describe('The unique identifier for this face embedding.'),
+    modelVersion: z.string().optional().describe('The model that produced the embedding. Legacy records are only compared during the re-embedding dual-read window.'),
+    allEmbeddings: z.array(z.object({
+      embedding: z.array(z.number()),
+      uid: z.string(),
+      angle: z.number(),
+    })).optional().describe('Multi-angle embeddings for the student (0=front, 1=right, 2=left, 3=up, 4=down).'),
   })).optional().describe('Pre-computed face embeddings from the database for fast matching.'),
+  useEmbeddingIndex: z.boolean().optional().describe('Match against the cached in-memory embedding index instead of storedEmbeddings.'),
+  busId: z.string().optional().describe("Search this bus's roster first; the whole school is searched if nobody on the bus matches confidently."),
+
+  thresholds: z.object({
+    HIGH_CONFIDENCE: z.number(),
+    MEDIUM_CONFIDENCE: z.number(),
+    LOW_CONFIDENCE: z.number(),
+    AMBIGUITY_GAP: z.number(),
+    UNAMBIGUOUS_SIMILARITY: z.number(),
+    MIN_MATCHING_ANGLES: z.number(),
+  }).partial().optional().describe('Overrides for the current-model recognition thresholds. Defaults to DESCRIPTOR_THRESHOLDS.'),
+  minFaceSizePx: z.number().optional().describe('Smallest face width and height in pixels. Defaults to the recognition policy default (80).'),
+  minFaceAreaRatio: z.number().optional().describe('Smallest share of the image a face may cover. Defaults to the recognition policy default (0.03).'),
+  includeCandidateScores: z.boolean().optional().describe('Return the raw similarity of every stored student for each face (used by the offline benchmark).'),
 });
 export type DetectFaceInput = z.infer<typeof DetectFaceInputSchema>;
 
@@ -47,6 +83,13 @@ const DetectFaceOutputSchema = z.object({
       confidence: z.number()
     })).optional().describe('List of potential matches when confidence is in the medium range.'),
     uid: z.string().describe('A stable, randomly generated unique identifier for the detected face. This ID should remain consistent for the same person across different frames.'),
+    candidateScores: z.array(z.object({
+      studentId: z.string(),
+      name: z.string(),
+      similarity: z.number(),
+      angleSimilarities: z.array(z.number()),
+      isMultiAngle: z.boolean(),
+    })).optional().describe('Unfiltered similarity to every current-model stored student, when includeCandidateScores is set.'),
   })).describe('An array of detected faces.')
 });
 export type DetectFaceOutput = z.infer<typeof DetectFaceOutputSchema>;
@@ -63,13 +106,6 @@ interface Face {
 
 type DetectedFace = Face;
 
-interface BoundingBox {
-  yMin: number;
-  xMin: number;
-  height: number;
-  width: number;
-}
-
 interface Keypoint {
   x: number;
   y: number;
@@ -78,101 +114,11 @@ interface Keypoint {
 
 async function getFaceEmbeddings(face: tf.Tensor3D): Promise<tf.Tensor2D | null> {
   try {
-    return tf.tidy(() => {
-      // OPTIMIZED: Larger size (256x256) for better distant face feature extraction
-      const resized = tf.image.resizeBilinear(face, [256, 256]);
-      
-      // Convert to grayscale with contrast enhancement for distant/dim faces
-      const grayscale = tf.image.rgbToGrayscale(resized);
-      const normalizedGray = tf.div(grayscale, 255.0);
-      
-      // OPTIMIZED: Enhance contrast for better feature extraction at distance
-      const enhanced = tf.clipByValue(
-        tf.mul(normalizedGray, 1.15), // 15% contrast boost
-        0,
-        1
-      );
-      
-      const enhancedScaled = tf.mul(enhanced, 255);
-      const grayscale3Channel = tf.tile(enhancedScaled, [1, 1, 3]) as tf.Tensor3D;
-      
-      // OPTIMIZED: More scales for better distance handling
-      const scales = [1.0, 0.85, 0.7, 0.5];
-      const featureMaps = scales.map(scale => {
-        const scaled = tf.image.resizeBilinear(
-          grayscale3Channel,
-          [Math.round(224 * scale), Math.round(224 * scale)]
-        );
-        
-        // Extract features using moments and histogram
-        const moments = tf.moments(scaled, [0, 1]);
-        const mean = moments.mean;
-        const variance = moments.variance;
-        
-        // Create histogram-like features
-        const bins = 32;
-        const minVal = tf.min(scaled);
-        const maxVal = tf.max(scaled);
-        const range = maxVal.sub(minVal);
-        const step = range.div(tf.scalar(bins));
-        
-        // Generate histogram features using tf.stack
-        const histogramBins = [];
-        for(let i = 0; i < bins; i++) {
-          const binStart = minVal.add(step.mul(tf.scalar(i)));
-          const binEnd = binStart.add(step);
-          const mask = tf.logicalAnd(
-            tf.greaterEqual(scaled, binStart),
-            tf.less(scaled, binEnd)
-          );
-          const count = tf.sum(tf.cast(mask, 'float32'));
-          histogramBins.push(count);
-        }
-        const histogram = tf.stack(histogramBins);
-        
-        return tf.concat([mean, variance, histogram]);
-      });
-      
-      // Combine all features
-      const combined = tf.concat(featureMaps);
-      
-      // FIX: Ensure we always have exactly 512 dimensions
-      const targetSize = 512;
-      let resizedFeatures: tf.Tensor1D;
-      
-      if (combined.shape[0] > targetSize) {
-        // If we have more features, truncate to 512
-        resizedFeatures = combined.slice([0], [targetSize]) as tf.Tensor1D;
-      } else if (combined.shape[0] < targetSize) {
-        // If we have fewer features, replicate and pad intelligently
-        const repetitions = Math.floor(targetSize / combined.shape[0]);
-        const remainder = targetSize % combined.shape[0];
-        
-        const repeated = [];
-        for (let i = 0; i < repetitions; i++) {
-          repeated.push(combined);
-        }
-        if (remainder > 0) {
-          repeated.push(combined.slice([0], [remainder]));
-        }
-        
-        resizedFeatures = tf.concat(repeated) as tf.Tensor1D;
-      } else {
-        resizedFeatures = combined as tf.Tensor1D;
-      }
-      
-      // Normalize the features AFTER ensuring correct size
-      const featureMean = tf.mean(resizedFeatures);
-      const featureVariance = tf.moments(resizedFeatures).variance;
-      const featureStd = tf.sqrt(tf.add(featureVariance, 1e-8));
-      
-      const normalized = tf.div(
-        tf.sub(resizedFeatures, featureMean),
-        featureStd
-      ) as tf.Tensor1D;
-      
-      return normalized.expandDims(0) as tf.Tensor2D;
-    });
+    await loadDescriptorModels();
+    const descriptor = await computeFaceDescriptor(face);
+    if (!descriptor) return null;
+
+    return tf.tensor2d([Array.from(descriptor)]);
   } catch (error) {
     console.error('Error generating face embeddings:', error);
     return null;
@@ -202,22 +148,42 @@ async function detectFaces(tensor: tf.Tensor3D): Promise<DetectedFace[]> {
   });
 }
 
-function createFaceCrop(image: tf.Tensor3D, box: BoundingBox): tf.Tensor3D {
-  return tf.tidy(() => {
-    const tensor4D = tf.cast(image.expandDims(), 'float32') as tf.Tensor4D;
-    const normalized = tf.image.cropAndResize(
-      tensor4D,
-      [[
-        box.yMin / image.shape[0],
-        box.xMin / image.shape[1],
-        (box.yMin + box.height) / image.shape[0],
-        (box.xMin + box.width) / image.shape[1]
-      ]],
-      [0],
-      [224, 224]
+/**
+ * Compute a current-model embedding for the largest face in a photo.
+ * Used for enrolment-style embeddings (re-embedding migration, benchmark gallery).
+ */
+export async function embedLargestFace(photoDataUri: string): Promise<{ embedding: number[]; uid: string }> {
+  let imageTensor: tf.Tensor3D | null = null;
+  let faceTensor: tf.Tensor3D | null = null;
+  let faceEmbedding: tf.Tensor2D | null = null;
+
+  try {
+    imageTensor = await imageDataUriToTensor(photoDataUri);
+
+    const detections = await detectFaces(imageTensor);
+    if (detections.length === 0) {
+      throw new Error('No face detected in photo');
+    }
+
+    const { box } = detections.reduce((largest, d) =>
+      d.box.width * d.box.height > largest.box.width * largest.box.height ? d : largest
     );
-    return tf.squeeze(normalized) as tf.Tensor3D;
-  });
+
+    faceTensor = createFaceCrop(imageTensor, box);
+    faceEmbedding = await getFaceEmbeddings(faceTensor);
+    if (!faceEmbedding) {
+      throw new Error('Failed to generate face descriptor');
+    }
+
+    return {
+      embedding: Array.from(faceEmbedding.dataSync()),
+      uid: generateStableId(faceEmbedding),
+    };
+  } finally {
+    imageTensor?.dispose();
+    faceTensor?.dispose();
+    faceEmbedding?.dispose();
+  }
 }
 
 export async function detectFace(input: DetectFaceInput): Promise<DetectFaceOutput> {
@@ -241,9 +207,11 @@ export async function detectFace(input: DetectFaceInput): Promise<DetectFaceOutp
         const imageWidth = imageTensor.shape[1];
         const imageHeight = imageTensor.shape[0];
         
-        // Face must be at least 80x80 pixels and cover at least 3% of image
+        // Face must be large enough in pixels and cover enough of the image (80x80 and 3% by default)
+        const minFaceSizePx = input.minFaceSizePx ?? DEFAULT_RECOGNITION_POLICY.minFaceSizePx;
+        const minFaceAreaRatio = input.minFaceAreaRatio ?? DEFAULT_RECOGNITION_POLICY.minFaceAreaRatio;
         const faceArea = (faceWidth * faceHeight) / (imageWidth * imageHeight);
-        if (faceWidth < 80 || faceHeight < 80 || faceArea < 0.03) {
+        if (faceWidth < minFaceSizePx || faceHeight < minFaceSizePx || faceArea < minFaceAreaRatio) {
           console.log(`⚠️ Rejected face: too small (${faceWidth.toFixed(0)}x${faceHeight.toFixed(0)}, ${(faceArea * 100).toFixed(1)}% of image)`);
           continue;
         }
@@ -259,17 +227,9 @@ export async function detectFace(input: DetectFaceInput): Promise<DetectFaceOutp
           faceEmbedding = await getFaceEmbeddings(faceTensor);
           
             if (faceEmbedding) {
-              // Validate embedding quality
-              const embeddingArray = Array.from(faceEmbedding.dataSync());
-              const nonZeroValues = embeddingArray.filter(v => Math.abs(v) > 0.01).length;
-              const embeddingVariance = embeddingArray.reduce((sum, val) => {
-                const mean = embeddingArray.reduce((a, b) => a + b, 0) / embeddingArray.length;
-                return sum + Math.pow(val - mean, 2);
-              }, 0) / embeddingArray.length;
-              
-              // Reject low-quality embeddings (too uniform or too few features)
-              if (nonZeroValues < 200 || embeddingVariance < 0.01) {
-                console.log(`⚠️ Rejected embedding: poor quality (non-zero: ${nonZeroValues}, variance: ${embeddingVariance.toFixed(4)})`);
+              // Validate descriptor before matching
+              if (!isValidDescriptor(faceEmbedding.dataSync())) {
+                console.log('⚠️ Rejected embedding: invalid descriptor');
                 continue;
               }
               
@@ -278,118 +238,60 @@ export async function detectFace(input: DetectFaceInput): Promise<DetectFaceOutp
               let matchConfidence = 0;
               let isPotentialMatch = false;
               let potentialMatches: Array<{ name: string; confidence: number }> = [];
+              let candidateScores: CandidateScore[] | undefined;
 
-              // Define confidence thresholds - STRICT FOR ACCURATE IDENTIFICATION
-              // Higher thresholds prevent misclassification and false positives
-              // Multi-angle embeddings provide better coverage, so we can be more demanding
-              const HIGH_CONFIDENCE = 0.85;    // Definite match - very confident identification
-              const MEDIUM_CONFIDENCE = 0.78;  // Potential match - requires verification
-              const LOW_CONFIDENCE = 0.70;     // Minimum threshold - unlikely but possible
+              // Confidence thresholds for face-api descriptors (cosine similarity)
+              const descriptorThresholds: RecognitionThresholds = { ...DESCRIPTOR_THRESHOLDS, ...input.thresholds };
+              const { HIGH_CONFIDENCE, MEDIUM_CONFIDENCE, LOW_CONFIDENCE } = descriptorThresholds;
 
-              // Use stored embeddings if available (faster)
-              if (input.storedEmbeddings && input.storedEmbeddings.length > 0) {
-                // Track all matches above low confidence threshold
-                const matches: Array<{ 
-                  name: string; 
-                  studentId: string;
-                  similarity: number;
-                  allSimilarities?: number[]; // For multi-angle validation
-                }> = [];
-                
-                for (const storedFace of input.storedEmbeddings) {
-                  // Check if this student has multi-angle embeddings
-                  const hasMultiAngle = (storedFace as any).allEmbeddings && 
-                                       (storedFace as any).allEmbeddings.length > 1;
-                  
-                  if (hasMultiAngle) {
-                    // Multi-angle matching: check multiple angles for better accuracy
-                    const allSimilarities: number[] = [];
-                    
-                    for (const angleEmb of (storedFace as any).allEmbeddings) {
-                      const storedEmbeddingTensor = tf.tensor2d([angleEmb.embedding]);
-                      try {
-                        const similarity = cosineSimilarity(faceEmbedding, storedEmbeddingTensor);
-                        allSimilarities.push(similarity);
-                      } finally {
-                        storedEmbeddingTensor.dispose();
-                      }
-                    }
-                    
-                    // Use best match from all angles, but require at least 2 angles above threshold
-                    const bestSimilarity = Math.max(...allSimilarities);
-                    const aboveThreshold = allSimilarities.filter(s => s >= LOW_CONFIDENCE).length;
-                    
-                    // STRICT: For multi-angle, require at least 2 angles to match
-                    if (bestSimilarity >= LOW_CONFIDENCE && aboveThreshold >= 2) {
-                      matches.push({ 
-                        name: storedFace.studentName,
-                        studentId: storedFace.studentId,
-                        similarity: bestSimilarity,
-                        allSimilarities
-                      });
-                    }
-                  } else {
-                    // Single embedding matching (legacy or single photo registration)
-                    const storedEmbeddingTensor = tf.tensor2d([storedFace.embedding]);
-                    
-                    try {
-                      const similarity = cosineSimilarity(faceEmbedding, storedEmbeddingTensor);
-                      if (similarity >= LOW_CONFIDENCE) {
-                        matches.push({ 
-                          name: storedFace.studentName,
-                          studentId: storedFace.studentId,
-                          similarity 
-                        });
-                      }
-                    } finally {
-                      storedEmbeddingTensor.dispose();
-                    }
+              // Use the embedding index or stored embeddings if available (faster)
+              if (input.useEmbeddingIndex || (input.storedEmbeddings && input.storedEmbeddings.length > 0)) {
+                let thresholds = descriptorThresholds;
+                let matches: CandidateScore[];
+                let legacyRecords: StoredEmbeddingRecord[];
+
+                if (input.useEmbeddingIndex) {
+                  const index = await getEmbeddingIndex();
+                  legacyRecords = index.legacyRecords;
+
+                  // Bus roster first; a student on the wrong bus must still be recognized
+                  const [busScores] = input.busId
+                    ? searchEmbeddingIndex(index, faceEmbedding, { topK: INDEX_TOP_K, busId: input.busId, thresholds })
+                    : [[]];
+                  matches = rankStoredMatches(busScores, thresholds);
+                  if (matches.length === 0 || matches[0].similarity < HIGH_CONFIDENCE) {
+                    const [allScores] = searchEmbeddingIndex(index, faceEmbedding, { topK: INDEX_TOP_K, thresholds });
+                    matches = rankStoredMatches(allScores, thresholds);
                   }
-                }
+                } else {
+                  // Never compare vectors produced by different embedding models
+                  const currentRecords = input.storedEmbeddings!.filter(s => isCurrentModelVersion(s.modelVersion));
+                  legacyRecords = input.storedEmbeddings!.filter(s => isDualReadModelVersion(s.modelVersion));
 
-                // Sort matches by similarity
-                matches.sort((a, b) => b.similarity - a.similarity);
+                  const scores = scoreStoredEmbeddings(faceEmbedding, currentRecords);
+                  if (input.includeCandidateScores) {
+                    candidateScores = scores;
+                  }
+                  matches = rankStoredMatches(scores, thresholds);
+                }
 
-                // Additional validation: Check if top match is significantly better than second
-                if (matches.length > 0) {
-                  const bestMatch = matches[0];
-                  matchConfidence = bestMatch.similarity;
-                  
-                  // If there are multiple matches, ensure the best match is clearly better
-                  if (matches.length > 1) {
-                    const secondBest = matches[1];
-                    const confidenceGap = bestMatch.similarity - secondBest.similarity;
-                    
-                    // Require significant gap (at least 0.10) between best and second match
-                    // This prevents ambiguous matches where two students score similarly
-                    if (confidenceGap < 0.10 && bestMatch.similarity < 0.90) {
-                      // Too close to call - mark as potential matches for both
-                      isPotentialMatch = true;
-                      potentialMatches = matches
-                        .slice(0, 2)
-                        .map(m => ({ name: m.name, confidence: m.similarity }));
-                      matchConfidence = bestMatch.similarity;
-                      name = undefined;
-                    } else if (bestMatch.similarity >= HIGH_CONFIDENCE) {
-                      // Clear winner with high confidence
-                      name = bestMatch.name;
-                      isPotentialMatch = false;
-                    } else if (bestMatch.similarity >= MEDIUM_CONFIDENCE) {
-                      // Potential match - needs verification
-                      isPotentialMatch = true;
-                      potentialMatches = [{ name: bestMatch.name, confidence: bestMatch.similarity }];
-                    }
-                  } else {
-                    // Only one match found
-                    if (bestMatch.similarity >= HIGH_CONFIDENCE) {
-                      name = bestMatch.name;
-                      isPotentialMatch = false;
-                    } else if (bestMatch.similarity >= MEDIUM_CONFIDENCE) {
-                      isPotentialMatch = true;
-                      potentialMatches = [{ name: bestMatch.name, confidence: bestMatch.similarity }];
-                    }
+                // Dual-read window: students that have not been re-embedded yet
+                // are matched in the legacy embedding space with legacy thresholds
+                if (matches.length === 0 && legacyRecords.length > 0) {
+                  const legacyProbe = tf.tensor2d([Array.from(computeLegacyHistogramEmbedding(faceTensor))]);
+                  try {
+                    thresholds = LEGACY_THRESHOLDS;
+                    matches = rankStoredMatches(scoreStoredEmbeddings(legacyProbe, legacyRecords), thresholds);
+                  } finally {
+                    legacyProbe.dispose();
                   }
                 }
+
+                const decision = decideMatch(matches, thresholds);
+                name = decision.name;
+                matchConfidence = decision.matchConfidence;
+                isPotentialMatch = decision.isPotentialMatch;
+                potentialMatches = decision.potentialMatches;
               }
               // Fallback to processing registered faces if no stored embeddings
               else if (input.registeredFaces) {
@@ -452,7 +354,9 @@ export async function detectFace(input: DetectFaceInput): Promise<DetectFaceOutp
                       .map(m => ({ name: m.name, confidence: m.similarity }));
                   }
                 }
-              }            result.push({
+              }
+
+              result.push({
               boundingBox: {
                 x: detection.box.xMin / imageTensor.shape[1],
                 y: detection.box.yMin / imageTensor.shape[0],
@@ -465,6 +369,7 @@ export async function detectFace(input: DetectFaceInput): Promise<DetectFaceOutp
               name,
               potentialMatches,
               uid,
+              ...(candidateScores && { candidateScores }),
             });
           }
         }
@@ -0,0 +1,98 @@
+/**
+ * @fileOverview Duplicate-face check for face registrations.
+ *
+ * Compares the embeddings of a pending registration with every enrolled
+ * student, so the same child under two IDs (or a parent enrolling the wrong
+ * child) is caught before the registration is approved. Uses the same scoring
+ * and multi-angle rules as live recognition.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { db } from '@/lib/firebase';
+import { ref, get } from 'firebase/database';
+import {
+  DESCRIPTOR_THRESHOLDS,
+  isCurrentModelVersion,
+  isValidDescriptor,
+} from '@/lib/face-descriptor';
+import { scoreStoredEmbeddings, rankStoredMatches, type StoredEmbeddingRecord } from './recognition-decision';
+
+export interface DuplicateFaceConflict {
+  studentId: string;
+  studentName: string;
+  similarity: number;
+  pendingIndex: number;        // Which pending photo matched best
+  storedPhotoUrl: string | null; // The enrolled photo it matched, for side-by-side review
+}
+
+export interface DuplicateFaceCheck {
+  checkedAt: string;
+  conflicts: DuplicateFaceConflict[];
+}
+
+/**
+ * Find enrolled students whose stored face matches any of the given embeddings.
+ * The subject's own record is skipped so re-registrations don't conflict.
+ */
+export async function findDuplicateFaces(
+  subjectId: string,
+  embeddings: Array<{ embedding: number[]; modelVersion?: string }>
+): Promise<DuplicateFaceCheck> {
+  const snapshot = await get(ref(db, 'faceEmbeddings'));
+  const data: Record<string, any> = snapshot.val() || {};
+
+  const records: StoredEmbeddingRecord[] = [];
+  const photos: Record<string, Array<string | null>> = {};
+  for (const [studentId, info] of Object.entries(data)) {
+    if (studentId === subjectId || !isCurrentModelVersion(info.modelVersion)) continue;
+
+    const angles = Array.isArray(info.embeddings)
+      ? info.embeddings.filter((emb: any) => isValidDescriptor(emb.embedding))
+      : [];
+    if (angles.length === 0) continue;
+
+    records.push({
+      studentId,
+      studentName: info.studentName,
+      embedding: info.primaryEmbedding || angles[0].embedding,
+      allEmbeddings: angles.map((emb: any, index: number) => ({
+        embedding: emb.embedding,
+        uid: emb.uid,
+        angle: emb.angle ?? index,
+      })),
+    });
+    photos[studentId] = angles.map((emb: any) => emb.photoDataUri || null);
+  }
+
+  const conflicts: Record<string, DuplicateFaceConflict> = {};
+  embeddings.forEach((probe, pendingIndex) => {
+    if (!isCurrentModelVersion(probe.modelVersion) || !isValidDescriptor(probe.embedding)) return;
+
+    const probeTensor = tf.tensor2d([probe.embedding]);
+    try {
+      const matches = rankStoredMatches(scoreStoredEmbeddings(probeTensor, records), DESCRIPTOR_THRESHOLDS)
+        .filter(match => match.similarity >= DESCRIPTOR_THRESHOLDS.HIGH_CONFIDENCE);
+
+      for (const match of matches) {
+        if (conflicts[match.studentId] && conflicts[match.studentId].similarity >= match.similarity) continue;
+        const bestAngle = match.angleSimilarities.indexOf(match.similarity);
+        conflicts[match.studentId] = {
+          studentId: match.studentId,
+          studentName: match.name,
+          similarity: match.similarity,
+          pendingIndex,
+          storedPhotoUrl: photos[match.studentId]?.[bestAngle] || null,
+        };
+      }
+    } finally {
+      probeTensor.dispose();
+    }
+  });
+
+  const sorted = Object.values(conflicts).sort((a, b) => b.similarity - a.similarity);
+  if (sorted.length > 0) {
+    console.warn(`⚠️ Face for ${subjectId} matches ${sorted.length} enrolled student(s): ${sorted.map(c => `${c.studentName} (${(c.similarity * 100).toFixed(1)}%)`).join(', ')}`);
+  }
+
+  return { checkedAt: new Date().toISOString(), conflicts: sorted };
+}
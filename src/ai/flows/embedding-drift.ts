@@ -0,0 +1,211 @@
+/**
+ * @fileOverview Enrolment drift detection.
+ *
+ * Children's faces change quickly, so a one-shot enrolment slowly stops
+ * matching. For every enrolled student this job buckets the match similarities
+ * in recognitionHistory by week (only sightings since the last enrolment),
+ * fits a trend line through the weekly medians and projects when the median
+ * will fall into the MEDIUM_CONFIDENCE band, where recognitions need staff
+ * review instead of marking attendance. Students heading there are flagged
+ * under enrolmentHealth/{studentId} and their parent is asked to re-run face
+ * registration.
+ */
+
+import { db } from '@/lib/firebase';
+import { ref, get, set } from 'firebase/database';
+import { DESCRIPTOR_THRESHOLDS, isCurrentModelVersion } from '@/lib/face-descriptor';
+import { notifyReEnrolmentNeeded } from '@/lib/notification-manager';
+
+export type EnrolmentHealthStatus =
+  | 'healthy'
+  | 'drifting'            // Trending down, but not urgent yet
+  | 'needs-reenrolment'   // At or close to the MEDIUM_CONFIDENCE band
+  | 'insufficient-data'
+  | 'not-enrolled';
+
+export interface WeeklyConfidence {
+  weekStart: string;
+  median: number;
+  count: number;
+}
+
+export interface EnrolmentHealth {
+  studentId: string;
+  status: EnrolmentHealthStatus;
+  medianSimilarity: number | null;      // Recent median match similarity
+  trendPerWeek: number | null;          // Slope of the weekly medians
+  weeksToMediumBand: number | null;     // Projection at the current trend
+  sampleCount: number;
+  weekly: WeeklyConfidence[];
+  enrolledAt: string | null;
+  checkedAt: string;
+  notifiedAt?: string | null;
+}
+
+export const DRIFT_CONFIG = {
+  lookbackWeeks: 8,
+  minSamples: 10,
+  minWeeks: 2,
+  recentDays: 14,
+  urgentMargin: 0.02,       // Median within this of HIGH_CONFIDENCE needs re-enrolment now
+  urgentWeeks: 4,           // ...or projected to reach the MEDIUM band within this many weeks
+  driftingWeeks: 12,
+  notifyCooldownDays: 30,
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/** Least-squares slope of y over x */
+function slope(points: Array<[number, number]>): number {
+  const n = points.length;
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / n;
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  for (const [x, y] of points) {
+    numerator += (x - meanX) * (y - meanY);
+    denominator += (x - meanX) ** 2;
+  }
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Work out a student's enrolment health from their recognition history
+ */
+export function assessEnrolmentHealth(
+  studentId: string,
+  enrolledAt: string | null,
+  history: Array<{ similarity?: number; timestamp: string; modelVersion?: string }>,
+  now: number = Date.now()
+): EnrolmentHealth {
+  const since = Math.max(
+    now - DRIFT_CONFIG.lookbackWeeks * WEEK_MS,
+    enrolledAt ? new Date(enrolledAt).getTime() : 0
+  );
+  const samples = history
+    // Older records only stored the detector's confidence, which says nothing about drift
+    .filter(h => isCurrentModelVersion(h.modelVersion) && typeof h.similarity === 'number')
+    .map(h => ({ similarity: h.similarity as number, time: new Date(h.timestamp).getTime() }))
+    .filter(h => h.time >= since && h.time <= now)
+    .sort((a, b) => a.time - b.time);
+
+  const base: EnrolmentHealth = {
+    studentId,
+    status: 'insufficient-data',
+    medianSimilarity: null,
+    trendPerWeek: null,
+    weeksToMediumBand: null,
+    sampleCount: samples.length,
+    weekly: [],
+    enrolledAt,
+    checkedAt: new Date(now).toISOString(),
+  };
+
+  // Weekly buckets, oldest first
+  const buckets = new Map<number, number[]>();
+  for (const sample of samples) {
+    const week = Math.floor((sample.time - since) / WEEK_MS);
+    buckets.set(week, [...(buckets.get(week) || []), sample.similarity]);
+  }
+  const weeks = Array.from(buckets.entries()).sort(([a], [b]) => a - b);
+  base.weekly = weeks.map(([week, values]) => ({
+    weekStart: new Date(since + week * WEEK_MS).toISOString(),
+    median: median(values),
+    count: values.length,
+  }));
+
+  if (samples.length < DRIFT_CONFIG.minSamples || weeks.length < DRIFT_CONFIG.minWeeks) {
+    if (samples.length > 0) base.medianSimilarity = median(samples.map(s => s.similarity));
+    return base;
+  }
+
+  const recent = samples.filter(s => s.time >= now - DRIFT_CONFIG.recentDays * DAY_MS);
+  const recentValues = (recent.length >= 5 ? recent : samples.slice(-10)).map(s => s.similarity);
+  const currentMedian = median(recentValues);
+  const trendPerWeek = slope(weeks.map(([week, values]) => [week, median(values)]));
+  const weeksToMediumBand = trendPerWeek < 0
+    ? Math.max(0, (currentMedian - DESCRIPTOR_THRESHOLDS.MEDIUM_CONFIDENCE) / -trendPerWeek)
+    : null;
+
+  let status: EnrolmentHealthStatus = 'healthy';
+  if (currentMedian < DESCRIPTOR_THRESHOLDS.HIGH_CONFIDENCE + DRIFT_CONFIG.urgentMargin ||
+      (weeksToMediumBand !== null && weeksToMediumBand <= DRIFT_CONFIG.urgentWeeks)) {
+    status = 'needs-reenrolment';
+  } else if (weeksToMediumBand !== null && weeksToMediumBand <= DRIFT_CONFIG.driftingWeeks) {
+    status = 'drifting';
+  }
+
+  return { ...base, status, medianSimilarity: currentMedian, trendPerWeek, weeksToMediumBand };
+}
+
+/**
+ * Check every student and notify parents of students that need re-enrolment
+ */
+export async function checkEnrolmentDrift(): Promise<{ checked: number; flagged: number; notified: number }> {
+  const [studentsSnapshot, embeddingsSnapshot, historySnapshot, healthSnapshot] = await Promise.all([
+    get(ref(db, 'students')),
+    get(ref(db, 'faceEmbeddings')),
+    get(ref(db, 'recognitionHistory')),
+    get(ref(db, 'enrolmentHealth')),
+  ]);
+
+  const students: Record<string, any> = studentsSnapshot.val() || {};
+  const embeddings: Record<string, any> = embeddingsSnapshot.val() || {};
+  const history: Record<string, Record<string, any>> = historySnapshot.val() || {};
+  const previous: Record<string, EnrolmentHealth> = healthSnapshot.val() || {};
+
+  let flagged = 0;
+  let notified = 0;
+  const now = Date.now();
+
+  for (const student of Object.values(students)) {
+    const studentId: string = student.studentId;
+    if (!studentId) continue;
+
+    const record = embeddings[studentId];
+    let health: EnrolmentHealth;
+    if (!record) {
+      health = {
+        studentId, status: 'not-enrolled', medianSimilarity: null, trendPerWeek: null,
+        weeksToMediumBand: null, sampleCount: 0, weekly: [], enrolledAt: null,
+        checkedAt: new Date(now).toISOString(),
+      };
+    } else {
+      // Re-enrolment (or re-embedding) starts a fresh baseline
+      const enrolledAt = record.migratedAt || record.timestamp || null;
+      health = assessEnrolmentHealth(studentId, enrolledAt, Object.values(history[studentId] || {}), now);
+    }
+
+    // Keep the last notification time until the parent re-enrols
+    const lastNotified = previous[studentId]?.notifiedAt || null;
+    const notifiedSinceEnrolment = lastNotified && (!health.enrolledAt || new Date(lastNotified) > new Date(health.enrolledAt));
+    health.notifiedAt = notifiedSinceEnrolment ? lastNotified : null;
+
+    if (health.status === 'needs-reenrolment') {
+      flagged++;
+      const cooledDown = !health.notifiedAt ||
+        now - new Date(health.notifiedAt).getTime() > DRIFT_CONFIG.notifyCooldownDays * DAY_MS;
+      if (cooledDown && student.parentId) {
+        try {
+          await notifyReEnrolmentNeeded(student.parentId, student.name, studentId);
+          health.notifiedAt = new Date(now).toISOString();
+          notified++;
+        } catch (error) {
+          console.error(`Failed to notify parent of ${studentId} about re-enrolment:`, error);
+        }
+      }
+    }
+
+    await set(ref(db, `enrolmentHealth/${studentId}`), health);
+  }
+
+  console.log(`🩺 Enrolment health: ${Object.keys(students).length} checked, ${flagged} need re-enrolment, ${notified} parent(s) notified`);
+  return { checked: Object.keys(students).length, flagged, notified };
+}
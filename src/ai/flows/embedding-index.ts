@@ -0,0 +1,273 @@
+/**
+ * @fileOverview In-memory vector index over faceEmbeddings.
+ *
+ * Every stored angle embedding of every current-model student is L2-normalized
+ * once and stacked into a single [rows x 128] matrix, with each student's
+ * angles in contiguous rows. A probe batch is then scored against the whole
+ * roster with one matMul, and the per-student best angle is reduced on the
+ * CPU. Per-bus sub-matrices are cached so a bus camera can search its own
+ * roster first.
+ *
+ * The index is kept current by RTDB listeners on faceEmbeddings and students,
+ * so frames never re-download the embeddings tree; the listener payload is
+ * the only read. Each rebuild bumps `version`.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { db } from '@/lib/firebase';
+import { ref, onValue } from 'firebase/database';
+import {
+  DESCRIPTOR_THRESHOLDS,
+  isCurrentModelVersion,
+  isDualReadModelVersion,
+  isValidDescriptor,
+  isValidStoredEmbedding,
+  resolveModelVersion,
+  type RecognitionThresholds,
+} from '@/lib/face-descriptor';
+import { rankStoredMatches, decideMatch, type CandidateScore, type MatchDecision, type StoredEmbeddingRecord } from './recognition-decision';
+
+interface IndexedStudent {
+  studentId: string;
+  studentName: string;
+  busId: string | null;
+  rowStart: number;
+  rowCount: number;
+}
+
+interface IndexPartition {
+  matrix: tf.Tensor2D;   // Normalized rows, [rows x dims]
+  students: IndexedStudent[]; // rowStart is relative to this partition
+}
+
+export interface EmbeddingIndex {
+  version: number;
+  builtAt: string;
+  studentCount: number;
+  rowCount: number;
+  all: IndexPartition | null;
+  byBus: Map<string, IndexPartition>;
+  /** Records awaiting re-embedding; matched in the legacy space by detectFace */
+  legacyRecords: StoredEmbeddingRecord[];
+}
+
+export interface IndexSearchOptions {
+  topK?: number;
+  busId?: string;
+  /** Rank with rankStoredMatches before the top-k cut, as the unindexed path does */
+  thresholds?: RecognitionThresholds;
+}
+
+let currentIndex: EmbeddingIndex | null = null;
+let indexVersion = 0;
+let latestEmbeddings: Record<string, any> | null = null;
+let latestStudents: Record<string, any> | null = null;
+let readyPromise: Promise<void> | null = null;
+
+function normalizeRow(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+function buildPartition(entries: Array<{ student: Omit<IndexedStudent, 'rowStart' | 'rowCount'>; vectors: number[][] }>): IndexPartition | null {
+  const rows: number[][] = [];
+  const students: IndexedStudent[] = [];
+  for (const { student, vectors } of entries) {
+    students.push({ ...student, rowStart: rows.length, rowCount: vectors.length });
+    rows.push(...vectors);
+  }
+  if (rows.length === 0) return null;
+  return { matrix: tf.tensor2d(rows), students };
+}
+
+function disposeIndex(index: EmbeddingIndex | null) {
+  if (!index) return;
+  index.all?.matrix.dispose();
+  index.byBus.forEach(partition => partition.matrix.dispose());
+}
+
+/**
+ * Build an index from raw faceEmbeddings and students snapshots
+ */
+export function buildEmbeddingIndex(
+  embeddings: Record<string, any>,
+  students: Record<string, any>
+): EmbeddingIndex {
+  const busOf = new Map<string, string | null>();
+  for (const student of Object.values(students)) {
+    if (student?.studentId) busOf.set(student.studentId, student.busId || null);
+  }
+
+  const entries: Array<{ student: Omit<IndexedStudent, 'rowStart' | 'rowCount'>; vectors: number[][] }> = [];
+  const legacyRecords: StoredEmbeddingRecord[] = [];
+
+  for (const [studentId, info] of Object.entries(embeddings)) {
+    if (isCurrentModelVersion(info.modelVersion)) {
+      const vectors = (Array.isArray(info.embeddings) ? info.embeddings : [{ embedding: info.embedding }])
+        .filter((emb: any) => resolveModelVersion(emb?.modelVersion || info.modelVersion) === resolveModelVersion(info.modelVersion))
+        .map((emb: any) => emb.embedding)
+        .filter(isValidDescriptor)
+        .map(normalizeRow);
+      if (vectors.length === 0) continue;
+      entries.push({
+        student: { studentId, studentName: info.studentName, busId: busOf.get(studentId) ?? null },
+        vectors,
+      });
+    } else if (isDualReadModelVersion(info.modelVersion)) {
+      const embedding = info.primaryEmbedding || info.embeddings?.[0]?.embedding || info.embedding;
+      if (!isValidStoredEmbedding(embedding, info.modelVersion)) continue;
+      legacyRecords.push({
+        studentId,
+        studentName: info.studentName,
+        embedding,
+        allEmbeddings: Array.isArray(info.embeddings)
+          ? info.embeddings.map((emb: any) => ({ embedding: emb.embedding, uid: emb.uid, angle: emb.angle || 0 }))
+          : undefined,
+      });
+    }
+  }
+
+  const byBus = new Map<string, IndexPartition>();
+  const busIds = new Set(entries.map(e => e.student.busId).filter((id): id is string => !!id));
+  for (const busId of Array.from(busIds)) {
+    const partition = buildPartition(entries.filter(e => e.student.busId === busId));
+    if (partition) byBus.set(busId, partition);
+  }
+
+  const all = buildPartition(entries);
+  return {
+    version: ++indexVersion,
+    builtAt: new Date().toISOString(),
+    studentCount: entries.length,
+    rowCount: all ? all.matrix.shape[0] : 0,
+    all,
+    byBus,
+    legacyRecords,
+  };
+}
+
+function rebuild() {
+  if (!latestEmbeddings || !latestStudents) return;
+  const started = Date.now();
+  const next = buildEmbeddingIndex(latestEmbeddings, latestStudents);
+  disposeIndex(currentIndex);
+  currentIndex = next;
+  console.log(`📇 Embedding index v${next.version}: ${next.studentCount} students, ${next.rowCount} rows, ${next.byBus.size} buses (${Date.now() - started} ms)`);
+}
+
+/**
+ * Subscribe to faceEmbeddings/students once per process and resolve when the
+ * first index has been built. If a listener is refused or cancelled, the
+ * subscription is dropped (rejecting if the index was not ready yet) so the
+ * next call subscribes again.
+ */
+function ensureSubscribed(): Promise<void> {
+  if (readyPromise) return readyPromise;
+
+  readyPromise = new Promise<void>((resolve, reject) => {
+    let ready = false;
+    const unsubscribers: Array<() => void> = [];
+    const maybeReady = () => {
+      if (latestEmbeddings && latestStudents) {
+        rebuild();
+        ready = true;
+        resolve();
+      }
+    };
+    const fail = (error: Error) => {
+      console.error('Embedding index subscription failed:', error);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      latestEmbeddings = null;
+      latestStudents = null;
+      readyPromise = null;
+      if (!ready) reject(error);
+    };
+
+    unsubscribers.push(onValue(ref(db, 'faceEmbeddings'), snapshot => {
+      latestEmbeddings = snapshot.val() || {};
+      maybeReady();
+    }, fail));
+    unsubscribers.push(onValue(ref(db, 'students'), snapshot => {
+      latestStudents = snapshot.val() || {};
+      maybeReady();
+    }, fail));
+  });
+
+  return readyPromise;
+}
+
+/**
+ * The live index, built on first use and rebuilt whenever the data changes
+ */
+export async function getEmbeddingIndex(): Promise<EmbeddingIndex> {
+  await ensureSubscribed();
+  return currentIndex!;
+}
+
+function searchPartition(
+  partition: IndexPartition,
+  probes: tf.Tensor2D,
+  topK: number,
+  thresholds?: RecognitionThresholds
+): CandidateScore[][] {
+  const similarities = tf.tidy(() => {
+    const normalizedProbes = probes.div(tf.norm(probes, 'euclidean', 1, true));
+    return normalizedProbes.matMul(partition.matrix, false, true) as tf.Tensor2D;
+  });
+  const data = similarities.dataSync();
+  const [probeCount, rowCount] = similarities.shape;
+  similarities.dispose();
+
+  const results: CandidateScore[][] = [];
+  for (let p = 0; p < probeCount; p++) {
+    const offset = p * rowCount;
+    const scores: CandidateScore[] = partition.students.map(student => {
+      const angleSimilarities = Array.from(data.subarray(offset + student.rowStart, offset + student.rowStart + student.rowCount));
+      return {
+        studentId: student.studentId,
+        name: student.studentName,
+        similarity: Math.max(...angleSimilarities),
+        angleSimilarities,
+        isMultiAngle: student.rowCount > 1,
+      };
+    });
+    // Cutting before the angle rule could drop a qualifying student behind a
+    // single-angle outlier and change the runner-up used for the ambiguity gap
+    const ranked = thresholds ? rankStoredMatches(scores, thresholds) : scores.sort((a, b) => b.similarity - a.similarity);
+    results.push(ranked.slice(0, topK));
+  }
+  return results;
+}
+
+/**
+ * Top-k students for each probe, best first. With a busId only that bus's
+ * roster is searched; the caller decides whether to fall back to the full index.
+ */
+export function searchEmbeddingIndex(
+  index: EmbeddingIndex,
+  probes: tf.Tensor2D,
+  options: IndexSearchOptions = {}
+): CandidateScore[][] {
+  const { topK = 5, busId, thresholds } = options;
+  const partition = busId ? index.byBus.get(busId) : index.all;
+  if (!partition) return Array.from({ length: probes.shape[0] }, () => []);
+  return searchPartition(partition, probes, topK, thresholds);
+}
+
+/**
+ * Match a single descriptor computed elsewhere (e.g. on a bus tablet) against
+ * the whole school with the same decision rules as detectFace
+ */
+export async function matchDescriptorAgainstIndex(
+  descriptor: number[],
+  thresholds: RecognitionThresholds = DESCRIPTOR_THRESHOLDS
+): Promise<MatchDecision> {
+  const index = await getEmbeddingIndex();
+  const probe = tf.tensor2d([descriptor]);
+  try {
+    const [scores] = searchEmbeddingIndex(index, probe, { thresholds });
+    return decideMatch(rankStoredMatches(scores, thresholds), thresholds);
+  } finally {
+    probe.dispose();
+  }
+}
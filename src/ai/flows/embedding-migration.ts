@@ -0,0 +1,291 @@
+/**
+ * @fileOverview Re-embedding migration for faceEmbeddings.
+ *
+ * When the descriptor model changes, every stored embedding becomes
+ * incomparable with freshly computed ones. This job regenerates each
+ * student's embeddings from the approved photos in registeredFaces/{studentId}
+ * and tags the record with the current model version.
+ *
+ * Progress is tracked per student under embeddingMigrations/{modelVersion},
+ * so an interrupted run simply resumes with the students that are left.
+ * Until a student has been migrated their legacy record stays in place and is
+ * still matched (dual-read window, see getStoredFaceEmbeddingsAction).
+ */
+
+import { db } from '@/lib/firebase';
+import { ref, get, set, update, runTransaction } from 'firebase/database';
+import { embedLargestFace } from './detect-face';
+import {
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  embeddingMigrationPath,
+  isCurrentModelVersion,
+  resolveModelVersion,
+} from '@/lib/face-descriptor';
+
+export type StudentMigrationStatus = 'migrated' | 'failed';
+
+export interface StudentMigrationResult {
+  studentId: string;
+  studentName: string;
+  status: StudentMigrationStatus;
+  attempts: number;
+  photosProcessed: number;
+  photosFailed: number;
+  previousModelVersion: string | null;
+  error?: string;
+  updatedAt: string;
+}
+
+export interface EmbeddingMigrationState {
+  modelVersion: string;
+  status: 'running' | 'completed' | 'completed_with_failures';
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  leaseExpiresAt?: number;
+  totalStudents: number;
+  migratedCount: number;
+  failedCount: number;
+  pendingCount: number;
+  students?: Record<string, StudentMigrationResult>;
+}
+
+export interface EmbeddingMigrationOptions {
+  /** Maximum number of students to process in this run (keeps server actions short) */
+  batchSize?: number;
+  /** Retry students that failed in an earlier run */
+  retryFailed?: boolean;
+  /** Only migrate these students */
+  studentIds?: string[];
+}
+
+const MIGRATION_LEASE_MS = 10 * 60 * 1000;
+const ANGLES_PER_REGISTRATION = 5; // 0=front, 1=right, 2=left, 3=up, 4=down
+
+/**
+ * Fetch a registered photo as a data URI. Photos are normally stored as data
+ * URIs already; hosted URLs are downloaded.
+ */
+async function photoToDataUri(photo: string): Promise<string> {
+  if (photo.startsWith('data:')) return photo;
+
+  const response = await fetch(photo);
+  if (!response.ok) {
+    throw new Error(`Failed to download photo (${response.status})`);
+  }
+  const contentType = response.headers.get('content-type') || 'image/jpeg';
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return `data:${contentType};base64,${buffer.toString('base64')}`;
+}
+
+/**
+ * Re-embed a single student from their approved photos and replace the
+ * faceEmbeddings record. The previous record is archived by model version.
+ */
+async function migrateStudent(
+  studentId: string,
+  registered: { name?: string; photos?: string[] } | null,
+  existing: any,
+  attempts: number
+): Promise<StudentMigrationResult> {
+  const studentName = existing?.studentName || registered?.name || studentId;
+  const previousModelVersion = existing ? resolveModelVersion(existing.modelVersion) : null;
+  const photos = (registered?.photos || []).filter(Boolean);
+
+  const base = { studentId, studentName, attempts, previousModelVersion };
+
+  if (photos.length === 0) {
+    return {
+      ...base,
+      status: 'failed',
+      photosProcessed: 0,
+      photosFailed: 0,
+      error: 'No approved photos in registeredFaces',
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  // Keep the original capture angle where the photo is already known
+  const knownAngles = new Map<string, number>();
+  for (const emb of existing?.embeddings || []) {
+    if (emb?.photoDataUri && typeof emb.angle === 'number') {
+      knownAngles.set(emb.photoDataUri, emb.angle);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const embeddings: any[] = [];
+  const errors: string[] = [];
+
+  for (let index = 0; index < photos.length; index++) {
+    try {
+      const photoDataUri = await photoToDataUri(photos[index]);
+      const { embedding, uid } = await embedLargestFace(photoDataUri);
+      embeddings.push({
+        embedding,
+        uid,
+        photoDataUri: photos[index],
+        angle: knownAngles.get(photos[index]) ?? index % ANGLES_PER_REGISTRATION,
+        modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+        timestamp: now,
+      });
+    } catch (error) {
+      errors.push(`Photo ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  if (embeddings.length === 0) {
+    return {
+      ...base,
+      status: 'failed',
+      photosProcessed: photos.length,
+      photosFailed: errors.length,
+      error: errors.join('; '),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  if (existing && previousModelVersion) {
+    await set(ref(db, `faceEmbeddingArchive/${studentId}/${previousModelVersion.replace(/\./g, '_')}`), {
+      ...existing,
+      archivedAt: now,
+    });
+  }
+
+  await set(ref(db, `faceEmbeddings/${studentId}`), {
+    studentId,
+    studentName,
+    modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+    embeddings,
+    primaryEmbedding: embeddings[0].embedding,
+    embeddingCount: embeddings.length,
+    timestamp: now,
+    approved: true,
+    migratedFrom: previousModelVersion,
+    migratedAt: now,
+  });
+
+  return {
+    ...base,
+    status: 'migrated',
+    photosProcessed: photos.length,
+    photosFailed: errors.length,
+    ...(errors.length > 0 && { error: errors.join('; ') }),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Read the progress of the migration to the current descriptor model
+ */
+export async function getEmbeddingMigrationState(): Promise<EmbeddingMigrationState | null> {
+  const snapshot = await get(ref(db, embeddingMigrationPath(FACE_DESCRIPTOR_MODEL_VERSION)));
+  return snapshot.exists() ? snapshot.val() : null;
+}
+
+/**
+ * Run (or resume) the re-embedding migration for up to `batchSize` students.
+ * Call repeatedly until pendingCount reaches 0.
+ */
+export async function migrateFaceEmbeddings(
+  options: EmbeddingMigrationOptions = {}
+): Promise<EmbeddingMigrationState> {
+  const { batchSize = 10, retryFailed = true, studentIds } = options;
+  const statePath = embeddingMigrationPath(FACE_DESCRIPTOR_MODEL_VERSION);
+
+  // Claim the lease atomically so two admins starting a run at once cannot both proceed
+  const lease = await runTransaction(ref(db, `${statePath}/leaseExpiresAt`), (leaseExpiresAt: number | null) => {
+    if (leaseExpiresAt && leaseExpiresAt > Date.now()) return; // Abort: someone else holds it
+    return Date.now() + MIGRATION_LEASE_MS;
+  });
+  if (!lease.committed) {
+    throw new Error('Another embedding migration run is in progress');
+  }
+
+  const [registeredSnapshot, embeddingsSnapshot, existingState] = await Promise.all([
+    get(ref(db, 'registeredFaces')),
+    get(ref(db, 'faceEmbeddings')),
+    getEmbeddingMigrationState(),
+  ]);
+
+  const registeredFaces: Record<string, { name?: string; photos?: string[] }> = registeredSnapshot.val() || {};
+  const faceEmbeddings: Record<string, any> = embeddingsSnapshot.val() || {};
+  const students: Record<string, StudentMigrationResult> = { ...(existingState?.students || {}) };
+
+  // Every student with approved photos or an existing embedding record
+  const allStudentIds = Array.from(new Set([...Object.keys(registeredFaces), ...Object.keys(faceEmbeddings)]));
+
+  const needsMigration = (id: string) => !isCurrentModelVersion(faceEmbeddings[id]?.modelVersion);
+  const pending = allStudentIds.filter(id =>
+    needsMigration(id) &&
+    (!studentIds || studentIds.includes(id)) &&
+    (retryFailed || students[id]?.status !== 'failed')
+  );
+
+  const startedAt = existingState?.startedAt || new Date().toISOString();
+  await update(ref(db, statePath), {
+    modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+    status: 'running',
+    startedAt,
+    updatedAt: new Date().toISOString(),
+  });
+
+  console.log(`🔁 Embedding migration to ${FACE_DESCRIPTOR_MODEL_VERSION}: ${pending.length} student(s) pending, processing up to ${batchSize}`);
+
+  try {
+    for (const studentId of pending.slice(0, batchSize)) {
+      const attempts = (students[studentId]?.attempts || 0) + 1;
+      let result: StudentMigrationResult;
+
+      try {
+        result = await migrateStudent(studentId, registeredFaces[studentId] || null, faceEmbeddings[studentId], attempts);
+      } catch (error) {
+        result = {
+          studentId,
+          studentName: faceEmbeddings[studentId]?.studentName || registeredFaces[studentId]?.name || studentId,
+          status: 'failed',
+          attempts,
+          photosProcessed: 0,
+          photosFailed: 0,
+          previousModelVersion: faceEmbeddings[studentId] ? resolveModelVersion(faceEmbeddings[studentId].modelVersion) : null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          updatedAt: new Date().toISOString(),
+        };
+      }
+
+      students[studentId] = result;
+      if (result.status === 'migrated') {
+        faceEmbeddings[studentId] = { ...faceEmbeddings[studentId], modelVersion: FACE_DESCRIPTOR_MODEL_VERSION };
+        console.log(`✅ Re-embedded ${result.studentName} (${result.photosProcessed - result.photosFailed}/${result.photosProcessed} photos)`);
+      } else {
+        console.error(`❌ Failed to re-embed ${result.studentName}: ${result.error}`);
+      }
+
+      // Persist after every student so an interrupted run can resume
+      await set(ref(db, `${statePath}/students/${studentId}`), result);
+      await update(ref(db, statePath), {
+        updatedAt: new Date().toISOString(),
+        leaseExpiresAt: Date.now() + MIGRATION_LEASE_MS,
+      });
+    }
+  } finally {
+    const remaining = allStudentIds.filter(needsMigration);
+    const migratedCount = Object.values(students).filter(s => s.status === 'migrated').length;
+    const failedCount = remaining.filter(id => students[id]?.status === 'failed').length;
+    const pendingCount = remaining.length - failedCount;
+    const done = pendingCount === 0;
+
+    await update(ref(db, statePath), {
+      status: done ? (failedCount > 0 ? 'completed_with_failures' : 'completed') : 'running',
+      totalStudents: allStudentIds.length,
+      migratedCount,
+      failedCount,
+      pendingCount,
+      updatedAt: new Date().toISOString(),
+      completedAt: done ? new Date().toISOString() : null,
+      leaseExpiresAt: null,
+    });
+  }
+
+  return (await getEmbeddingMigrationState())!;
+}
@@ -1,5 +1,8 @@
 import * as tf from '@tensorflow/tfjs';
 import * as blazeface from '@tensorflow-models/blazeface';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { loadFaceDescriptorNets } from '@/lib/face-descriptor';
 
 // Use the actual BlazeFace NormalizedFace type
 interface NormalizedFace {
@@ -40,16 +43,59 @@ interface FaceDetectionResult {
 
 let model: blazeface.BlazeFaceModel | null = null;
 
+// Optional local copy of the BlazeFace graph model (model.json + weight shards)
+// so detection can run without network access, e.g. for the offline benchmark
+const BLAZEFACE_MODEL_PATH = process.env.BLAZEFACE_MODEL_PATH;
+
+/**
+ * IOHandler that reads a tfjs graph model from a directory on disk
+ */
+function graphModelFromDisk(modelDir: string): tf.io.IOHandler {
+  return {
+    load: async () => {
+      const modelJson = JSON.parse(await fs.readFile(path.join(modelDir, 'model.json'), 'utf8'));
+      const manifest: tf.io.WeightsManifestConfig = modelJson.weightsManifest;
+      const shards = await Promise.all(
+        manifest.flatMap(group => group.paths).map(shard => fs.readFile(path.join(modelDir, shard)))
+      );
+      const weightData = Buffer.concat(shards);
+
+      return {
+        modelTopology: modelJson.modelTopology,
+        format: modelJson.format,
+        generatedBy: modelJson.generatedBy,
+        convertedBy: modelJson.convertedBy,
+        weightSpecs: manifest.flatMap(group => group.weights),
+        weightData: weightData.buffer.slice(weightData.byteOffset, weightData.byteOffset + weightData.byteLength),
+      };
+    },
+  };
+}
+
 export async function loadModel(): Promise<blazeface.BlazeFaceModel> {
   if (model) return model;
 
   await tf.ready();
   await tf.setBackend('cpu'); // Use CPU backend for better compatibility
 
-  model = await blazeface.load();
+  model = await blazeface.load(
+    BLAZEFACE_MODEL_PATH ? { modelUrl: graphModelFromDisk(BLAZEFACE_MODEL_PATH) } : undefined
+  );
   return model;
 }
 
+// face-api weights ship inside the package; override for deployments that prune node_modules
+const FACE_API_MODEL_PATH = process.env.FACE_API_MODEL_PATH ||
+  path.join(process.cwd(), 'node_modules', '@vladmandic', 'face-api', 'model');
+
+/**
+ * Load the face-api landmark and recognition networks from disk (server-side)
+ */
+export async function loadDescriptorModels(): Promise<void> {
+  await loadModel(); // Ensures the CPU backend is selected first
+  await loadFaceDescriptorNets({ diskPath: FACE_API_MODEL_PATH });
+}
+
 export async function detectSingleFace(tensor: tf.Tensor3D): Promise<DetectedFace | null> {
   const detector = await loadModel();
   const predictions = await detector.estimateFaces(tensor, false);
@@ -28,6 +28,34 @@ export async function imageDataUriToTensor(dataUri: string): Promise<tf.Tensor3D
   return tf.tensor3d(rgbData, [canvas.height, canvas.width, 3]);
 }
 
+/**
+ * Crop a detected face out of the frame for descriptor extraction.
+ * The box is padded by 20% on each side (clamped to the image), matching the
+ * framing the browser client uses, so the landmark net sees the whole face.
+ */
+export function createFaceCrop(
+  image: tf.Tensor3D,
+  box: { xMin: number; yMin: number; width: number; height: number },
+  padding: number = 0.2
+): tf.Tensor3D {
+  return tf.tidy(() => {
+    const [imageHeight, imageWidth] = image.shape;
+    const x1 = Math.max(0, box.xMin - box.width * padding);
+    const y1 = Math.max(0, box.yMin - box.height * padding);
+    const x2 = Math.min(imageWidth, box.xMin + box.width * (1 + padding));
+    const y2 = Math.min(imageHeight, box.yMin + box.height * (1 + padding));
+
+    const tensor4D = tf.cast(image.expandDims(), 'float32') as tf.Tensor4D;
+    const cropped = tf.image.cropAndResize(
+      tensor4D,
+      [[y1 / imageHeight, x1 / imageWidth, y2 / imageHeight, x2 / imageWidth]],
+      [0],
+      [224, 224]
+    );
+    return tf.squeeze(cropped) as tf.Tensor3D;
+  });
+}
+
 export function cosineSimilarity(a: tf.Tensor2D, b: tf.Tensor2D): number {
   return tf.tidy(() => {
     const a_norm = a.div(tf.norm(a));
@@ -0,0 +1,56 @@
+/**
+ * @fileOverview Admin playback of incident clips.
+ *
+ * Clips are unredacted video, so Storage only lets the server account read
+ * them. The server looks the clip up on its incident record, downloads it as
+ * that account and hands it to a verified admin as a data URI; no download
+ * URL is ever created, so nothing outlives the clip's expiry. Every playback
+ * is logged under snapshotAccessLog with the admin's id, like originals.
+ */
+
+import { db, storage } from '@/lib/firebase';
+import { ref, get, set, push } from 'firebase/database';
+import { ref as storageRef, getBytes } from 'firebase/storage';
+import { ensureServerAccount } from '@/lib/server-account';
+import { INCIDENT_CLIP_FOLDER, incidentPath, type BusIncident } from '@/lib/incident-clips';
+
+const MAX_CLIP_BYTES = 8 * 1024 * 1024; // A 30 s clip at the encoder's bitrate is about 2.5 MB
+
+/**
+ * Fetch an incident's clip for playback. `requestedBy` must come from a
+ * server-verified session, never from the client.
+ */
+export async function readIncidentClip(
+  busId: string,
+  incidentId: string,
+  requestedBy: string
+): Promise<{ dataUri: string; expiresAt: number }> {
+  if (!/^[\w-]+$/.test(busId) || !/^[\w-]+$/.test(incidentId)) throw new Error('Invalid incident reference');
+
+  const incident: BusIncident | null = (await get(ref(db, incidentPath(busId, incidentId)))).val();
+  const clip = incident?.clip;
+  if (!clip || clip.expiresAt <= Date.now()) {
+    throw new Error('The clip for this incident has expired');
+  }
+  // Incident records are writable by bus devices, so only follow paths inside this bus's clip folder
+  if (!clip.storagePath.startsWith(`${INCIDENT_CLIP_FOLDER}/${busId}/`) || clip.storagePath.includes('..')) {
+    throw new Error('Invalid clip reference');
+  }
+
+  await ensureServerAccount();
+  const bytes = await getBytes(storageRef(storage, clip.storagePath), MAX_CLIP_BYTES);
+
+  await set(push(ref(db, 'snapshotAccessLog')), {
+    kind: 'incident-clip',
+    busId,
+    subjectId: incidentId,
+    requestedBy,
+    reason: `Incident clip playback (${incident!.kind})`,
+    accessedAt: new Date().toISOString(),
+  });
+
+  return {
+    dataUri: `data:${clip.mimeType || 'video/webm'};base64,${Buffer.from(bytes).toString('base64')}`,
+    expiresAt: clip.expiresAt,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileOverview Groups intruder alerts into "unknown person" identities.
+ *
+ * Each intruder alert carries the descriptor of the unrecognized face. Alerts
+ * are assigned to the closest existing unknown person (by cosine similarity to
+ * the cluster centroid) or start a new one. Identities live under
+ * unknownPersons/{personId} with a first/last-seen timeline across buses, so
+ * repeat visits read as one person instead of a list of unrelated alerts.
+ */
+
+import { db } from '@/lib/firebase';
+import { ref, get, update, push, runTransaction } from 'firebase/database';
+import {
+  DESCRIPTOR_THRESHOLDS,
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  isValidDescriptor,
+  resolveModelVersion,
+} from '@/lib/face-descriptor';
+
+export interface UnknownPersonSighting {
+  alertId: string;
+  busId: string;
+  timestamp: string;
+  similarity: number;
+}
+
+export interface UnknownPerson {
+  personId: string;
+  modelVersion: string;
+  centroid: number[];        // L2-normalized mean of all member descriptors
+  sightingCount: number;
+  firstSeen: string;
+  lastSeen: string;
+  lastBusId: string;
+  latestSnapshotUrl: string;
+  sightings: Record<string, UnknownPersonSighting>;
+}
+
+/** Same-person threshold; unknown faces only ever get compared to each other */
+export const INTRUDER_CLUSTER_SIMILARITY = DESCRIPTOR_THRESHOLDS.MEDIUM_CONFIDENCE;
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * 'claimed-elsewhere': an overlapping run assigned the alert first
+ */
+type ClusterOutcome = 'clustered' | 'claimed-elsewhere' | 'no-descriptor';
+
+/**
+ * Assign one intruder alert to an unknown person, creating one if needed.
+ * The alert is claimed (its personId set in a transaction) before the person
+ * is touched, and the person is updated in a transaction, so runs that
+ * overlap neither count an alert twice nor create two people for it.
+ */
+async function clusterAlert(
+  alertId: string,
+  alert: any,
+  persons: Record<string, UnknownPerson>
+): Promise<ClusterOutcome> {
+  if (!Array.isArray(alert.embedding) || !isValidDescriptor(alert.embedding) ||
+      resolveModelVersion(alert.modelVersion) !== FACE_DESCRIPTOR_MODEL_VERSION) {
+    return 'no-descriptor';
+  }
+
+  const descriptor = normalize(alert.embedding);
+
+  let bestPerson: UnknownPerson | null = null;
+  let bestSimilarity = -1;
+  for (const person of Object.values(persons)) {
+    if (person.modelVersion !== FACE_DESCRIPTOR_MODEL_VERSION) continue;
+    const similarity = dot(descriptor, person.centroid);
+    if (similarity > bestSimilarity) {
+      bestSimilarity = similarity;
+      bestPerson = person;
+    }
+  }
+
+  const matched = bestPerson && bestSimilarity >= INTRUDER_CLUSTER_SIMILARITY ? bestPerson : null;
+  const personId = matched ? matched.personId : push(ref(db, 'unknownPersons')).key!;
+  const sighting: UnknownPersonSighting = {
+    alertId,
+    busId: alert.busId,
+    timestamp: alert.timestamp,
+    similarity: matched ? bestSimilarity : 1,
+  };
+
+  const claim = await runTransaction(ref(db, `intruderAlerts/${alertId}/personId`), (current: string | null) => {
+    if (current) return; // Abort: already assigned
+    return personId;
+  });
+  if (!claim.committed) return 'claimed-elsewhere';
+
+  try {
+    const result = await runTransaction(ref(db, `unknownPersons/${personId}`), (current: UnknownPerson | null) => {
+      if (!current) {
+        const person: UnknownPerson = {
+          personId,
+          modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+          centroid: descriptor,
+          sightingCount: 1,
+          firstSeen: alert.timestamp,
+          lastSeen: alert.timestamp,
+          lastBusId: alert.busId,
+          latestSnapshotUrl: alert.snapshotUrl,
+          sightings: { [alertId]: sighting },
+        };
+        return person;
+      }
+      if (current.sightings?.[alertId]) return current;
+
+      // Running mean of the member descriptors, re-normalized
+      const n = current.sightingCount;
+      const isLatest = new Date(alert.timestamp) >= new Date(current.lastSeen);
+      const isEarliest = new Date(alert.timestamp) < new Date(current.firstSeen);
+      return {
+        ...current,
+        centroid: normalize(current.centroid.map((v, i) => (v * n + descriptor[i]) / (n + 1))),
+        sightingCount: n + 1,
+        ...(isLatest && { lastSeen: alert.timestamp, lastBusId: alert.busId, latestSnapshotUrl: alert.snapshotUrl }),
+        ...(isEarliest && { firstSeen: alert.timestamp }),
+        sightings: { ...current.sightings, [alertId]: sighting },
+      };
+    });
+    persons[personId] = result.snapshot.val();
+  } catch (error) {
+    // Release the claim so a later run can assign the alert
+    await update(ref(db, `intruderAlerts/${alertId}`), { personId: null });
+    throw error;
+  }
+  return 'clustered';
+}
+
+/**
+ * Cluster every intruder alert that has not been assigned to an unknown person
+ * yet. Safe to call repeatedly; alerts are processed oldest first.
+ */
+export async function clusterUnassignedIntruderAlerts(): Promise<{ clustered: number; skipped: number }> {
+  const [alertsSnapshot, personsSnapshot] = await Promise.all([
+    get(ref(db, 'intruderAlerts')),
+    get(ref(db, 'unknownPersons')),
+  ]);
+
+  const alerts: Record<string, any> = alertsSnapshot.val() || {};
+  const persons: Record<string, UnknownPerson> = personsSnapshot.val() || {};
+
+  const unassigned = Object.entries(alerts)
+    .filter(([, alert]) => !alert.personId && !alert.clusterSkipped)
+    .sort(([, a], [, b]) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  let clustered = 0;
+  let skipped = 0;
+
+  for (const [alertId, alert] of unassigned) {
+    const outcome = await clusterAlert(alertId, alert, persons);
+    if (outcome === 'clustered') {
+      clustered++;
+    } else if (outcome === 'no-descriptor') {
+      // No descriptor (older alerts): don't look at it again
+      await update(ref(db, `intruderAlerts/${alertId}`), { clusterSkipped: true });
+      skipped++;
+    }
+  }
+
+  if (clustered > 0) {
+    console.log(`👥 Clustered ${clustered} intruder alert(s) into unknown persons (${skipped} without descriptors)`);
+  }
+  return { clustered, skipped };
+}
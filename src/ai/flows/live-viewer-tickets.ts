@@ -0,0 +1,34 @@
+/**
+ * @fileOverview Tickets that let a signed-in admin open a live video session.
+ *
+ * liveSignals/{busId}/sessions is where viewers leave their WebRTC offer for
+ * the bus tablet. The database rules only accept a new session whose id has an
+ * unexpired ticket under liveViewerTickets/{busId}/{sessionId}, and only the
+ * server account can write (or read) tickets. The server issues one after
+ * checking the admin session, so a visitor without it cannot pull video.
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/firebase';
+import { ref, set } from 'firebase/database';
+import { ensureServerAccount } from '@/lib/server-account';
+
+// The viewer opens its session straight away; a short life limits reuse of a closed session's id
+const TICKET_TTL_MS = 30 * 1000;
+
+/**
+ * Issue a session id the admin's viewer may use for one live video session
+ */
+export async function issueLiveViewerTicket(busId: string, adminId: string): Promise<string> {
+  if (!/^[\w-]+$/.test(busId)) throw new Error('Invalid bus id');
+
+  await ensureServerAccount();
+  const sessionId = randomBytes(16).toString('hex');
+  await set(ref(db, `liveViewerTickets/${busId}/${sessionId}`), {
+    adminId,
+    expiresAt: Date.now() + TICKET_TTL_MS,
+  });
+
+  console.log(`🎫 Live video ticket issued to ${adminId} for ${busId}`);
+  return sessionId;
+}
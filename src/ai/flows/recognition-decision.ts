@@ -0,0 +1,138 @@
+/**
+ * @fileOverview Match scoring and decision rules shared by detectFace and the
+ * offline recognition benchmark, so both apply exactly the same logic.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import type { RecognitionThresholds } from '@/lib/face-descriptor';
+
+export interface StoredEmbeddingRecord {
+  studentId: string;
+  studentName: string;
+  embedding: number[];
+  allEmbeddings?: Array<{ embedding: number[]; uid: string; angle: number }>;
+}
+
+export interface CandidateScore {
+  studentId: string;
+  name: string;
+  similarity: number; // Best similarity over all stored angles
+  angleSimilarities: number[];
+  isMultiAngle: boolean;
+}
+
+export interface MatchDecision {
+  name?: string;
+  studentId?: string;
+  matchConfidence: number;
+  isPotentialMatch: boolean;
+  potentialMatches: Array<{ name: string; confidence: number }>;
+}
+
+/**
+ * Score a probe embedding against every stored student, best first.
+ * All records must come from the same embedding model as the probe.
+ */
+export function scoreStoredEmbeddings(
+  probe: tf.Tensor2D,
+  records: StoredEmbeddingRecord[]
+): CandidateScore[] {
+  // Stack every stored angle into one matrix so all records are scored with a single matMul
+  const rows: number[][] = [];
+  const spans: Array<{ start: number; count: number; isMultiAngle: boolean }> = [];
+  for (const storedFace of records) {
+    // Check if this student has multi-angle embeddings
+    const isMultiAngle = !!storedFace.allEmbeddings && storedFace.allEmbeddings.length > 1;
+    const storedVectors = isMultiAngle
+      ? storedFace.allEmbeddings!.map(angleEmb => angleEmb.embedding)
+      : [storedFace.embedding];
+
+    spans.push({ start: rows.length, count: storedVectors.length, isMultiAngle });
+    rows.push(...storedVectors);
+  }
+  if (rows.length === 0) return [];
+
+  const similarities = tf.tidy(() => {
+    const normalizedProbe = probe.div(tf.norm(probe));
+    const stored = tf.tensor2d(rows);
+    const normalizedStored = stored.div(tf.norm(stored, 'euclidean', 1, true));
+    return normalizedProbe.matMul(normalizedStored, false, true).dataSync();
+  });
+
+  const scores: CandidateScore[] = records.map((storedFace, i) => {
+    const { start, count, isMultiAngle } = spans[i];
+    const angleSimilarities = Array.from(similarities.subarray(start, start + count));
+    return {
+      studentId: storedFace.studentId,
+      name: storedFace.studentName,
+      similarity: Math.max(...angleSimilarities),
+      angleSimilarities,
+      isMultiAngle,
+    };
+  });
+
+  return scores.sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Keep the candidates that pass the minimum similarity and, for multi-angle
+ * records, the "N angles above threshold" rule
+ */
+export function rankStoredMatches(
+  scores: CandidateScore[],
+  thresholds: RecognitionThresholds
+): CandidateScore[] {
+  return scores
+    .filter(score => {
+      if (score.similarity < thresholds.LOW_CONFIDENCE) return false;
+      if (!score.isMultiAngle) return true;
+
+      // STRICT: For multi-angle, require several angles to match
+      const aboveThreshold = score.angleSimilarities.filter(s => s >= thresholds.LOW_CONFIDENCE).length;
+      return aboveThreshold >= thresholds.MIN_MATCHING_ANGLES;
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Turn ranked matches into an identification decision
+ */
+export function decideMatch(
+  matches: CandidateScore[],
+  thresholds: RecognitionThresholds
+): MatchDecision {
+  const decision: MatchDecision = { matchConfidence: 0, isPotentialMatch: false, potentialMatches: [] };
+  if (matches.length === 0) return decision;
+
+  const bestMatch = matches[0];
+  decision.matchConfidence = bestMatch.similarity;
+
+  // If there are multiple matches, ensure the best match is clearly better
+  if (matches.length > 1) {
+    const confidenceGap = bestMatch.similarity - matches[1].similarity;
+
+    // Require a significant gap between best and second match
+    // This prevents ambiguous matches where two students score similarly
+    if (confidenceGap < thresholds.AMBIGUITY_GAP &&
+        bestMatch.similarity < thresholds.UNAMBIGUOUS_SIMILARITY) {
+      // Too close to call - mark as potential matches for both
+      decision.isPotentialMatch = true;
+      decision.potentialMatches = matches
+        .slice(0, 2)
+        .map(m => ({ name: m.name, confidence: m.similarity }));
+      return decision;
+    }
+  }
+
+  if (bestMatch.similarity >= thresholds.HIGH_CONFIDENCE) {
+    // Clear winner with high confidence
+    decision.name = bestMatch.name;
+    decision.studentId = bestMatch.studentId;
+  } else if (bestMatch.similarity >= thresholds.MEDIUM_CONFIDENCE) {
+    // Potential match - needs verification
+    decision.isPotentialMatch = true;
+    decision.potentialMatches = [{ name: bestMatch.name, confidence: bestMatch.similarity }];
+  }
+
+  return decision;
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileOverview Restricted storage for unredacted event snapshots.
+ *
+ * Snapshots shown to parents and on alert cards are redacted on the bus
+ * tablet (other faces blurred). The unredacted frame is kept here only for
+ * incident review:
+ * - It lives under restrictedSnapshots/{id}. The database rules let only the
+ *   server account (see ensureServerAccount) read or write it, and only until
+ *   it expires; it can be deleted only once it has expired.
+ * - Admin-facing records (alerts, match audit) keep a reference with the id.
+ *   The id grants nothing by itself, and records parents can read
+ *   (studentEvents, attendance) do not carry it at all.
+ * - Originals are opened only for a server-verified admin session, and every
+ *   read is logged under snapshotAccessLog with that admin's id.
+ * - A daily job deletes expired originals using the restrictedSnapshotExpiry
+ *   index, which is server-only as well.
+ */
+
+import { randomBytes } from 'crypto';
+import { db } from '@/lib/firebase';
+import { ref, get, set, push, remove, query, orderByChild, endAt } from 'firebase/database';
+import { ensureServerAccount } from '@/lib/server-account';
+
+export type RestrictedSnapshotKind = 'student-event' | 'intruder-alert' | 'spoof-alert';
+
+export interface RestrictedSnapshotRef {
+  id: string;         // Record id; only the server account can read the record
+  expiresAt: number;  // Epoch ms
+}
+
+export interface RestrictedSnapshotMeta {
+  kind: RestrictedSnapshotKind;
+  busId: string;
+  subjectId?: string | null; // Student the event is about, if any
+}
+
+export const SNAPSHOT_RETENTION = {
+  originalDays: 30, // Must stay within the 31-day cap in database.rules.json
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Store an unredacted snapshot and return the reference to keep on the event
+ */
+export async function retainOriginalSnapshot(
+  snapshotUrl: string,
+  meta: RestrictedSnapshotMeta
+): Promise<RestrictedSnapshotRef> {
+  await ensureServerAccount();
+  const id = randomBytes(24).toString('hex');
+  const createdAt = Date.now();
+  const expiresAt = createdAt + SNAPSHOT_RETENTION.originalDays * DAY_MS;
+
+  await set(ref(db, `restrictedSnapshots/${id}`), {
+    snapshotUrl,
+    kind: meta.kind,
+    busId: meta.busId,
+    subjectId: meta.subjectId ?? null,
+    createdAt,
+    expiresAt,
+  });
+  await set(ref(db, `restrictedSnapshotExpiry/${id}`), { expiresAt });
+
+  return { id, expiresAt };
+}
+
+/**
+ * Open an original for review. Fails once it has expired; every successful
+ * read is logged with the admin who asked and why. `requestedBy` must come
+ * from a server-verified session, never from the client.
+ */
+export async function readOriginalSnapshot(
+  id: string,
+  requestedBy: string,
+  reason: string
+): Promise<{ snapshotUrl: string; expiresAt: number }> {
+  if (!reason.trim()) throw new Error('A reason is required to view an unredacted snapshot');
+  if (!/^[0-9a-f]{48}$/.test(id)) throw new Error('Invalid snapshot reference');
+
+  await ensureServerAccount();
+
+  // The database rules refuse the read after expiry; check here too for a clear error
+  const snapshot = await get(ref(db, `restrictedSnapshots/${id}`)).catch(() => null);
+  const record = snapshot?.val();
+  if (!record || record.expiresAt <= Date.now()) {
+    throw new Error('The original snapshot has expired');
+  }
+
+  await set(push(ref(db, 'snapshotAccessLog')), {
+    kind: record.kind,
+    busId: record.busId,
+    subjectId: record.subjectId ?? null,
+    requestedBy,
+    reason: reason.trim(),
+    accessedAt: new Date().toISOString(),
+  });
+
+  return { snapshotUrl: record.snapshotUrl, expiresAt: record.expiresAt };
+}
+
+/**
+ * Delete every original past its expiry
+ */
+export async function purgeExpiredSnapshots(): Promise<{ purged: number; failed: number }> {
+  await ensureServerAccount();
+  const expiredQuery = query(ref(db, 'restrictedSnapshotExpiry'), orderByChild('expiresAt'), endAt(Date.now()));
+  const expired = await get(expiredQuery);
+
+  let purged = 0;
+  let failed = 0;
+  for (const id of Object.keys(expired.val() || {})) {
+    try {
+      await remove(ref(db, `restrictedSnapshots/${id}`));
+      await remove(ref(db, `restrictedSnapshotExpiry/${id}`));
+      purged++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to purge restricted snapshot ${id}:`, error);
+    }
+  }
+
+  console.log(`🧹 Restricted snapshots: ${purged} expired original(s) deleted, ${failed} failed`);
+  return { purged, failed };
+}
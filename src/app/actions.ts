@@ -16,8 +16,59 @@ import {
     type GenerateSafetyScoreInput,
     type GenerateSafetyScoreOutput,
 } from '@/ai/flows/generate-safety-score';
-import { imageDataUriToTensor, generateStableId } from '@/ai/flows/face-utils';
+import { imageDataUriToTensor, generateStableId, createFaceCrop } from '@/ai/flows/face-utils';
+import {
+  migrateFaceEmbeddings,
+  getEmbeddingMigrationState,
+  type EmbeddingMigrationState,
+} from '@/ai/flows/embedding-migration';
 import { loadModel } from '@/ai/flows/face-detector';
+import { clusterUnassignedIntruderAlerts } from '@/ai/flows/intruder-clustering';
+import {
+  retainOriginalSnapshot,
+  readOriginalSnapshot,
+  type RestrictedSnapshotMeta,
+  type RestrictedSnapshotRef,
+} from '@/ai/flows/restricted-snapshots';
+import { clearAdminSession, createAdminSession, getAdminIdentity } from '@/lib/admin-session';
+import { issueLiveViewerTicket } from '@/ai/flows/live-viewer-tickets';
+import { readIncidentClip } from '@/ai/flows/incident-clip-access';
+import { registerAdminUser } from '@/lib/admin-users';
+import { ensureServerAccount } from '@/lib/server-account';
+import { checkEnrolmentDrift } from '@/ai/flows/embedding-drift';
+import { getEmbeddingIndex, matchDescriptorAgainstIndex } from '@/ai/flows/embedding-index';
+import type { MatchDecision } from '@/ai/flows/recognition-decision';
+import {
+  runAdaptiveLearning,
+  revertStudentEmbeddings,
+  type AdaptiveLearningState,
+  type StudentLearningResult,
+} from '@/ai/flows/adaptive-learning';
+import {
+  findDuplicateFaces,
+  type DuplicateFaceCheck,
+  type DuplicateFaceConflict,
+} from '@/ai/flows/duplicate-face-check';
+import {
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  FACE_DESCRIPTOR_SIZE,
+  isCurrentModelVersion,
+  isDualReadModelVersion,
+  isValidDescriptor,
+  isValidStoredEmbedding,
+  resolveModelVersion,
+} from '@/lib/face-descriptor';
+import {
+  RecognitionPolicyOverridesSchema,
+  getRecognitionPolicy,
+  recognitionPolicyPath,
+  resolveRecognitionPolicy,
+  saveRecognitionPolicyOverrides,
+  validateRecognitionPolicy,
+  type RecognitionPolicyChange,
+  type RecognitionPolicyOverrides,
+  type RecognitionPolicyScope,
+} from '@/lib/recognition-policy';
 import * as tf from '@tensorflow/tfjs';
 import { db } from '@/lib/firebase';
 import { ref, set, get, remove, update } from 'firebase/database';
@@ -42,17 +93,23 @@ export async function detectFaceAction(
     input: DetectFaceInput
   ): Promise<DetectFaceOutput> {
     try {
-      // Fetch stored embeddings for faster matching
-      const embeddingsResult = await getStoredFaceEmbeddingsAction();
-      const storedEmbeddings = embeddingsResult.success ? embeddingsResult.embeddings : [];
-      
-      // Add stored embeddings to input for optimized matching
-      const optimizedInput = {
+      // Match against the cached in-memory index instead of re-reading faceEmbeddings per frame,
+      // with the recognition policy in force for the bus
+      const policy = await getRecognitionPolicy(input.busId);
+      // If the index cannot load (e.g. the read was refused), fall back to reading faceEmbeddings for this request
+      const indexReady = await getEmbeddingIndex().then(() => true, error => {
+        console.warn('Embedding index unavailable, reading stored embeddings directly:', error);
+        return false;
+      });
+      const storedEmbeddings = indexReady ? undefined : (await getStoredFaceEmbeddingsAction()).embeddings || [];
+      const output = await detectFace({
         ...input,
-        storedEmbeddings: storedEmbeddings || []
-      };
-      
-      const output = await detectFace(optimizedInput);
+        useEmbeddingIndex: indexReady,
+        storedEmbeddings,
+        thresholds: { ...policy.thresholds, ...input.thresholds },
+        minFaceSizePx: input.minFaceSizePx ?? policy.minFaceSizePx,
+        minFaceAreaRatio: input.minFaceAreaRatio ?? policy.minFaceAreaRatio,
+      });
       return output;
     } catch (error) {
       console.error('Error detecting face:', error);
@@ -61,6 +118,27 @@ export async function detectFaceAction(
     }
 }
 
+/**
+ * Identify a face the on-device recogniser could not match against its bus
+ * roster. Only the 128-value descriptor is sent, never the camera frame.
+ */
+export async function matchFaceDescriptorAction(
+  descriptor: number[],
+  busId?: string
+): Promise<{ success: boolean; match?: MatchDecision; error?: string }> {
+  try {
+    if (!isValidDescriptor(descriptor)) {
+      return { success: false, error: 'Invalid face descriptor' };
+    }
+    const { thresholds } = await getRecognitionPolicy(busId);
+    const match = await matchDescriptorAgainstIndex(descriptor, thresholds);
+    return { success: true, match };
+  } catch (error) {
+    console.error('Error matching face descriptor:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
 export async function generateSafetyScoreAction(
   input: GenerateSafetyScoreInput
 ): Promise<GenerateSafetyScoreOutput> {
@@ -96,8 +174,9 @@ export async function reviewFaceRegistrationAction(
   studentId: string,
   studentName: string,
   photoUrls: string[],
-  isApproved: boolean
-): Promise<{ success: boolean; error?: string }> {
+  isApproved: boolean,
+  overrideDuplicates: boolean = false
+): Promise<{ success: boolean; error?: string; conflicts?: DuplicateFaceConflict[] }> {
   const pendingRef = ref(db, `pendingFaceRegistrations/${registrationId}`);
 
   if (isApproved) {
@@ -105,7 +184,66 @@ export async function reviewFaceRegistrationAction(
       // Get the pending registration data to access embeddings
       const pendingSnapshot = await get(pendingRef);
       const pendingData = pendingSnapshot.val();
+
+      // Re-check for duplicates: students may have been enrolled since submission
+      const duplicateCheck = await findDuplicateFaces(studentId, pendingData?.embeddings || []);
+      await update(pendingRef, { duplicateCheck });
+      if (duplicateCheck.conflicts.length > 0 && !overrideDuplicates) {
+        const names = duplicateCheck.conflicts.map(c => c.studentName).join(', ');
+        return {
+          success: false,
+          error: `This face matches already enrolled student(s): ${names}. Review the conflict or override to approve anyway.`,
+          conflicts: duplicateCheck.conflicts
+        };
+      }
+
+      // Only a signed-in admin may approve a face that matches someone already enrolled
+      let duplicateOverrideBy: string | null = null;
+      if (duplicateCheck.conflicts.length > 0) {
+        const admin = await getAdminIdentity();
+        if (!admin) {
+          return { success: false, error: 'Sign in as an admin to override the duplicate-face check' };
+        }
+        duplicateOverrideBy = admin.adminId;
+        console.warn(`⚠️ Admin ${admin.adminId} overrode duplicate-face check for ${studentName}`);
+      }
+      const duplicateOverride = duplicateOverrideBy
+        ? { conflictingStudentIds: duplicateCheck.conflicts.map(c => c.studentId) }
+        : null;
+      const duplicateOverrideAt = duplicateOverrideBy ? new Date().toISOString() : null;
       
+      // Authorized adults go to their own registry; they are not students
+      if (pendingData?.subjectType === 'authorizedAdult') {
+        if (!pendingData.embeddings || pendingData.embeddings.length === 0) {
+          return { success: false, error: 'No face embeddings were generated for this registration' };
+        }
+
+        const now = new Date().toISOString();
+        await set(ref(db, `authorizedAdults/${studentId}`), {
+          adultId: studentId,
+          name: studentName,
+          role: pendingData.role,
+          busId: pendingData.busId || null,
+          modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+          embeddings: pendingData.embeddings.map((emb: any, index: number) => ({
+            embedding: emb.embedding,
+            uid: emb.uid,
+            angle: index, // 0=front, 1=right, 2=left, 3=up, 4=down
+            modelVersion: emb.modelVersion || FACE_DESCRIPTOR_MODEL_VERSION,
+            timestamp: now
+          })),
+          photoUrl: photoUrls[0] || null,
+          approvedAt: now,
+          duplicateOverride,
+          duplicateOverrideBy,
+          duplicateOverrideAt
+        });
+
+        console.log(`✅ Approved ${studentName} as authorized ${pendingData.role} (${pendingData.busId || 'all buses'})`);
+        await remove(pendingRef);
+        return { success: true };
+      }
+
       // Store approved photos
       const approvedRef = ref(db, `registeredFaces/${studentId}`);
       const snapshot = await get(approvedRef);
@@ -143,17 +281,22 @@ export async function reviewFaceRegistrationAction(
         await set(embeddingRef, {
           studentId,
           studentName,
+          modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
           embeddings: pendingData.embeddings.map((emb: any, index: number) => ({
             embedding: emb.embedding,
             uid: emb.uid,
             photoDataUri: emb.photoDataUri,
             angle: index, // 0=front, 1=right, 2=left, 3=up, 4=down
+            modelVersion: emb.modelVersion || FACE_DESCRIPTOR_MODEL_VERSION,
             timestamp: new Date().toISOString()
           })),
           primaryEmbedding: pendingData.embeddings[0].embedding, // Keep front-facing as primary for backward compatibility
           embeddingCount: pendingData.embeddings.length,
           timestamp: new Date().toISOString(),
-          approved: true
+          approved: true,
+          duplicateOverride,
+          duplicateOverrideBy,
+          duplicateOverrideAt
         });
         
         console.log(`✅ Stored ${pendingData.embeddings.length} multi-angle embeddings for ${studentName}`);
@@ -179,12 +322,36 @@ export async function reviewFaceRegistrationAction(
   }
 }
 
+// Check a processed pending registration against enrolled faces and flag it for the admin
+export async function checkDuplicateFacesAction(
+  registrationId: string
+): Promise<{ success: boolean; check?: DuplicateFaceCheck; error?: string }> {
+  try {
+    const pendingRef = ref(db, `pendingFaceRegistrations/${registrationId}`);
+    const snapshot = await get(pendingRef);
+    if (!snapshot.exists()) {
+      return { success: false, error: 'Pending registration not found' };
+    }
+
+    const pendingData = snapshot.val();
+    const check = await findDuplicateFaces(pendingData.studentId, pendingData.embeddings || []);
+    await update(pendingRef, { duplicateCheck: check });
+    return { success: true, check };
+  } catch (error) {
+    console.error('Error checking for duplicate faces:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    };
+  }
+}
+
 // New action to generate and store face embeddings
 export async function generateFaceEmbeddingAction(
   photoDataUri: string,
   studentId: string,
   studentName: string
-): Promise<{ success: boolean; embedding?: number[]; uid?: string; error?: string }> {
+): Promise<{ success: boolean; embedding?: number[]; uid?: string; modelVersion?: string; error?: string }> {
   let imageTensor: tf.Tensor3D | null = null;
   let faceTensor: tf.Tensor3D | null = null;
   let faceEmbedding: tf.Tensor2D | null = null;
@@ -236,21 +403,7 @@ export async function generateFaceEmbeddingAction(
 
     // Create face crop
     console.log(`🔄 [${studentName}] Cropping face region...`);
-    faceTensor = tf.tidy(() => {
-      const tensor4D = tf.cast(imageTensor!.expandDims(), 'float32') as tf.Tensor4D;
-      const normalized = tf.image.cropAndResize(
-        tensor4D,
-        [[
-          box.yMin / imageTensor!.shape[0],
-          box.xMin / imageTensor!.shape[1],
-          (box.yMin + box.height) / imageTensor!.shape[0],
-          (box.xMin + box.width) / imageTensor!.shape[1]
-        ]],
-        [0],
-        [224, 224]
-      );
-      return tf.squeeze(normalized) as tf.Tensor3D;
-    });
+    faceTensor = createFaceCrop(imageTensor, box);
     console.log(`✓ [${studentName}] Face crop created: ${faceTensor.shape}`);
 
     // Generate face embeddings
@@ -272,27 +425,21 @@ export async function generateFaceEmbeddingAction(
       return { success: false, error: 'Generated embedding contains invalid values' };
     }
     
-    if (embeddingArray.length !== 512) {
-      console.error(`Invalid embedding size for ${studentName}: ${embeddingArray.length} (expected 512)`);
+    if (embeddingArray.length !== FACE_DESCRIPTOR_SIZE) {
+      console.error(`Invalid embedding size for ${studentName}: ${embeddingArray.length} (expected ${FACE_DESCRIPTOR_SIZE})`);
       return { success: false, error: `Invalid embedding size: ${embeddingArray.length}` };
     }
     
-    // Check if embedding has meaningful values (not all zeros)
-    const nonZeroCount = embeddingArray.filter(v => Math.abs(v) > 0.01).length;
     const embeddingMean = embeddingArray.reduce((a, b) => a + b, 0) / embeddingArray.length;
     
     console.log(`Generated embedding for ${studentName}:`, {
       length: embeddingArray.length,
-      nonZeroValues: nonZeroCount,
+      modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
       mean: embeddingMean.toFixed(4),
       min: Math.min(...embeddingArray).toFixed(4),
       max: Math.max(...embeddingArray).toFixed(4)
     });
     
-    if (nonZeroCount < 100) {
-      console.warn(`Embedding for ${studentName} has very few non-zero values (${nonZeroCount})`);
-    }
-    
     const uid = generateStableId(faceEmbedding);
 
     // Don't store to faceEmbeddings here - it will be stored after admin approval
@@ -302,7 +449,8 @@ export async function generateFaceEmbeddingAction(
     return { 
       success: true, 
       embedding: embeddingArray, 
-      uid 
+      uid,
+      modelVersion: FACE_DESCRIPTOR_MODEL_VERSION
     };
 
   } catch (error) {
@@ -327,6 +475,7 @@ export async function getStoredFaceEmbeddingsAction(): Promise<{
     studentName: string; 
     embedding: number[]; 
     uid: string;
+    modelVersion: string;
     allEmbeddings?: { embedding: number[]; uid: string; angle: number }[]; // Multi-angle support
   }[];
   error?: string;
@@ -340,34 +489,53 @@ export async function getStoredFaceEmbeddingsAction(): Promise<{
     }
 
     const data = snapshot.val();
-    const embeddings = Object.entries(data).map(([studentId, info]: [string, any]) => {
+    const records = Object.entries(data) as [string, any][];
+
+    // Return current-model records, plus legacy records for students that have
+    // not been re-embedded yet (dual-read window). Callers must only compare
+    // embeddings that share a modelVersion.
+    const readableRecords = records.filter(([, info]) =>
+      isCurrentModelVersion(info.modelVersion) || isDualReadModelVersion(info.modelVersion)
+    );
+    const skipped = records.length - readableRecords.length;
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipping ${skipped} face embedding record(s) from an unknown model version`);
+    }
+
+    const embeddings = readableRecords.map(([studentId, info]) => {
+      const modelVersion = resolveModelVersion(info.modelVersion);
+
       // Support both old format (single embedding) and new format (multiple embeddings)
       if (info.embeddings && Array.isArray(info.embeddings)) {
         // New multi-angle format
+        const angleEmbeddings = info.embeddings.filter((emb: any) => resolveModelVersion(emb.modelVersion || info.modelVersion) === modelVersion);
         return {
           studentId,
           studentName: info.studentName,
-          embedding: info.primaryEmbedding || info.embeddings[0].embedding, // Use primary or first
-          uid: info.embeddings[0].uid,
-          allEmbeddings: info.embeddings.map((emb: any) => ({
+          embedding: info.primaryEmbedding || angleEmbeddings[0]?.embedding, // Use primary or first
+          uid: angleEmbeddings[0]?.uid || info.embeddings[0].uid,
+          modelVersion,
+          allEmbeddings: angleEmbeddings.map((emb: any) => ({
             embedding: emb.embedding,
             uid: emb.uid,
             angle: emb.angle || 0
           }))
         };
       } else {
-        // Old single-embedding format (backward compatibility)
+        // Single-embedding format
         return {
           studentId,
           studentName: info.studentName,
           embedding: info.embedding,
           uid: info.uid,
+          modelVersion,
           allEmbeddings: undefined
         };
       }
-    });
+    }).filter(e => isValidStoredEmbedding(e.embedding, e.modelVersion));
 
-    console.log(`📐 Loaded embeddings for ${embeddings.length} students (${embeddings.filter(e => e.allEmbeddings).length} with multi-angle)`);
+    const legacyCount = embeddings.filter(e => isDualReadModelVersion(e.modelVersion)).length;
+    console.log(`📐 Loaded embeddings for ${embeddings.length} students (${embeddings.filter(e => e.allEmbeddings).length} with multi-angle, ${legacyCount} awaiting re-embedding)`);
 
     return { success: true, embeddings };
   } catch (error) {
@@ -379,6 +547,237 @@ export async function getStoredFaceEmbeddingsAction(): Promise<{
   }
 }
 
+// Re-embed stored faces with the current descriptor model (resumable, one batch per call)
+export async function runEmbeddingMigrationAction(
+  batchSize: number = 10,
+  retryFailed: boolean = true
+): Promise<{ success: boolean; state?: EmbeddingMigrationState; error?: string }> {
+  try {
+    const state = await migrateFaceEmbeddings({ batchSize, retryFailed });
+    return { success: true, state };
+  } catch (error) {
+    console.error('Error running embedding migration:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    };
+  }
+}
+
+export async function getEmbeddingMigrationStatusAction(): Promise<{
+  success: boolean;
+  state?: EmbeddingMigrationState | null;
+  error?: string;
+}> {
+  try {
+    const state = await getEmbeddingMigrationState();
+    return { success: true, state };
+  } catch (error) {
+    console.error('Error fetching embedding migration status:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    };
+  }
+}
+
+// Keep the unredacted frame of an event in restricted, expiring storage
+export async function retainOriginalSnapshotAction(
+  snapshotUrl: string,
+  meta: RestrictedSnapshotMeta
+): Promise<{ success: boolean; original?: RestrictedSnapshotRef; error?: string }> {
+  try {
+    const original = await retainOriginalSnapshot(snapshotUrl, meta);
+    return { success: true, original };
+  } catch (error) {
+    console.error('Error retaining original snapshot:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Admin login, checked on the server; starts a signed session cookie
+export async function adminLoginAction(
+  adminId: string,
+  password: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const valid = await createAdminSession(adminId, password);
+    if (!valid) return { success: false, error: 'Invalid admin credentials.' };
+
+    // Admin alerts are sent to every registered admin; a failure here must not block the login
+    await registerAdminUser(adminId).catch(error => console.error('Error registering admin user:', error));
+    return { success: true };
+  } catch (error) {
+    console.error('Error starting admin session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// The signed-in admin's id, which their notifications are addressed to
+export async function getAdminSessionAction(): Promise<{ success: boolean; adminId?: string; error?: string }> {
+  try {
+    const admin = await getAdminIdentity();
+    return admin ? { success: true, adminId: admin.adminId } : { success: false, error: 'Not signed in as an admin' };
+  } catch (error) {
+    console.error('Error reading admin session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+export async function adminLogoutAction(): Promise<{ success: boolean; error?: string }> {
+  try {
+    await clearAdminSession();
+    return { success: true };
+  } catch (error) {
+    console.error('Error ending admin session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Open an unredacted snapshot for review; only for a signed-in admin, and the access is logged
+export async function viewOriginalSnapshotAction(
+  originalId: string,
+  reason: string
+): Promise<{ success: boolean; snapshotUrl?: string; expiresAt?: number; error?: string }> {
+  try {
+    const admin = await getAdminIdentity();
+    if (!admin) {
+      return { success: false, error: 'Sign in as an admin to view unredacted snapshots' };
+    }
+    const { snapshotUrl, expiresAt } = await readOriginalSnapshot(originalId, admin.adminId, reason);
+    return { success: true, snapshotUrl, expiresAt };
+  } catch (error) {
+    console.error('Error reading original snapshot:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Play an incident clip; only for a signed-in admin, and the playback is logged
+export async function viewIncidentClipAction(
+  busId: string,
+  incidentId: string
+): Promise<{ success: boolean; clipDataUri?: string; expiresAt?: number; error?: string }> {
+  try {
+    const admin = await getAdminIdentity();
+    if (!admin) {
+      return { success: false, error: 'Sign in as an admin to play incident clips' };
+    }
+    const { dataUri, expiresAt } = await readIncidentClip(busId, incidentId, admin.adminId);
+    return { success: true, clipDataUri: dataUri, expiresAt };
+  } catch (error) {
+    console.error('Error reading incident clip:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Issue a live video session id for a feed; only for a signed-in admin
+export async function openLiveVideoSessionAction(
+  feedId: string
+): Promise<{ success: boolean; sessionId?: string; error?: string }> {
+  try {
+    const admin = await getAdminIdentity();
+    if (!admin) {
+      return { success: false, error: 'Sign in as an admin to watch live video' };
+    }
+    const sessionId = await issueLiveViewerTicket(feedId, admin.adminId);
+    return { success: true, sessionId };
+  } catch (error) {
+    console.error('Error opening live video session:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Replace the school-wide or per-bus recognition policy overrides.
+ * Fields left out fall back to the school policy (for a bus) or the defaults.
+ */
+export async function updateRecognitionPolicyAction(
+  scope: RecognitionPolicyScope,
+  busId: string | null,
+  overrides: RecognitionPolicyOverrides
+): Promise<{ success: boolean; change?: RecognitionPolicyChange; error?: string }> {
+  try {
+    const admin = await getAdminIdentity();
+    if (!admin) {
+      return { success: false, error: 'Sign in as an admin to change the recognition policy' };
+    }
+    if (scope === 'bus' && !busId) {
+      return { success: false, error: 'A bus is required for a per-bus policy' };
+    }
+
+    const parsed = RecognitionPolicyOverridesSchema.safeParse(overrides);
+    if (!parsed.success) {
+      return { success: false, error: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') };
+    }
+
+    const [schoolSnapshot, busesSnapshot] = await Promise.all([
+      get(ref(db, recognitionPolicyPath('school'))),
+      get(ref(db, 'recognitionPolicy/buses')),
+    ]);
+    const school: RecognitionPolicyOverrides | null = schoolSnapshot.val();
+    const buses: Record<string, RecognitionPolicyOverrides> = busesSnapshot.val() || {};
+
+    // Check every policy the change affects: a school change applies under each bus override
+    const affected = scope === 'school'
+      ? [resolveRecognitionPolicy(parsed.data), ...Object.values(buses).map(bus => resolveRecognitionPolicy(parsed.data, bus))]
+      : [resolveRecognitionPolicy(school, parsed.data)];
+    const errors = Array.from(new Set(affected.flatMap(validateRecognitionPolicy)));
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('; ') };
+    }
+
+    const before = scope === 'school' ? school : buses[busId!] ?? null;
+    await ensureServerAccount(); // The policy and its audit log are writable by the server account only
+    const change = await saveRecognitionPolicyOverrides(scope, busId, before, parsed.data, admin.adminId);
+    return { success: true, change };
+  } catch (error) {
+    console.error('Error updating recognition policy:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+// Link new intruder alerts to recurring unknown persons
+export async function clusterIntruderAlertsAction(): Promise<{
+  success: boolean;
+  clustered?: number;
+  error?: string;
+}> {
+  try {
+    const { clustered } = await clusterUnassignedIntruderAlerts();
+    return { success: true, clustered };
+  } catch (error) {
+    console.error('Error clustering intruder alerts:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    };
+  }
+}
+
 // Handle parent response to missed bus alert
 export async function handleMissedBusResponseAction(
   alertId: string,
@@ -415,106 +814,81 @@ export async function handleMissedBusResponseAction(
   }
 }
 
-// ADAPTIVE LEARNING: Update embeddings based on recognition history
+// ADAPTIVE LEARNING: Learn a validated embedding for one student from recognition history
 export async function improveEmbeddingsFromHistoryAction(
-  studentId: string,
-  minConfidence: number = 0.40,
-  minSamples: number = 5
-): Promise<{ success: boolean; updatedEmbeddings?: number; error?: string }> {
+  studentId: string
+): Promise<{ success: boolean; result?: StudentLearningResult; error?: string }> {
   try {
-    console.log(`🧠 Starting adaptive learning for student ${studentId}...`);
-    
-    // Get recognition history
-    const historyRef = ref(db, `recognitionHistory/${studentId}`);
-    const historySnapshot = await get(historyRef);
-    
-    if (!historySnapshot.exists()) {
-      return { success: false, error: 'No recognition history found' };
-    }
-    
-    const historyData = historySnapshot.val();
-    const recognitions = Object.values(historyData) as Array<{
-      embedding: number[];
-      confidence: number;
-      timestamp: string;
-    }>;
-    
-    // Filter high-confidence recognitions
-    const highConfidenceRecognitions = recognitions.filter(r => r.confidence >= minConfidence);
-    
-    if (highConfidenceRecognitions.length < minSamples) {
-      return { 
-        success: false, 
-        error: `Not enough high-confidence samples (${highConfidenceRecognitions.length}/${minSamples})` 
-      };
-    }
-    
-    console.log(`✓ Found ${highConfidenceRecognitions.length} high-confidence recognitions`);
-    
-    // Get current stored embeddings
-    const embeddingRef = ref(db, `faceEmbeddings/${studentId}`);
-    const embeddingSnapshot = await get(embeddingRef);
-    
-    if (!embeddingSnapshot.exists()) {
-      return { success: false, error: 'No stored embeddings found' };
-    }
-    
-    const currentData = embeddingSnapshot.val();
-    
-    // Calculate averaged embedding from recognition history
-    const embeddingLength = highConfidenceRecognitions[0].embedding.length;
-    const avgEmbedding = new Array(embeddingLength).fill(0);
-    
-    for (const recognition of highConfidenceRecognitions) {
-      for (let i = 0; i < embeddingLength; i++) {
-        avgEmbedding[i] += recognition.embedding[i];
-      }
-    }
-    
-    for (let i = 0; i < embeddingLength; i++) {
-      avgEmbedding[i] /= highConfidenceRecognitions.length;
+    const state = await runAdaptiveLearning({ studentIds: [studentId] });
+    const snapshot = await get(ref(db, `adaptiveLearning/students/${studentId}`));
+    console.log(`🧠 Adaptive learning for ${studentId}: ${state.acceptedCount > 0 ? 'accepted' : 'no change'}`);
+    return { success: true, result: snapshot.val() || undefined };
+  } catch (error) {
+    console.error('Error improving embeddings from history:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
+    };
+  }
+}
+
+// Nightly adaptive learning over all students (also triggered by the cron route)
+export async function runAdaptiveLearningAction(
+  force: boolean = false
+): Promise<{ success: boolean; state?: AdaptiveLearningState; error?: string }> {
+  try {
+    // Forcing skips the once-a-day limit, so only an admin may start a run by hand
+    const admin = await getAdminIdentity();
+    if (!admin) {
+      return { success: false, error: 'Sign in as an admin to run adaptive learning' };
     }
-    
-    // Normalize the averaged embedding
-    const magnitude = Math.sqrt(avgEmbedding.reduce((sum, val) => sum + val * val, 0));
-    const normalizedAvg = avgEmbedding.map(val => val / magnitude);
-    
-    console.log(`✓ Computed averaged embedding from ${highConfidenceRecognitions.length} samples`);
-    
-    // Add the averaged embedding as a new angle (real-world composite)
-    const newAngle = {
-      embedding: normalizedAvg,
-      uid: `learned-${Date.now()}`,
-      angle: 99, // Special angle for learned embeddings
-      timestamp: new Date().toISOString(),
-      source: 'adaptive-learning',
-      sampleCount: highConfidenceRecognitions.length
+    const state = await runAdaptiveLearning({ force });
+    return { success: true, state };
+  } catch (error) {
+    console.error('Error running adaptive learning:', error);
+    return { 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
     };
-    
-    // Update stored embeddings with the new learned embedding
-    const updatedEmbeddings = [...(currentData.embeddings || []), newAngle];
-    
-    await set(embeddingRef, {
-      ...currentData,
-      embeddings: updatedEmbeddings,
-      embeddingCount: updatedEmbeddings.length,
-      lastLearningUpdate: new Date().toISOString(),
-      totalRecognitions: recognitions.length,
-      learningSamples: highConfidenceRecognitions.length
-    });
-    
-    console.log(`✅ Added learned embedding for student ${studentId} (${updatedEmbeddings.length} total embeddings)`);
-    
+  }
+}
+
+// Revert a student's embeddings to an earlier snapshot; only for a signed-in admin, who is logged as the reverter
+export async function revertEmbeddingVersionAction(
+  studentId: string,
+  versionId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const admin = await getAdminIdentity();
+    if (!admin) {
+      return { success: false, error: 'Sign in as an admin to revert face embeddings' };
+    }
+    await revertStudentEmbeddings(studentId, versionId, admin.adminId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error reverting face embeddings:', error);
     return { 
-      success: true, 
-      updatedEmbeddings: updatedEmbeddings.length 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Unknown error' 
     };
-    
+  }
+}
+
+// Re-check every student's enrolment health and notify parents whose child needs re-enrolment
+export async function checkEnrolmentHealthAction(): Promise<{
+  success: boolean;
+  checked?: number;
+  flagged?: number;
+  error?: string;
+}> {
+  try {
+    const { checked, flagged } = await checkEnrolmentDrift();
+    return { success: true, checked, flagged };
   } catch (error) {
-    console.error('Error improving embeddings from history:', error);
+    console.error('Error checking enrolment health:', error);
     return { 
       success: false, 
       error: error instanceof Error ? error.message : 'Unknown error' 
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runAdaptiveLearning } from '@/ai/flows/adaptive-learning';
+
+// Nightly trigger (see vercel.json crons). Vercel sends CRON_SECRET as a bearer token;
+// without it set the route refuses every request.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const state = await runAdaptiveLearning();
+    return NextResponse.json({ success: true, state });
+  } catch (error) {
+    console.error('Adaptive learning error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkEnrolmentDrift } from '@/ai/flows/embedding-drift';
+
+// Nightly trigger (see vercel.json crons). Vercel sends CRON_SECRET as a bearer token;
+// without it set the route refuses every request.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await checkEnrolmentDrift();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Enrolment health check error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredSnapshots } from '@/ai/flows/restricted-snapshots';
+import { purgeExpiredClips } from '@/lib/incident-clips';
+import { ensureServerAccount } from '@/lib/server-account';
+
+// Daily trigger (see vercel.json crons). Vercel sends CRON_SECRET as a bearer token;
+// without it set the route refuses every request.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeExpiredSnapshots();
+    await ensureServerAccount(); // Only the server account may delete clips from Storage
+    const clips = await purgeExpiredClips();
+    return NextResponse.json({ success: true, ...result, clips });
+  } catch (error) {
+    console.error('Snapshot purge error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -19,6 +19,7 @@ import type { StudentJson as StudentType, StudentStatus } from '@/lib/data';
 import { db } from '@/lib/firebase';
 import { ref, onValue } from 'firebase/database';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { MatchAuditDialog } from '@/components/dashboard/match-audit-dialog';
 
 type AttendanceData = typeof attendanceData;
 const allStudents: StudentType[] = Object.values(studentData);
@@ -27,6 +28,8 @@ interface DailyAttendanceRecord {
   status: StudentStatus | 'Present' | 'Absent';
   entry: string | null;
   exit: string | null;
+  decisionId?: string;     // Recognition decision behind an automatic On Board
+  exitDecisionId?: string; // ...and behind an automatic exit
 }
 
 export default function AttendancePage() {
@@ -52,7 +55,9 @@ export default function AttendancePage() {
                 combinedAttendance[student.studentId] = {
                     status: liveRecord.status as StudentStatus | 'Present' | 'Absent',
                     entry: liveRecord.entry || staticRecord?.entry || 'N/A',
-                    exit: liveRecord.exit || staticRecord?.exit || 'N/A'
+                    exit: liveRecord.exit || staticRecord?.exit || 'N/A',
+                    decisionId: liveRecord.decisionId,
+                    exitDecisionId: liveRecord.exitDecisionId
                 };
             } else if (staticRecord) {
                 combinedAttendance[student.studentId] = {
@@ -264,6 +269,22 @@ export default function AttendancePage() {
                                               <Clock className="h-4 w-4 text-orange-500" />
                                               <span>Out: {attendanceRecord?.exit || 'N/A'}</span>
                                           </div>
+                                          {date && attendanceRecord?.decisionId && (
+                                              <MatchAuditDialog
+                                                  date={format(date, 'yyyy-MM-dd')}
+                                                  studentId={student.studentId}
+                                                  decisionId={attendanceRecord.decisionId}
+                                                  label="Why on board?"
+                                              />
+                                          )}
+                                          {date && attendanceRecord?.exitDecisionId && (
+                                              <MatchAuditDialog
+                                                  date={format(date, 'yyyy-MM-dd')}
+                                                  studentId={student.studentId}
+                                                  decisionId={attendanceRecord.exitDecisionId}
+                                                  label="Why exited?"
+                                              />
+                                          )}
                                       </div>
                                   </li>
                               )
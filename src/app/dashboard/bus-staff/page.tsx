@@ -16,6 +16,7 @@ import type { StudentJson as StudentType, StudentStatus } from '@/lib/data';
 import { SpeedTracker } from '@/components/dashboard/speed-tracker';
 import { FacialRecognitionFeed } from '@/components/dashboard/facial-recognition-feed';
 import { LiveCCTV } from '@/components/dashboard/live-cctv';
+import { MatchReviewQueue } from '@/components/dashboard/match-review-queue';
 import { RouteMapCard } from '@/components/dashboard/route-map-card';
 import { format } from 'date-fns';
 import { db } from '@/lib/firebase';
@@ -26,6 +27,7 @@ import {
   removeSession,
   cleanupStaleSessions 
 } from '@/lib/session-manager';
+import { DEFAULT_CAMERA_ID } from '@/lib/bus-cameras';
 import { useRouter } from 'next/navigation';
 import { AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
@@ -35,6 +37,8 @@ interface AttendanceRecord {
     status: AttendanceStatus;
     entry: string | null;
     exit: string | null;
+    decisionId?: string | null;     // Set by the camera; cleared by a manual override
+    exitDecisionId?: string | null;
 }
 
 export default function BusStaffDashboard() {
@@ -48,6 +52,7 @@ export default function BusStaffDashboard() {
   const [onBoardCount, setOnBoardCount] = useState(0);
   const [sessionTakenOver, setSessionTakenOver] = useState(false);
   const [isPrimarySession, setIsPrimarySession] = useState(true);
+  const [cameraId, setCameraId] = useState(DEFAULT_CAMERA_ID);
   const [currentBus, setCurrentBus] = useState<any>(null);
 
   const getAttendanceRef = useCallback((studentId: string) => {
@@ -74,6 +79,7 @@ export default function BusStaffDashboard() {
     setStaffName(loggedInStaffId);
     setBusId(loggedInBusId);
     setIsPrimarySession(isPrimary);
+    setCameraId(localStorage.getItem('staffCameraId') || DEFAULT_CAMERA_ID);
 
     // Load bus data from Firebase
     const busRef = ref(db, `buses/${loggedInBusId}`);
@@ -103,6 +109,7 @@ export default function BusStaffDashboard() {
           localStorage.removeItem('loggedInStaffId');
           localStorage.removeItem('loggedInStaffBusId');
           localStorage.removeItem('staffSessionId');
+          localStorage.removeItem('staffCameraId');
           localStorage.removeItem('isPrimarySession');
           router.push('/login');
         }, 3000);
@@ -201,12 +208,14 @@ export default function BusStaffDashboard() {
                 ...payload,
                 status: 'On Board',
                 entry: format(new Date(), 'hh:mm a'),
+                decisionId: null,
             };
         } else if (action === 'exit') {
             payload = {
                 ...payload,
                 status: 'Present',
                 exit: format(new Date(), 'hh:mm a'),
+                exitDecisionId: null,
             }
         } else if (action === 'mark_absent') {
             payload = {
@@ -326,9 +335,11 @@ export default function BusStaffDashboard() {
           <p className="text-muted-foreground">Live feed and attendance for bus {currentBus.name}.</p>
         </div>
 
+        <MatchReviewQueue busId={busId} staffName={staffName} />
+
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
            <SpeedTracker busId={busId} />
-           <FacialRecognitionFeed busId={busId} studentsOnBus={studentsOnBus} isPrimarySession={isPrimarySession} />
+           <FacialRecognitionFeed busId={busId} cameraId={cameraId} studentsOnBus={studentsOnBus} isPrimarySession={isPrimarySession} />
            <LiveCCTV busId={busId} />
         </div>
         <div className="grid gap-4 md:grid-cols-2">
@@ -38,6 +38,9 @@ import { useToast } from '@/hooks/use-toast';
 import { generateSafetyScoreAction } from '@/app/actions';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { BusFeedsCard } from '@/components/dashboard/bus-feeds-card';
+import { BusCamerasCard } from '@/components/dashboard/bus-cameras-card';
+import { BroadcastHealthCard, BroadcastUptimeBadge } from '@/components/dashboard/broadcast-health-card';
+import { AuthorizedAdultsCard } from '@/components/dashboard/authorized-adults-card';
   
 const initialBuses: Bus[] = Object.values(busData);
 
@@ -256,6 +259,7 @@ export default function BusesPage() {
                                 <Badge variant={bus.status === 'On Route' ? 'default' : bus.status === 'Idle' ? 'secondary' : 'destructive'}>
                                     {bus.status}
                                 </Badge>
+                                <BroadcastUptimeBadge busId={bus.busId} />
                                 <span className="text-sm">{bus.studentsOnBoard}/{bus.capacity}</span>
                                 <DropdownMenu>
                                 <DropdownMenuTrigger asChild>
@@ -277,12 +281,19 @@ export default function BusesPage() {
                              <BusInfoCard bus={bus} />
                              <BusFeedsCard busId={bus.busId} />
                            </div>
+                           <div className="mt-4">
+                             <BusCamerasCard busId={bus.busId} />
+                           </div>
+                           <div className="mt-4">
+                             <BroadcastHealthCard busId={bus.busId} />
+                           </div>
                         </AccordionContent>
                     </AccordionItem>
                 ))}
             </Accordion>
         </CardContent>
       </Card>
+      <AuthorizedAdultsCard buses={buses} />
       </main>
     </div>
   );
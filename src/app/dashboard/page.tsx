@@ -11,10 +11,16 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/co
 import { Menu } from 'lucide-react';
 import Link from 'next/link';
 import { IntruderAlertsCard } from '@/components/dashboard/intruder-alerts-card';
+import { BusIncidentsCard } from '@/components/dashboard/bus-incidents-card';
+import { SpoofAlertsCard } from '@/components/dashboard/spoof-alerts-card';
+import { CameraTamperAlertsCard } from '@/components/dashboard/camera-tamper-alerts-card';
+import { RecognitionPolicyCard } from '@/components/dashboard/recognition-policy-card';
 import { FaceApprovalCard } from '@/components/dashboard/face-approval-card';
+import { EmbeddingMigrationCard } from '@/components/dashboard/embedding-migration-card';
 import { Breadcrumbs } from '@/components/breadcrumbs';
 import BusProximityAlerts from '@/components/dashboard/bus-proximity-alerts';
 import BusSimulatorCard from '@/components/dashboard/bus-simulator-card';
+import { VideoWallCard } from '@/components/dashboard/video-wall-card';
 
 export default function Dashboard() {
   return (
@@ -152,16 +158,24 @@ export default function Dashboard() {
             <div className="lg:col-span-3">
                 <BusSimulatorCard />
             </div>
+            <div className="lg:col-span-3">
+                <VideoWallCard />
+            </div>
             <div className="lg:col-span-2 grid auto-rows-max items-start gap-4 md:gap-8">
                <LiveMapCard />
                <BusProximityAlerts />
                <FaceApprovalCard />
+               <EmbeddingMigrationCard />
+               <RecognitionPolicyCard />
                <AttendanceSummaryCard />
             </div>
              <div className="grid auto-rows-max items-start gap-4 md:gap-8">
                 <EmergencyCard />
                 <AlertsCard />
                 <IntruderAlertsCard />
+                <BusIncidentsCard />
+                <SpoofAlertsCard />
+                <CameraTamperAlertsCard />
             </div>
         </div>
       </main>
@@ -20,6 +20,7 @@ import { LiveMapCard } from '@/app/dashboard/live-map-card';
 import { MessagingCard } from '@/components/dashboard/messaging-card';
 import { BusInfoCard } from '@/components/dashboard/bus-info-card';
 import { EditStudentForm } from '@/components/dashboard/edit-student-form';
+import { EmbeddingVersionsCard } from '@/components/dashboard/embedding-versions-card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
     Accordion,
@@ -267,6 +268,7 @@ export default function StudentDetailPage() {
                 </CardContent>
             </Card>
             <MessagingCard studentId={student.studentId} />
+            <EmbeddingVersionsCard studentId={student.studentId} />
           </div>
         </div>
       </main>
@@ -6,7 +6,7 @@ import { GuardianTrackLogo } from '@/components/icons';
 import { UserNav } from '@/components/user-nav';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
-import { Menu, MoreHorizontal, MessageSquare, Star, Search } from 'lucide-react';
+import { Menu, MoreHorizontal, MessageSquare, Star, Search, HeartPulse, Loader2 } from 'lucide-react';
 import Link from 'next/link';
 import initialStudentData from '@/lib/students.json';
 import {
@@ -41,6 +41,37 @@ import { db } from '@/lib/firebase';
 import { ref, onValue } from 'firebase/database';
 import { format } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { checkEnrolmentHealthAction } from '@/app/actions';
+import type { EnrolmentHealth, EnrolmentHealthStatus } from '@/ai/flows/embedding-drift';
+
+const HEALTH_BADGES: Record<EnrolmentHealthStatus, { label: string; className: string }> = {
+  'healthy': { label: 'Healthy', className: 'bg-green-100 text-green-800 hover:bg-green-100' },
+  'drifting': { label: 'Drifting', className: 'bg-amber-100 text-amber-800 hover:bg-amber-100' },
+  'needs-reenrolment': { label: 'Re-enrol', className: 'bg-red-100 text-red-800 hover:bg-red-100' },
+  'insufficient-data': { label: 'Not enough data', className: 'bg-muted text-muted-foreground hover:bg-muted' },
+  'not-enrolled': { label: 'Not enrolled', className: 'bg-muted text-muted-foreground hover:bg-muted' },
+};
+
+function EnrolmentHealthBadge({ health }: { health?: EnrolmentHealth }) {
+  if (!health) {
+    return <span className="text-xs text-muted-foreground">—</span>;
+  }
+
+  const badge = HEALTH_BADGES[health.status];
+  const title = health.weeksToMediumBand !== null
+    ? `At the current trend, recognition drops to the review band in ~${Math.round(health.weeksToMediumBand)} weeks`
+    : undefined;
+
+  return (
+    <div className="flex items-center gap-2" title={title}>
+      <Badge className={badge.className}>{badge.label}</Badge>
+      {health.medianSimilarity !== null && (
+        <span className="text-xs text-muted-foreground">{Math.round(health.medianSimilarity * 100)}%</span>
+      )}
+    </div>
+  );
+}
 
 
 export default function StudentsPage() {
@@ -49,6 +80,9 @@ export default function StudentsPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [unreadMessages, setUnreadMessages] = useState<Record<string, boolean>>({});
   const [searchTerm, setSearchTerm] = useState('');
+  const [enrolmentHealth, setEnrolmentHealth] = useState<Record<string, EnrolmentHealth>>({});
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
+  const { toast } = useToast();
 
 
   useEffect(() => {
@@ -87,12 +121,33 @@ export default function StudentsPage() {
     });
 
 
+    const healthRef = ref(db, 'enrolmentHealth');
+    const unsubscribeHealth = onValue(healthRef, (snapshot) => {
+      setEnrolmentHealth(snapshot.val() || {});
+    });
+
     return () => {
       unsubscribeChats();
       unsubscribeStudents();
+      unsubscribeHealth();
     };
   }, []);
 
+  const handleCheckHealth = async () => {
+    setIsCheckingHealth(true);
+    const result = await checkEnrolmentHealthAction();
+    setIsCheckingHealth(false);
+
+    if (result.success) {
+      toast({
+        title: 'Enrolment Health Updated',
+        description: `${result.flagged} of ${result.checked} students need to re-register their face.`,
+      });
+    } else {
+      toast({ variant: 'destructive', title: 'Check Failed', description: result.error });
+    }
+  };
+
   const handleRowClick = (studentId: string) => {
     // Mark as read locally immediately for better UX
     setUnreadMessages(prev => ({...prev, [studentId]: false}));
@@ -239,11 +294,17 @@ export default function StudentsPage() {
       </header>
       <main className="flex flex-1 flex-col gap-4 p-4 md:gap-8 md:p-8">
       <Card>
-        <CardHeader>
-            <CardTitle>Students</CardTitle>
-            <CardDescription>
-                Manage your students and view their details. Click a row to see more.
-            </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+                <CardTitle>Students</CardTitle>
+                <CardDescription>
+                    Manage your students and view their details. Click a row to see more.
+                </CardDescription>
+            </div>
+            <Button size="sm" variant="outline" className="h-8 gap-1" onClick={handleCheckHealth} disabled={isCheckingHealth}>
+                {isCheckingHealth ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <HeartPulse className="h-3.5 w-3.5" />}
+                <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">Check Enrolment Health</span>
+            </Button>
         </CardHeader>
         <CardContent>
             <Table>
@@ -254,6 +315,7 @@ export default function StudentsPage() {
                     <TableHead>Grade</TableHead>
                     <TableHead>Bus ID</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Enrolment Health</TableHead>
                     <TableHead>
                     <span className="sr-only">Actions</span>
                     </TableHead>
@@ -263,7 +325,7 @@ export default function StudentsPage() {
                 {isLoading ? (
                   Array.from({ length: 5 }).map((_, i) => (
                     <TableRow key={i}>
-                        <TableCell colSpan={6}>
+                        <TableCell colSpan={7}>
                           <Skeleton className="h-8 w-full" />
                         </TableCell>
                     </TableRow>
@@ -289,6 +351,9 @@ export default function StudentsPage() {
                                   {student.status}
                               </Badge>
                           </TableCell>
+                          <TableCell>
+                              <EnrolmentHealthBadge health={enrolmentHealth[student.studentId]} />
+                          </TableCell>
                           <TableCell>
                               <div className="flex items-center justify-end gap-2">
                                   {unreadMessages[student.studentId] && (
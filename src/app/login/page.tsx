@@ -36,6 +36,8 @@ import {
   getDeviceInfo,
   type StaffSession 
 } from '@/lib/session-manager';
+import { adminLoginAction } from '@/app/actions';
+import { CAMERA_ROLE_LABELS, getBusCameras, type BusCamera } from '@/lib/bus-cameras';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -65,8 +67,9 @@ export default function LoginPage() {
   const [parentCredentials, setParentCredentials] = useState<Record<string, string>>({});
   const [staffCredentials, setStaffCredentials] = useState<Record<string, string>>({});
   const [existingSession, setExistingSession] = useState<StaffSession | null>(null);
-  const [pendingStaffLogin, setPendingStaffLogin] = useState<{ staffId: string; busId: string } | null>(null);
+  const [pendingStaffLogin, setPendingStaffLogin] = useState<{ staffId: string; busId: string; cameraId: string } | null>(null);
   const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
+  const [cameraChoice, setCameraChoice] = useState<{ staffId: string; busId: string; cameras: BusCamera[] } | null>(null);
 
   useEffect(() => {
     const fetchCredentials = async () => {
@@ -106,14 +109,15 @@ export default function LoginPage() {
   }, []);
 
 
-  const handleAdminLogin = () => {
-    if (adminId === 'Admin' && adminPassword === 'pass@123') {
+  const handleAdminLogin = async () => {
+    const result = await adminLoginAction(adminId, adminPassword);
+    if (result.success) {
       router.push('/dashboard');
     } else {
       toast({
         variant: 'destructive',
         title: 'Login Failed',
-        description: 'Invalid admin credentials.',
+        description: result.error || 'Invalid admin credentials.',
       });
     }
   };
@@ -158,17 +162,13 @@ export default function LoginPage() {
       const bus = getBusForStaff(staffId);
       if (bus) {
         console.log("Found bus assignment:", bus.busId);
-        
-        // Check for existing session
-        const existing = await checkExistingSession(staffId, bus.busId);
-        if (existing) {
-          console.log("Found existing session:", existing);
-          setExistingSession(existing);
-          setPendingStaffLogin({ staffId, busId: bus.busId });
-          setShowDuplicateDialog(true);
+
+        // Buses with several cameras: ask which one this device runs
+        const cameras = await getBusCameras(bus.busId);
+        if (cameras.length > 1) {
+          setCameraChoice({ staffId, busId: bus.busId, cameras });
         } else {
-          // No existing session, proceed with login
-          await proceedWithStaffLogin(staffId, bus.busId, true);
+          await continueStaffLogin(staffId, bus.busId, cameras[0].cameraId);
         }
       } else {
          console.log("No bus assignment found for staff member");
@@ -188,14 +188,36 @@ export default function LoginPage() {
     }
   };
 
-  const proceedWithStaffLogin = async (staffId: string, busId: string, isPrimary: boolean) => {
+  const continueStaffLogin = async (staffId: string, busId: string, cameraId: string) => {
+    // Check for existing session on this camera
+    const existing = await checkExistingSession(staffId, busId, cameraId);
+    if (existing) {
+      console.log("Found existing session:", existing);
+      setExistingSession(existing);
+      setPendingStaffLogin({ staffId, busId, cameraId });
+      setShowDuplicateDialog(true);
+    } else {
+      // No existing session, proceed with login
+      await proceedWithStaffLogin(staffId, busId, true, cameraId);
+    }
+  };
+
+  const handleCameraChosen = async (cameraId: string) => {
+    if (!cameraChoice) return;
+    const { staffId, busId } = cameraChoice;
+    setCameraChoice(null);
+    await continueStaffLogin(staffId, busId, cameraId);
+  };
+
+  const proceedWithStaffLogin = async (staffId: string, busId: string, isPrimary: boolean, cameraId: string) => {
     try {
       // Create session
-      const sessionId = await createSession(staffId, busId, isPrimary);
+      const sessionId = await createSession(staffId, busId, isPrimary, cameraId);
       console.log("Session created:", sessionId);
       
       localStorage.setItem('loggedInStaffId', staffId);
       localStorage.setItem('loggedInStaffBusId', busId);
+      localStorage.setItem('staffCameraId', cameraId);
       localStorage.setItem('staffSessionId', sessionId);
       localStorage.setItem('isPrimarySession', isPrimary ? 'true' : 'false');
       
@@ -226,11 +248,13 @@ export default function LoginPage() {
       const newSessionId = await takeOverSession(
         pendingStaffLogin.staffId,
         pendingStaffLogin.busId,
-        existingSession.sessionId
+        existingSession.sessionId,
+        pendingStaffLogin.cameraId
       );
       
       localStorage.setItem('loggedInStaffId', pendingStaffLogin.staffId);
       localStorage.setItem('loggedInStaffBusId', pendingStaffLogin.busId);
+      localStorage.setItem('staffCameraId', pendingStaffLogin.cameraId);
       localStorage.setItem('staffSessionId', newSessionId);
       localStorage.setItem('isPrimarySession', 'true');
       
@@ -254,7 +278,7 @@ export default function LoginPage() {
   const handleReadOnly = async () => {
     if (!pendingStaffLogin) return;
     
-    await proceedWithStaffLogin(pendingStaffLogin.staffId, pendingStaffLogin.busId, false);
+    await proceedWithStaffLogin(pendingStaffLogin.staffId, pendingStaffLogin.busId, false, pendingStaffLogin.cameraId);
     setShowDuplicateDialog(false);
   };
 
@@ -440,6 +464,29 @@ export default function LoginPage() {
           </Link>
         </footer>
 
+      {/* Camera Choice Dialog */}
+      <AlertDialog open={cameraChoice !== null} onOpenChange={(open) => { if (!open) setCameraChoice(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Which Camera Is This Device?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This bus has several cameras. Each one runs on its own device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="grid gap-2">
+            {cameraChoice?.cameras.map(camera => (
+              <Button key={camera.cameraId} variant="outline" className="justify-between" onClick={() => handleCameraChosen(camera.cameraId)}>
+                <span>{camera.label}</span>
+                <span className="text-xs text-muted-foreground">{CAMERA_ROLE_LABELS[camera.role]}</span>
+              </Button>
+            ))}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Duplicate Session Dialog */}
       <AlertDialog open={showDuplicateDialog} onOpenChange={setShowDuplicateDialog}>
         <AlertDialogContent>
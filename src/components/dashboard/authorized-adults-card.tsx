@@ -0,0 +1,236 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { ScrollArea } from '../ui/scroll-area';
+import { BadgeCheck, PlusCircle, Trash2, Users } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue, remove } from 'firebase/database';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+import { FaceRegistration } from './face-registration';
+import type { AuthorizedAdult, Bus } from '@/lib/data';
+
+const ALL_BUSES = 'all';
+
+const adultSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  role: z.enum(['driver', 'attendant', 'guardian']),
+  busId: z.string().min(1, 'Choose a bus or all buses'),
+});
+
+type AdultFormValues = z.infer<typeof adultSchema>;
+
+interface AuthorizedAdultsCardProps {
+    buses: Bus[];
+}
+
+export function AuthorizedAdultsCard({ buses }: AuthorizedAdultsCardProps) {
+    const [adults, setAdults] = useState<AuthorizedAdult[]>([]);
+    const [isOpen, setIsOpen] = useState(false);
+    const [registering, setRegistering] = useState<(AdultFormValues & { adultId: string }) | null>(null);
+    const { toast } = useToast();
+
+    const form = useForm<AdultFormValues>({
+        resolver: zodResolver(adultSchema),
+        defaultValues: { name: '', role: 'attendant', busId: ALL_BUSES },
+    });
+
+    useEffect(() => {
+        const adultsRef = ref(db, 'authorizedAdults');
+        const unsubscribe = onValue(adultsRef, (snapshot) => {
+            const data = snapshot.val() || {};
+            setAdults((Object.values(data) as AuthorizedAdult[])
+                .sort((a, b) => a.name.localeCompare(b.name)));
+        });
+
+        return () => unsubscribe();
+    }, []);
+
+    const busName = (busId: string | null) =>
+        busId ? buses.find(b => b.busId === busId)?.name || busId : 'All buses';
+
+    const onSubmit = (data: AdultFormValues) => {
+        setRegistering({ ...data, adultId: `adult_${Date.now()}` });
+    };
+
+    const handleOpenChange = (open: boolean) => {
+        setIsOpen(open);
+        if (!open) {
+            setRegistering(null);
+            form.reset();
+        }
+    };
+
+    const handleRevoke = async (adult: AuthorizedAdult) => {
+        try {
+            await remove(ref(db, `authorizedAdults/${adult.adultId}`));
+            toast({
+                title: 'Authorization Revoked',
+                description: `${adult.name} will now be treated as an unrecognized person.`,
+            });
+        } catch (error) {
+            console.error('Error revoking authorized adult:', error);
+            toast({
+                variant: 'destructive',
+                title: 'Action Failed',
+                description: 'Could not revoke the authorization.',
+            });
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-start justify-between">
+                <div>
+                    <div className="flex items-center gap-2">
+                        <Users className="h-5 w-5 text-primary" />
+                        <CardTitle>Authorized Adults</CardTitle>
+                    </div>
+                    <CardDescription>
+                        Drivers, attendants and guardians who may be on a bus. They are recognised without raising intruder alerts once an admin approves their registration.
+                    </CardDescription>
+                </div>
+                <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+                    <DialogTrigger asChild>
+                        <Button size="sm" className="h-8 gap-1">
+                            <PlusCircle className="h-3.5 w-3.5" />
+                            <span className="sr-only sm:not-sr-only sm:whitespace-nowrap">Add Adult</span>
+                        </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-[640px]">
+                        <DialogHeader>
+                            <DialogTitle>Register Authorized Adult</DialogTitle>
+                            <DialogDescription>
+                                The registration appears under Face Registration Approvals on the dashboard and takes effect once approved.
+                            </DialogDescription>
+                        </DialogHeader>
+                        <ScrollArea className="max-h-[75vh] p-1">
+                            {registering ? (
+                                <FaceRegistration
+                                    studentId={registering.adultId}
+                                    studentName={registering.name}
+                                    authorizedAdult={{
+                                        role: registering.role,
+                                        busId: registering.busId === ALL_BUSES ? null : registering.busId,
+                                    }}
+                                />
+                            ) : (
+                                <Form {...form}>
+                                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 p-4">
+                                        <FormField
+                                            control={form.control}
+                                            name="name"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Full Name</FormLabel>
+                                                    <FormControl>
+                                                        <Input placeholder="e.g., Rajesh Patel" {...field} />
+                                                    </FormControl>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                        <FormField
+                                            control={form.control}
+                                            name="role"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Role</FormLabel>
+                                                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                                        <FormControl>
+                                                            <SelectTrigger><SelectValue /></SelectTrigger>
+                                                        </FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value="driver">Driver</SelectItem>
+                                                            <SelectItem value="attendant">Attendant</SelectItem>
+                                                            <SelectItem value="guardian">Guardian</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                        <FormField
+                                            control={form.control}
+                                            name="busId"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Authorized On</FormLabel>
+                                                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                                        <FormControl>
+                                                            <SelectTrigger><SelectValue /></SelectTrigger>
+                                                        </FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value={ALL_BUSES}>All buses</SelectItem>
+                                                            {buses.map(bus => (
+                                                                <SelectItem key={bus.busId} value={bus.busId}>{bus.name}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                        <Button type="submit" className="w-full">Continue to Face Capture</Button>
+                                    </form>
+                                </Form>
+                            )}
+                        </ScrollArea>
+                    </DialogContent>
+                </Dialog>
+            </CardHeader>
+            <CardContent>
+                {adults.length > 0 ? (
+                    <div className="space-y-2">
+                        {adults.map(adult => (
+                            <div key={adult.adultId} className="flex items-center justify-between gap-4 p-2 rounded-md border bg-background">
+                                <div className="flex items-center gap-3">
+                                    <BadgeCheck className="h-5 w-5 text-teal-600" />
+                                    <div className="text-sm">
+                                        <p className="font-semibold">{adult.name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            Approved {formatDistanceToNow(new Date(adult.approvedAt), { addSuffix: true })}
+                                        </p>
+                                    </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <Badge variant="secondary" className="capitalize">{adult.role}</Badge>
+                                    <Badge variant="outline">{busName(adult.busId)}</Badge>
+                                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleRevoke(adult)} title="Revoke authorization">
+                                        <Trash2 className="h-4 w-4 text-destructive" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">No authorized adults yet.</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Radio } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue, query, orderByChild, limitToLast } from 'firebase/database';
+import { format, formatDistanceStrict } from 'date-fns';
+import { Badge } from '../ui/badge';
+import {
+    broadcastHealthPath,
+    broadcastUptimePercent,
+    type BroadcastMonitorState,
+    type BroadcastOutage,
+    type BroadcastTripHealth,
+} from '@/ai/flows/broadcast-health';
+
+const MAX_OUTAGES = 10;
+const MAX_TRIPS = 6;
+const LOW_UPTIME_PERCENT = 90;
+
+function uptimeVariant(percent: number | null): 'outline' | 'destructive' {
+    return percent !== null && percent < LOW_UPTIME_PERCENT ? 'destructive' : 'outline';
+}
+
+/**
+ * Feed uptime of the bus's latest monitored trip, for the bus list
+ */
+export function BroadcastUptimeBadge({ busId }: { busId: string }) {
+    const [health, setHealth] = useState<BroadcastTripHealth | null>(null);
+
+    // The monitor names the current trip in the school's time zone, which may not be the browser's
+    useEffect(() => {
+        let unsubscribeTrip: (() => void) | null = null;
+        let tripId: string | null = null;
+        const unsubscribeMonitor = onValue(ref(db, `${broadcastHealthPath(busId)}/monitor`), (snapshot) => {
+            const monitor: BroadcastMonitorState | null = snapshot.val();
+            if ((monitor?.tripId ?? null) === tripId) return;
+            tripId = monitor?.tripId ?? null;
+            unsubscribeTrip?.();
+            unsubscribeTrip = null;
+            setHealth(null);
+            if (tripId) {
+                unsubscribeTrip = onValue(ref(db, `${broadcastHealthPath(busId)}/trips/${tripId}`), (tripSnapshot) => {
+                    setHealth(tripSnapshot.val());
+                });
+            }
+        });
+        return () => {
+            unsubscribeMonitor();
+            unsubscribeTrip?.();
+        };
+    }, [busId]);
+
+    const percent = broadcastUptimePercent(health);
+    return (
+        <Badge variant={uptimeVariant(percent)} title="Camera feed uptime, latest monitored trip">
+            <Radio className="h-3 w-3 mr-1" />
+            {percent !== null ? `${percent}%` : 'n/a'}
+        </Badge>
+    );
+}
+
+/**
+ * Feed uptime of the bus's recent trips and its latest broadcast outages
+ */
+export function BroadcastHealthCard({ busId }: { busId: string }) {
+    const [trips, setTrips] = useState<Array<BroadcastTripHealth & { tripId: string }>>([]);
+    const [outages, setOutages] = useState<Array<BroadcastOutage & { id: string }>>([]);
+
+    useEffect(() => {
+        const unsubscribeTrips = onValue(ref(db, `${broadcastHealthPath(busId)}/trips`), (snapshot) => {
+            const data: Record<string, BroadcastTripHealth> = snapshot.val() || {};
+            setTrips(Object.entries(data)
+                .map(([tripId, trip]) => ({ tripId, ...trip }))
+                .sort((a, b) => b.tripId.localeCompare(a.tripId))
+                .slice(0, MAX_TRIPS));
+        });
+        const recentOutages = query(ref(db, `${broadcastHealthPath(busId)}/outages`), orderByChild('startedAt'), limitToLast(MAX_OUTAGES));
+        const unsubscribeOutages = onValue(recentOutages, (snapshot) => {
+            const data: Record<string, BroadcastOutage> = snapshot.val() || {};
+            setOutages(Object.entries(data)
+                .map(([id, outage]) => ({ id, ...outage }))
+                .sort((a, b) => b.startedAt.localeCompare(a.startedAt)));
+        });
+        return () => {
+            unsubscribeTrips();
+            unsubscribeOutages();
+        };
+    }, [busId]);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <Radio className="h-5 w-5 text-primary" />
+                    <CardTitle>Broadcast Health</CardTitle>
+                </div>
+                <CardDescription>How much of each trip the camera feed was live, and when it went down.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {trips.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                        {trips.map(trip => {
+                            const percent = broadcastUptimePercent(trip);
+                            return (
+                                <Badge key={trip.tripId} variant={uptimeVariant(percent)}>
+                                    {trip.tripId}: {percent !== null ? `${percent}%` : 'n/a'}
+                                    {trip.outageCount > 0 && ` · ${trip.outageCount} outage${trip.outageCount === 1 ? '' : 's'}`}
+                                </Badge>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">Not monitored yet. Feeds are checked during trip hours.</p>
+                )}
+
+                {outages.length > 0 && (
+                    <div className="space-y-2">
+                        {outages.map(outage => (
+                            <div key={outage.id} className="flex items-center justify-between gap-4 p-2 rounded-md border text-sm">
+                                <div>
+                                    <p className="font-medium">
+                                        {format(new Date(outage.startedAt), 'MMM d, HH:mm')}
+                                        {outage.endedAt && ` – ${format(new Date(outage.endedAt), 'HH:mm')}`}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {outage.endedAt
+                                            ? `Down for ${formatDistanceStrict(new Date(outage.endedAt), new Date(outage.startedAt))}${outage.endedBy === 'trip-ended' ? ', until the trip ended' : ''}`
+                                            : `Down for ${formatDistanceStrict(new Date(), new Date(outage.startedAt))}`}
+                                    </p>
+                                </div>
+                                <Badge variant={outage.endedAt ? 'secondary' : 'destructive'}>
+                                    {outage.endedAt ? 'Resolved' : 'Ongoing'}
+                                </Badge>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
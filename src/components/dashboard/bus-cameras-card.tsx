@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Cctv, Trash2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useBusCameras } from '@/hooks/use-bus-cameras';
+import {
+    CAMERA_ROLE_LABELS,
+    DEFAULT_CAMERA_ID,
+    DEFAULT_RECOGNITION_MODES,
+    leadCameraId,
+    removeBusCamera,
+    saveBusCamera,
+    setCameraRecognitionMode,
+    type CameraRecognitionMode,
+    type CameraRole,
+} from '@/lib/bus-cameras';
+
+const MODE_LABELS: Record<CameraRecognitionMode, string> = {
+    'boarding': 'Boarding',
+    'exit': 'Exit',
+    'off': 'Off',
+};
+
+function newCameraId(label: string, existing: string[]): string {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'camera';
+    let cameraId = base;
+    for (let n = 2; existing.includes(cameraId); n++) cameraId = `${base}-${n}`;
+    return cameraId;
+}
+
+/**
+ * Admin list of a bus's cameras: add or remove cameras and set what each
+ * one recognises. Every camera runs on its own staff device.
+ */
+export function BusCamerasCard({ busId }: { busId: string }) {
+    const cameras = useBusCameras(busId);
+    const [label, setLabel] = useState('');
+    const [role, setRole] = useState<CameraRole>('cabin');
+    const [isSaving, setIsSaving] = useState(false);
+    const { toast } = useToast();
+    const leadId = leadCameraId(cameras);
+
+    const handleError = (title: string) => (error: unknown) => {
+        toast({
+            variant: 'destructive',
+            title,
+            description: error instanceof Error ? error.message : 'Unknown error',
+        });
+    };
+
+    const handleAdd = async () => {
+        setIsSaving(true);
+        try {
+            await saveBusCamera(busId, {
+                cameraId: newCameraId(label, cameras.map(camera => camera.cameraId)),
+                role,
+                label: label.trim(),
+                recognitionMode: DEFAULT_RECOGNITION_MODES[role],
+            });
+            setLabel('');
+        } catch (error) {
+            handleError('Camera Not Added')(error);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <Cctv className="h-5 w-5 text-primary" />
+                    <CardTitle>Cameras</CardTitle>
+                </div>
+                <CardDescription>
+                    Each camera runs on its own staff device. The lead camera keeps the headcount and records clips of bus-wide incidents.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Camera</TableHead>
+                            <TableHead>Role</TableHead>
+                            <TableHead>Recognition</TableHead>
+                            <TableHead />
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {cameras.map(camera => (
+                            <TableRow key={camera.cameraId}>
+                                <TableCell className="font-medium">
+                                    {camera.label}
+                                    {camera.cameraId === leadId && cameras.length > 1 && (
+                                        <Badge variant="secondary" className="ml-2">Lead</Badge>
+                                    )}
+                                </TableCell>
+                                <TableCell>{CAMERA_ROLE_LABELS[camera.role]}</TableCell>
+                                <TableCell>
+                                    <Select
+                                        value={camera.recognitionMode}
+                                        onValueChange={(mode) => setCameraRecognitionMode(busId, camera.cameraId, mode as CameraRecognitionMode)
+                                            .catch(handleError('Recognition Mode Not Saved'))}
+                                    >
+                                        <SelectTrigger className="h-8 w-[120px]">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {Object.entries(MODE_LABELS).map(([mode, modeLabel]) => (
+                                                <SelectItem key={mode} value={mode}>{modeLabel}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </TableCell>
+                                <TableCell className="text-right">
+                                    {camera.cameraId !== DEFAULT_CAMERA_ID && (
+                                        <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            onClick={() => removeBusCamera(busId, camera.cameraId).catch(handleError('Camera Not Removed'))}
+                                            title="Remove camera"
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    )}
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                        placeholder="Camera name, e.g. Aisle camera"
+                        value={label}
+                        onChange={(event) => setLabel(event.target.value)}
+                        className="w-[220px]"
+                    />
+                    <Select value={role} onValueChange={(value) => setRole(value as CameraRole)}>
+                        <SelectTrigger className="w-[160px]">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Object.entries(CAMERA_ROLE_LABELS).map(([value, roleLabel]) => (
+                                <SelectItem key={value} value={value}>{roleLabel}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Button onClick={handleAdd} disabled={isSaving || !label.trim()}>
+                        Add Camera
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Clapperboard, ShieldCheck } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue } from 'firebase/database';
+import { formatDistanceToNow } from 'date-fns';
+import { ScrollArea } from '../ui/scroll-area';
+import { Badge } from '../ui/badge';
+import { CLIP_STATUS_LABELS, type BusIncident, type IncidentKind } from '@/lib/incident-clips';
+import { IncidentClipDialog } from './incident-clip-dialog';
+
+const KIND_LABELS: Record<IncidentKind, string> = {
+    'intruder': 'Unrecognized person',
+    'panic': 'Panic button',
+    'harsh-driving': 'Harsh driving',
+};
+
+const MAX_INCIDENTS = 20;
+
+const formatBusId = (busId: string) => busId.replace('_', '-');
+
+/**
+ * Incident view: the latest incidents across all buses, each with the clip
+ * recorded around it once the bus has uploaded it.
+ */
+export function BusIncidentsCard() {
+    const [incidents, setIncidents] = useState<BusIncident[]>([]);
+
+    useEffect(() => {
+        const unsubscribe = onValue(ref(db, 'busIncidents'), (snapshot) => {
+            const data: Record<string, Record<string, Omit<BusIncident, 'id'>>> = snapshot.val() || {};
+            const loaded = Object.values(data)
+                .flatMap(busIncidents => Object.entries(busIncidents).map(([id, incident]) => ({ id, ...incident })))
+                .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+                .slice(0, MAX_INCIDENTS);
+            setIncidents(loaded);
+        });
+        return () => unsubscribe();
+    }, []);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <Clapperboard className="h-5 w-5 text-destructive" />
+                    <CardTitle>Bus Incidents</CardTitle>
+                </div>
+                <CardDescription>Intruders, panic presses and harsh driving, with a clip of the moments around each.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <ScrollArea className="h-[250px] w-full">
+                    {incidents.length > 0 ? (
+                        <div className="space-y-3">
+                            {incidents.map(incident => (
+                                <div key={incident.id} className="flex items-center justify-between gap-4 p-2 rounded-md border">
+                                    <div className="text-sm">
+                                        <p className="font-semibold">{KIND_LABELS[incident.kind]}</p>
+                                        {incident.detail && (
+                                            <p className="text-xs text-muted-foreground">{incident.detail}</p>
+                                        )}
+                                        <p className="text-xs text-muted-foreground">
+                                            {formatDistanceToNow(new Date(incident.timestamp), { addSuffix: true })}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant={incident.kind === 'harsh-driving' ? 'secondary' : 'destructive'}>
+                                            {formatBusId(incident.busId)}
+                                        </Badge>
+                                        {incident.clip ? (
+                                            <IncidentClipDialog
+                                                clip={incident.clip}
+                                                busId={incident.busId}
+                                                incidentId={incident.id}
+                                                title={`${KIND_LABELS[incident.kind]} on ${formatBusId(incident.busId)}`}
+                                            />
+                                        ) : (
+                                            <Badge variant="outline" title={incident.clipError || undefined}>
+                                                {CLIP_STATUS_LABELS[incident.clipStatus]}
+                                            </Badge>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
+                            <ShieldCheck className="h-8 w-8 mb-2" />
+                            <p className="text-sm">No incidents.</p>
+                        </div>
+                    )}
+                </ScrollArea>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { EyeOff, Video } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue, query, orderByChild, limitToLast } from 'firebase/database';
+import { formatDistanceToNow } from 'date-fns';
+import { ScrollArea } from '../ui/scroll-area';
+import { Badge } from '../ui/badge';
+import type { CameraTamperAlert } from '@/hooks/use-camera-tampering';
+import type { CameraUptime, TamperCondition } from '@/lib/camera-tampering';
+import { tripIdFor } from '@/lib/headcount';
+import { DEFAULT_CAMERA_ID } from '@/lib/bus-cameras';
+
+interface TamperAlertEntry extends CameraTamperAlert {
+    id: string;
+}
+
+interface BusCoverage {
+    busId: string;
+    uptime: CameraUptime | null;
+}
+
+const CONDITION_LABELS: Record<TamperCondition, string> = {
+    'darkness': 'Camera dark or covered',
+    'uniform': 'Lens blocked',
+    'frozen': 'Video frozen',
+    'scene-change': 'Camera moved',
+    'no-motion-at-stop': 'No movement at stop',
+};
+
+function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    return minutes < 1 ? `${Math.round(ms / 1000)}s` : `${minutes} min`;
+}
+
+export function CameraTamperAlertsCard() {
+    const [alerts, setAlerts] = useState<TamperAlertEntry[]>([]);
+    const [busIds, setBusIds] = useState<string[]>([]);
+    const [coverage, setCoverage] = useState<Record<string, CameraUptime | null>>({});
+
+    useEffect(() => {
+        const alertsRef = ref(db, 'cameraTamperAlerts');
+        const recentAlertsQuery = query(alertsRef, orderByChild('timestamp'), limitToLast(10));
+
+        const unsubscribe = onValue(recentAlertsQuery, (snapshot) => {
+            const data = snapshot.val();
+            if (data) {
+                const loadedAlerts: TamperAlertEntry[] = Object.keys(data).map(key => ({
+                    id: key,
+                    ...data[key]
+                })).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+                setAlerts(loadedAlerts);
+            } else {
+                setAlerts([]);
+            }
+        });
+
+        return () => unsubscribe();
+    }, []);
+
+    useEffect(() => {
+        const unsubscribe = onValue(ref(db, 'buses'), (snapshot) => {
+            setBusIds(Object.keys(snapshot.val() || {}).sort());
+        });
+        return () => unsubscribe();
+    }, []);
+
+    // Coverage of the current trip for every bus
+    useEffect(() => {
+        const tripId = tripIdFor();
+        const unsubscribes = busIds.map(busId =>
+            onValue(ref(db, `trips/${busId}/${tripId}/cameraUptime`), (snapshot) => {
+                setCoverage(prev => ({ ...prev, [busId]: snapshot.val() }));
+            })
+        );
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    }, [busIds]);
+
+    const busCoverage: BusCoverage[] = busIds.map(busId => ({ busId, uptime: coverage[busId] ?? null }));
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <EyeOff className="h-5 w-5 text-orange-600" />
+                    <CardTitle>Camera Tampering</CardTitle>
+                </div>
+                <CardDescription>Covered, dark, frozen or misaimed bus cameras, and coverage this trip.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {busCoverage.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {busCoverage.map(({ busId, uptime }) => {
+                            const percent = uptime && uptime.monitoredMs > 0
+                                ? Math.round(100 * (uptime.monitoredMs - uptime.tamperedMs) / uptime.monitoredMs)
+                                : null;
+                            return (
+                                <Badge
+                                    key={busId}
+                                    variant={percent !== null && percent < 90 ? "destructive" : "outline"}
+                                    title={uptime ? `Monitored ${formatDuration(uptime.monitoredMs)}, obstructed ${formatDuration(uptime.tamperedMs)}` : 'Camera not monitored this trip'}
+                                >
+                                    <Video className="h-3 w-3 mr-1" />
+                                    {busId.replace('_', '-')}: {percent !== null ? `${percent}%` : 'off'}
+                                </Badge>
+                            );
+                        })}
+                    </div>
+                )}
+                <ScrollArea className="h-[250px] w-full">
+                    {alerts.length > 0 ? (
+                        <div className="space-y-4">
+                            {alerts.map(alert => (
+                                <div key={alert.id} className="p-2 rounded-md border border-orange-300 bg-orange-50 dark:bg-orange-950/20 text-sm">
+                                    <p className="font-semibold text-orange-700 dark:text-orange-300">
+                                        {CONDITION_LABELS[alert.condition] || alert.condition}
+                                    </p>
+                                    <p className="text-muted-foreground">
+                                        {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })} · {alert.resolvedAt && alert.durationMs !== null
+                                            ? `resolved after ${formatDuration(alert.durationMs)}`
+                                            : 'ongoing'}
+                                    </p>
+                                    <Badge variant="outline" className="mt-1">
+                                        {alert.busId.replace('_', '-')}
+                                        {alert.cameraId && alert.cameraId !== DEFAULT_CAMERA_ID && ` · ${alert.cameraId}`}
+                                    </Badge>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
+                            <Video className="h-8 w-8 mb-2" />
+                            <p className="text-sm">No camera tampering detected.</p>
+                        </div>
+                    )}
+                </ScrollArea>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { RefreshCw, Loader2, AlertCircle, CheckCircle2 } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue } from 'firebase/database';
+import { formatDistanceToNow } from 'date-fns';
+import { ScrollArea } from '../ui/scroll-area';
+import { Button } from '../ui/button';
+import { Progress } from '../ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { runEmbeddingMigrationAction } from '@/app/actions';
+import { embeddingMigrationPath, FACE_DESCRIPTOR_MODEL_VERSION } from '@/lib/face-descriptor';
+import type { EmbeddingMigrationState } from '@/ai/flows/embedding-migration';
+
+const MIGRATION_BATCH_SIZE = 5;
+
+export function EmbeddingMigrationCard() {
+    const [state, setState] = useState<EmbeddingMigrationState | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const stopRequestedRef = useRef(false);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        const migrationRef = ref(db, embeddingMigrationPath());
+        const unsubscribe = onValue(migrationRef, (snapshot) => {
+            setState(snapshot.exists() ? snapshot.val() : null);
+        });
+
+        return () => unsubscribe();
+    }, []);
+
+    const runMigration = async (retryFailed: boolean) => {
+        setIsRunning(true);
+        stopRequestedRef.current = false;
+
+        // Each call processes one batch; keep going until nothing is pending
+        while (!stopRequestedRef.current) {
+            const result = await runEmbeddingMigrationAction(MIGRATION_BATCH_SIZE, retryFailed);
+            if (!result.success) {
+                toast({
+                    variant: "destructive",
+                    title: "Migration Failed",
+                    description: result.error || "An unknown error occurred.",
+                });
+                break;
+            }
+            if (!result.state || result.state.pendingCount === 0) {
+                toast({
+                    title: "Re-embedding Complete",
+                    description: result.state?.failedCount
+                        ? `${result.state.failedCount} student(s) could not be re-embedded.`
+                        : "All stored faces use the current recognition model.",
+                });
+                break;
+            }
+            // Failed students are only retried once per click
+            retryFailed = false;
+        }
+
+        setIsRunning(false);
+    };
+
+    // Nothing to show once every student has been migrated
+    if (state?.status === 'completed' && !isRunning) {
+        return null;
+    }
+
+    const failures = Object.values(state?.students || {}).filter(s => s.status === 'failed');
+    const total = state?.totalStudents || 0;
+    const done = total - (state?.pendingCount ?? total);
+    const progress = total > 0 ? Math.round((done / total) * 100) : 0;
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <RefreshCw className={`h-5 w-5 text-primary ${isRunning ? 'animate-spin' : ''}`} />
+                    <CardTitle>Face Re-embedding</CardTitle>
+                </div>
+                <CardDescription>
+                    Regenerate stored face embeddings from approved photos for model <span className="font-mono">{FACE_DESCRIPTOR_MODEL_VERSION}</span>.
+                    Students not yet migrated are still recognised with their old embeddings.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {state ? (
+                    <div className="space-y-2">
+                        <Progress value={progress} />
+                        <div className="flex justify-between text-xs text-muted-foreground">
+                            <span>{state.migratedCount || 0} migrated · {state.failedCount || 0} failed · {state.pendingCount ?? 0} pending</span>
+                            <span>Updated {formatDistanceToNow(new Date(state.updatedAt), { addSuffix: true })}</span>
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">The migration has not been run yet.</p>
+                )}
+
+                {failures.length > 0 && (
+                    <ScrollArea className="h-[150px] w-full">
+                        <div className="space-y-2">
+                            {failures.map(failure => (
+                                <div key={failure.studentId} className="p-2 rounded-md border border-red-300 bg-red-50 dark:bg-red-950/20 text-xs">
+                                    <p className="font-semibold">{failure.studentName} <span className="text-muted-foreground font-normal">({failure.attempts} attempt{failure.attempts === 1 ? '' : 's'})</span></p>
+                                    <p className="text-red-600 dark:text-red-400 flex items-center gap-1">
+                                        <AlertCircle className="h-3 w-3" />
+                                        {failure.error || 'Unknown error'}
+                                    </p>
+                                </div>
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+
+                <div className="flex gap-2">
+                    {isRunning ? (
+                        <Button size="sm" variant="outline" onClick={() => { stopRequestedRef.current = true; }}>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Pause after this batch
+                        </Button>
+                    ) : (
+                        <>
+                            <Button size="sm" onClick={() => runMigration(false)}>
+                                {state?.status === 'running' ? 'Resume' : 'Start'} Re-embedding
+                            </Button>
+                            {failures.length > 0 && (
+                                <Button size="sm" variant="outline" onClick={() => runMigration(true)}>
+                                    Retry Failed
+                                </Button>
+                            )}
+                        </>
+                    )}
+                    {state?.status === 'completed_with_failures' && !isRunning && (
+                        <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+                            <CheckCircle2 className="h-3 w-3" />
+                            Remaining students need new photos
+                        </span>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
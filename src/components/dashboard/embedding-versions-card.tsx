@@ -0,0 +1,138 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { BrainCircuit, History, Loader2, RotateCcw } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue } from 'firebase/database';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { revertEmbeddingVersionAction } from '@/app/actions';
+import { LEARNED_EMBEDDING_ANGLE, type EmbeddingVersion, type StudentLearningResult } from '@/ai/flows/adaptive-learning';
+
+interface EmbeddingVersionsCardProps {
+    studentId: string;
+}
+
+const STATUS_VARIANTS: Record<StudentLearningResult['status'], "default" | "secondary" | "destructive" | "outline"> = {
+    accepted: 'default',
+    rejected: 'secondary',
+    skipped: 'outline',
+    failed: 'destructive',
+};
+
+export function EmbeddingVersionsCard({ studentId }: EmbeddingVersionsCardProps) {
+    const [versions, setVersions] = useState<EmbeddingVersion[]>([]);
+    const [lastRun, setLastRun] = useState<StudentLearningResult | null>(null);
+    const [current, setCurrent] = useState<{ total: number; learned: number } | null>(null);
+    const [revertingId, setRevertingId] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        const unsubscribeVersions = onValue(ref(db, `faceEmbeddingVersions/${studentId}`), (snapshot) => {
+            const data = snapshot.val() || {};
+            setVersions((Object.values(data) as EmbeddingVersion[])
+                .sort((a, b) => b.versionId.localeCompare(a.versionId)));
+        });
+        const unsubscribeRun = onValue(ref(db, `adaptiveLearning/students/${studentId}`), (snapshot) => {
+            setLastRun(snapshot.val());
+        });
+        const unsubscribeCurrent = onValue(ref(db, `faceEmbeddings/${studentId}/embeddings`), (snapshot) => {
+            const embeddings: any[] = snapshot.val() || [];
+            setCurrent(snapshot.exists() ? {
+                total: embeddings.length,
+                learned: embeddings.filter(emb => emb?.angle === LEARNED_EMBEDDING_ANGLE).length,
+            } : null);
+        });
+
+        return () => {
+            unsubscribeVersions();
+            unsubscribeRun();
+            unsubscribeCurrent();
+        };
+    }, [studentId]);
+
+    const handleRevert = async (version: EmbeddingVersion) => {
+        setRevertingId(version.versionId);
+        const result = await revertEmbeddingVersionAction(studentId, version.versionId);
+        setRevertingId(null);
+
+        if (result.success) {
+            toast({
+                title: 'Embeddings Reverted',
+                description: `Restored the face data from ${format(new Date(version.createdAt), 'PPp')}.`,
+            });
+        } else {
+            toast({
+                variant: 'destructive',
+                title: 'Revert Failed',
+                description: result.error || 'An unknown error occurred.',
+            });
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2"><BrainCircuit className="h-5 w-5 text-primary"/>Face Recognition Learning</CardTitle>
+                <CardDescription>
+                    Learned embeddings are added nightly from confident recognitions. Every change keeps the previous version so it can be reverted.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="text-sm space-y-1">
+                    <div>
+                        <strong>Current set:</strong>{' '}
+                        {current ? `${current.total} embeddings (${current.learned} learned)` : 'No face registered'}
+                    </div>
+                    {lastRun && (
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <strong>Last run:</strong>
+                            <Badge variant={STATUS_VARIANTS[lastRun.status]} className="capitalize">{lastRun.status}</Badge>
+                            <span className="text-muted-foreground">
+                                {formatDistanceToNow(new Date(lastRun.updatedAt), { addSuffix: true })}
+                                {lastRun.reason && ` · ${lastRun.reason}`}
+                            </span>
+                        </div>
+                    )}
+                    {lastRun?.heldOutBefore !== undefined && lastRun.heldOutAfter !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                            Held-out similarity {(lastRun.heldOutBefore * 100).toFixed(1)}% → {(lastRun.heldOutAfter * 100).toFixed(1)}%
+                            {' '}({lastRun.trainingSamples} training / {lastRun.heldOutSamples} held-out samples)
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-sm font-semibold flex items-center gap-2"><History className="h-4 w-4" />Previous Versions</p>
+                    {versions.length > 0 ? versions.map(version => (
+                        <div key={version.versionId} className="flex items-center justify-between gap-4 p-2 rounded-md border bg-background text-sm">
+                            <div>
+                                <p>{format(new Date(version.createdAt), 'PPp')}</p>
+                                <p className="text-xs text-muted-foreground">
+                                    {version.embeddingCount} embeddings ({version.learnedCount} learned) · saved before {version.reason === 'revert' ? 'a revert' : 'a learning update'}
+                                </p>
+                            </div>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRevert(version)}
+                                disabled={revertingId !== null}
+                            >
+                                {revertingId === version.versionId ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <><RotateCcw className="h-4 w-4 mr-2" />Revert</>
+                                )}
+                            </Button>
+                        </div>
+                    )) : (
+                        <p className="text-sm text-muted-foreground">No learning updates yet.</p>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
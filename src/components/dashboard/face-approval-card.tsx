@@ -3,7 +3,7 @@
 
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
-import { UserCheck, EyeOff, Loader2, AlertCircle, Clock, CheckCircle2, XCircle } from "lucide-react";
+import { UserCheck, EyeOff, Loader2, AlertCircle, Clock, CheckCircle2, XCircle, Copy } from "lucide-react";
 import { db } from '@/lib/firebase';
 import { ref, onValue } from 'firebase/database';
 import Image from 'next/image';
@@ -12,6 +12,9 @@ import { ScrollArea } from '../ui/scroll-area';
 import { Button } from '../ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { reviewFaceRegistrationAction } from '@/app/actions';
+import type { AuthorizedAdultRole } from '@/lib/data';
+import type { DuplicateFaceCheck } from '@/ai/flows/duplicate-face-check';
+import type { CaptureQuality } from '@/lib/capture-quality';
 
 interface PendingRegistration {
     id: string; // The unique key from Firebase push
@@ -23,6 +26,11 @@ interface PendingRegistration {
     embeddingCount?: number;
     processingCompleted?: string;
     error?: string;
+    subjectType?: 'student' | 'authorizedAdult';
+    role?: AuthorizedAdultRole;
+    busId?: string | null;
+    duplicateCheck?: DuplicateFaceCheck;
+    photoQuality?: CaptureQuality[]; // Per-photo capture quality, same order as photos
 }
 
 export function FaceApprovalCard() {
@@ -52,10 +60,10 @@ export function FaceApprovalCard() {
         return () => unsubscribe();
     }, []);
 
-    const handleReview = async (registration: PendingRegistration, isApproved: boolean) => {
+    const handleReview = async (registration: PendingRegistration, isApproved: boolean, overrideDuplicates = false) => {
         const { id, studentId, studentName, photos } = registration;
         setIsLoading(prev => ({ ...prev, [id]: true }));
-        const result = await reviewFaceRegistrationAction(id, studentId, studentName, photos, isApproved);
+        const result = await reviewFaceRegistrationAction(id, studentId, studentName, photos, isApproved, overrideDuplicates);
         setIsLoading(prev => ({ ...prev, [id]: false }));
 
         if (result.success) {
@@ -63,6 +71,12 @@ export function FaceApprovalCard() {
                 title: `Registration ${isApproved ? 'Approved' : 'Rejected'}`,
                 description: `The face registration for ${studentName} has been processed.`,
             });
+        } else if (result.conflicts && result.conflicts.length > 0) {
+            toast({
+                variant: "destructive",
+                title: "Possible Duplicate Face",
+                description: result.error,
+            });
         } else {
              toast({
                 variant: "destructive",
@@ -97,13 +111,16 @@ export function FaceApprovalCard() {
                             const isProcessing = status === 'processing';
                             const isFailed = status === 'failed';
                             const isPending = status === 'pending';
+                            const conflicts = reg.duplicateCheck?.conflicts || [];
+                            const hasConflicts = conflicts.length > 0;
                             
                             return (
-                                <div key={reg.id} className={`flex items-center justify-between gap-4 p-2 rounded-md border bg-background ${
-                                    isFailed ? 'border-red-300 bg-red-50 dark:bg-red-950/20' : 
+                                <div key={reg.id} className={`p-2 rounded-md border bg-background ${
+                                    isFailed || hasConflicts ? 'border-red-300 bg-red-50 dark:bg-red-950/20' : 
                                     isProcessing ? 'border-yellow-300 bg-yellow-50 dark:bg-yellow-950/20' : 
                                     'border-green-300 bg-green-50 dark:bg-green-950/20'
                                 }`}>
+                                <div className="flex items-center justify-between gap-4">
                                     <div className="flex items-center gap-4 flex-1">
                                         <div className="relative">
                                             <Image
@@ -141,9 +158,31 @@ export function FaceApprovalCard() {
                                                     </span>
                                                 )}
                                             </div>
+                                            {reg.subjectType === 'authorizedAdult' && (
+                                                <p className="text-xs font-medium text-teal-700 dark:text-teal-400 capitalize">
+                                                    Authorized {reg.role} · {reg.busId ? reg.busId.replace('_', '-') : 'all buses'}
+                                                </p>
+                                            )}
                                             <p className="text-muted-foreground text-xs">
                                                 Submitted {formatDistanceToNow(new Date(reg.timestamp), { addSuffix: true })}
                                             </p>
+                                            {reg.photoQuality && reg.photoQuality.length > 0 && (
+                                                <div className="flex flex-wrap gap-1 mt-1">
+                                                    {reg.photoQuality.map((quality, index) => (
+                                                        <span
+                                                            key={index}
+                                                            title={quality.issues.length > 0 ? quality.issues.join(', ') : 'Met all capture targets'}
+                                                            className={`text-[10px] px-1.5 py-0.5 rounded capitalize ${
+                                                                quality.meetsTarget
+                                                                    ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+                                                                    : 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300'
+                                                            }`}
+                                                        >
+                                                            {quality.step} {Math.round(quality.score * 100)}%
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
                                             {isFailed && (
                                                 <p className="text-red-600 dark:text-red-400 text-xs mt-1 flex items-center gap-1">
                                                     <AlertCircle className="h-3 w-3" />
@@ -166,7 +205,7 @@ export function FaceApprovalCard() {
                                         >
                                             {isFailed ? 'Delete' : 'Reject'}
                                         </Button>
-                                        {!isFailed && (
+                                        {!isFailed && !hasConflicts && (
                                             <Button 
                                                 size="sm"
                                                 className="bg-green-600 hover:bg-green-700"
@@ -176,6 +215,17 @@ export function FaceApprovalCard() {
                                                 {isLoading[reg.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Approve'}
                                             </Button>
                                         )}
+                                        {!isFailed && hasConflicts && (
+                                            <Button 
+                                                size="sm"
+                                                variant="destructive"
+                                                onClick={() => handleReview(reg, true, true)}
+                                                disabled={isLoading[reg.id] || isProcessing}
+                                                title="Approve even though this face matches an enrolled student"
+                                            >
+                                                {isLoading[reg.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Override & Approve'}
+                                            </Button>
+                                        )}
                                         {isFailed && (
                                             <Button 
                                                 size="sm"
@@ -193,6 +243,47 @@ export function FaceApprovalCard() {
                                         )}
                                     </div>
                                 </div>
+                                {hasConflicts && (
+                                    <div className="mt-2 space-y-2 border-t border-red-200 pt-2">
+                                        <p className="text-red-600 dark:text-red-400 text-xs font-medium flex items-center gap-1">
+                                            <Copy className="h-3 w-3" />
+                                            This face is already enrolled under another student
+                                        </p>
+                                        {conflicts.map(conflict => (
+                                            <div key={conflict.studentId} className="flex items-center gap-3 text-xs">
+                                                <div className="text-center">
+                                                    <Image
+                                                        src={reg.photos[conflict.pendingIndex] || reg.photos[0]}
+                                                        alt={`New photo of ${reg.studentName}`}
+                                                        width={56}
+                                                        height={56}
+                                                        className="rounded-md object-cover aspect-square"
+                                                    />
+                                                    <p className="mt-1 truncate max-w-[56px]">{reg.studentName}</p>
+                                                </div>
+                                                <div className="text-center">
+                                                    {conflict.storedPhotoUrl ? (
+                                                        <Image
+                                                            src={conflict.storedPhotoUrl}
+                                                            alt={`Enrolled photo of ${conflict.studentName}`}
+                                                            width={56}
+                                                            height={56}
+                                                            className="rounded-md object-cover aspect-square"
+                                                        />
+                                                    ) : (
+                                                        <div className="h-14 w-14 rounded-md bg-muted flex items-center justify-center text-muted-foreground">?</div>
+                                                    )}
+                                                    <p className="mt-1 truncate max-w-[56px]">{conflict.studentName}</p>
+                                                </div>
+                                                <div>
+                                                    <p className="font-semibold">{Math.round(conflict.similarity * 100)}% similar</p>
+                                                    <p className="text-muted-foreground">Enrolled as {conflict.studentName} ({conflict.studentId})</p>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                </div>
                             );
                         })}
                     </div>
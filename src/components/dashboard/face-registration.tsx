@@ -9,23 +9,41 @@ import { Camera, AlertTriangle, ArrowRight, ArrowLeft, ArrowUp, ArrowDown, Check
 import { Progress } from '@/components/ui/progress';
 import { db } from '@/lib/firebase';
 import { ref as dbRef, set, push } from 'firebase/database';
-import { generateFaceEmbeddingAction } from '@/app/actions';
-
-const prompts = [
-  { text: 'Please look directly at the camera.', icon: null, progress: 0 },
-  { text: 'Slowly turn your head to the right.', icon: ArrowRight, progress: 20 },
-  { text: 'Slowly turn your head to the left.', icon: ArrowLeft, progress: 40 },
-  { text: 'Slowly tilt your head up.', icon: ArrowUp, progress: 60 },
-  { text: 'Slowly tilt your head down.', icon: ArrowDown, progress: 80 },
+import { generateFaceEmbeddingAction, checkDuplicateFacesAction } from '@/app/actions';
+import { detectFacesClient, extractFaceCrop } from '@/lib/face-detection-client';
+import {
+  assessCaptureQuality,
+  updateCaptureBaseline,
+  type CaptureBaseline,
+  type CaptureQuality,
+  type CaptureStep,
+  type FaceMeasurement,
+} from '@/lib/capture-quality';
+import type { AuthorizedAdultRole } from '@/lib/data';
+
+const prompts: { text: string; icon: typeof ArrowRight | null; progress: number; step?: CaptureStep }[] = [
+  { text: 'Please look directly at the camera.', icon: null, progress: 0, step: 'front' },
+  { text: 'Slowly turn your head to the right.', icon: ArrowRight, progress: 20, step: 'right' },
+  { text: 'Slowly turn your head to the left.', icon: ArrowLeft, progress: 40, step: 'left' },
+  { text: 'Slowly tilt your head up.', icon: ArrowUp, progress: 60, step: 'up' },
+  { text: 'Slowly tilt your head down.', icon: ArrowDown, progress: 80, step: 'down' },
   { text: 'Great! All done.', icon: CheckCircle, progress: 100 },
 ];
 
+const QUALITY_CHECK_INTERVAL_MS = 300;
+const QUALITY_STREAK_REQUIRED = 3;  // Consecutive good checks before auto-capture
+const PROMPT_TIMEOUT_MS = 15000;    // Then take the best single-face frame seen so far
+
 interface FaceRegistrationProps {
-    studentId: string;
+    studentId: string;   // The adult's id when registering an authorized adult
     studentName: string;
+    authorizedAdult?: { role: AuthorizedAdultRole; busId: string | null };
 }
 
-export function FaceRegistration({ studentId, studentName }: FaceRegistrationProps) {
+export function FaceRegistration({ studentId, studentName, authorizedAdult }: FaceRegistrationProps) {
+  // Primitives, so callers don't need to memoize the authorizedAdult object
+  const adultRole = authorizedAdult?.role;
+  const adultBusId = authorizedAdult?.busId ?? null;
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const speechSynthesisRef = useRef<SpeechSynthesisUtterance | null>(null);
@@ -37,6 +55,10 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
   const [isSpeaking, setIsSpeaking] = useState(false);
   const { toast } = useToast();
   const capturedImagesRef = useRef<string[]>([]);
+  const capturedQualityRef = useRef<CaptureQuality[]>([]);
+  const captureBaselineRef = useRef<CaptureBaseline>({});
+  const [liveQuality, setLiveQuality] = useState<CaptureQuality | null>(null);
+  const [promptTimedOut, setPromptTimedOut] = useState(false);
   const isComponentMounted = useRef(true);
 
   const cleanupCamera = useCallback(() => {
@@ -153,14 +175,19 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
     // Store photos immediately and show success
     const pendingFacesRef = dbRef(db, `pendingFaceRegistrations`);
     const newPendingRef = push(pendingFacesRef);
+    const subjectFields = adultRole
+        ? { subjectType: 'authorizedAdult', role: adultRole, busId: adultBusId }
+        : { subjectType: 'student' };
     
     try {
         // Save with processing status first
         await set(newPendingRef, {
             studentId,
             studentName,
+            ...subjectFields,
             status: 'processing',
             photos: capturedImagesRef.current,
+            photoQuality: capturedQualityRef.current,
             embeddings: [],
             timestamp: new Date().toISOString(),
             embeddingCount: 0
@@ -180,11 +207,13 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
 
         // Capture photos in a local variable BEFORE clearing the ref
         const capturedPhotos = [...capturedImagesRef.current];
+        const capturedQuality = [...capturedQualityRef.current];
 
         if(isComponentMounted.current) {
             setIsSubmitting(false);
             setCurrentPromptIndex(0);
             capturedImagesRef.current = [];
+            capturedQualityRef.current = [];
         }
 
         // Process embeddings in the background (non-blocking)
@@ -201,6 +230,7 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
                     photoDataUri,
                     embedding: result.embedding,
                     uid: result.uid,
+                    modelVersion: result.modelVersion,
                     success: result.success,
                     error: result.error,
                     index
@@ -220,12 +250,15 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
                 await set(newPendingRef, {
                     studentId,
                     studentName,
+                    ...subjectFields,
                     status: successfulEmbeddings.length > 0 ? 'pending' : 'failed',
                     photos: capturedPhotos,
+                    photoQuality: capturedQuality,
                     embeddings: successfulEmbeddings.map(result => ({
                       photoDataUri: result.photoDataUri,
                       embedding: result.embedding,
-                      uid: result.uid
+                      uid: result.uid,
+                      modelVersion: result.modelVersion
                     })),
                     timestamp: new Date().toISOString(),
                     embeddingCount: successfulEmbeddings.length,
@@ -235,6 +268,14 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
                 });
 
                 console.log('✅ Background processing complete, registration updated');
+
+                // Flag the registration if this face is already enrolled under someone else
+                if (successfulEmbeddings.length > 0 && newPendingRef.key) {
+                    const duplicateResult = await checkDuplicateFacesAction(newPendingRef.key);
+                    if (!duplicateResult.success) {
+                        console.error('❌ Duplicate-face check failed:', duplicateResult.error);
+                    }
+                }
                 
                 // Notify user of completion
                 showNotification(
@@ -248,8 +289,10 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
                 await set(newPendingRef, {
                     studentId,
                     studentName,
+                    ...subjectFields,
                     status: 'failed',
                     photos: capturedPhotos,
+                    photoQuality: capturedQuality,
                     embeddings: [],
                     timestamp: new Date().toISOString(),
                     embeddingCount: 0,
@@ -266,69 +309,156 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
             setIsSubmitting(false);
             setCurrentPromptIndex(0);
             capturedImagesRef.current = [];
+            capturedQualityRef.current = [];
         }
     }
-  }, [cleanupCamera, studentId, studentName, toast]);
+  }, [cleanupCamera, studentId, studentName, adultRole, adultBusId, toast]);
 
-  const captureImage = useCallback(() => {
-      if (videoRef.current && videoRef.current.readyState >= 3 && videoRef.current.videoWidth > 0) {
-          const canvas = document.createElement('canvas');
-          const video = videoRef.current;
-          
-          // Optimize image size for upload
-          const maxWidth = 640;
-          const maxHeight = 480;
-          const scale = Math.min(maxWidth / video.videoWidth, maxHeight / video.videoHeight, 1);
-          
-          canvas.width = video.videoWidth * scale;
-          canvas.height = video.videoHeight * scale;
-          
-          const context = canvas.getContext('2d');
-          if (context) {
-              context.drawImage(video, 0, 0, canvas.width, canvas.height);
-              const dataUrl = canvas.toDataURL('image/jpeg', 0.5); // Reduced quality to 50%
-              capturedImagesRef.current.push(dataUrl);
-              
-              // Trigger haptic feedback on capture
-              triggerHaptic('light');
-          }
-      }
+  /**
+   * Grab the current video frame and score it against the prompt's targets
+   */
+  const analyzeFrame = useCallback(async (step: CaptureStep) => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 3 || video.videoWidth === 0) return null;
+
+      const canvas = document.createElement('canvas');
+      
+      // Optimize image size for upload
+      const maxWidth = 640;
+      const maxHeight = 480;
+      const scale = Math.min(maxWidth / video.videoWidth, maxHeight / video.videoHeight, 1);
+      
+      canvas.width = video.videoWidth * scale;
+      canvas.height = video.videoHeight * scale;
+      
+      const context = canvas.getContext('2d', { willReadFrequently: true });
+      if (!context) return null;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const predictions = await detectFacesClient(canvas, false);
+      const faces: FaceMeasurement[] = predictions
+          .filter(prediction => prediction.topLeft && prediction.bottomRight)
+          .map(prediction => {
+              const [x1, y1] = prediction.topLeft as number[];
+              const [x2, y2] = prediction.bottomRight as number[];
+              const box = { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+              return {
+                  box,
+                  landmarks: Array.isArray(prediction.landmarks) ? prediction.landmarks as number[][] : null,
+                  faceCrop: extractFaceCrop(canvas, box),
+              };
+          });
+
+      return { canvas, quality: assessCaptureQuality(step, faces, canvas.width, captureBaselineRef.current) };
+  }, []);
+
+  const acceptCapture = useCallback((dataUrl: string, quality: CaptureQuality) => {
+      capturedImagesRef.current.push(dataUrl);
+      capturedQualityRef.current.push(quality);
+      captureBaselineRef.current = updateCaptureBaseline(captureBaselineRef.current, quality);
+      console.log(`📸 Captured ${quality.step} photo (quality ${(quality.score * 100).toFixed(0)}%${quality.meetsTarget ? '' : ', best available'})`);
+  }, []);
+
+  const advancePrompt = useCallback(() => {
+      playSound();
+      triggerHaptic('medium');
+      setLiveQuality(null);
+      setPromptTimedOut(false);
+      setCurrentPromptIndex(prev => prev + 1);
   }, []);
     
   useEffect(() => {
-    let interval: NodeJS.Timeout | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    let cancelled = false;
     
     if (isRegistering) {
         // Speak the current prompt
         speak(prompts[currentPromptIndex].text);
+        const step = prompts[currentPromptIndex].step;
         
-        if (currentPromptIndex < prompts.length - 1) {
-            interval = setInterval(() => {
-                if(isComponentMounted.current) {
-                    captureImage();
-                    playSound();
-                    triggerHaptic('medium');
-                    setCurrentPromptIndex(prev => prev + 1);
+        if (step) {
+            setPromptTimedOut(false);
+
+            // Auto-capture once the pose and quality targets hold for a few checks
+            const startedAt = Date.now();
+            let streak = 0;
+            let best: { dataUrl: string; quality: CaptureQuality } | null = null;
+
+            const check = async () => {
+                if (cancelled || !isComponentMounted.current) return;
+                try {
+                    const frame = await analyzeFrame(step);
+                    if (cancelled) return;
+
+                    if (frame) {
+                        setLiveQuality(frame.quality);
+                        streak = frame.quality.meetsTarget ? streak + 1 : 0;
+
+                        if (frame.quality.faceCount === 1 && (!best || frame.quality.score > best.quality.score)) {
+                            best = { dataUrl: frame.canvas.toDataURL('image/jpeg', 0.5), quality: frame.quality };
+                        }
+
+                        const accepted = streak >= QUALITY_STREAK_REQUIRED
+                            ? { dataUrl: frame.canvas.toDataURL('image/jpeg', 0.5), quality: frame.quality }
+                            : Date.now() - startedAt > PROMPT_TIMEOUT_MS ? best : null;
+
+                        if (accepted) {
+                            acceptCapture(accepted.dataUrl, accepted.quality);
+                            advancePrompt();
+                            return;
+                        }
+                    }
+                } catch (error) {
+                    // A model or canvas error on one frame should not stall the wizard
+                    console.error('Failed to analyse registration frame:', error);
                 }
-            }, 3000); 
+                if (cancelled) return;
+
+                // No usable frame yet: explain and offer a manual capture, but keep trying
+                if (Date.now() - startedAt > PROMPT_TIMEOUT_MS) setPromptTimedOut(true);
+                timer = setTimeout(check, QUALITY_CHECK_INTERVAL_MS);
+            };
+
+            // Give the user a moment to hear the prompt before judging the pose
+            timer = setTimeout(check, 1000);
         } else {
-            captureImage();
-            setTimeout(finishRegistration, 1000);
+            timer = setTimeout(finishRegistration, 1000);
         }
     }
 
     return () => {
-      if (interval) {
-        clearInterval(interval);
+      cancelled = true;
+      if (timer) {
+        clearTimeout(timer);
       }
     };
-  }, [isRegistering, currentPromptIndex, finishRegistration, captureImage]);
+  }, [isRegistering, currentPromptIndex, finishRegistration, analyzeFrame, acceptCapture, advancePrompt]);
+
+  /**
+   * Take the current frame as-is when auto-capture cannot find a usable face
+   */
+  const captureManually = async () => {
+      const step = prompts[currentPromptIndex].step;
+      if (!step) return;
+      try {
+          const frame = await analyzeFrame(step);
+          if (!frame) return;
+          acceptCapture(frame.canvas.toDataURL('image/jpeg', 0.5), frame.quality);
+          advancePrompt();
+      } catch (error) {
+          console.error('Failed to capture registration photo manually:', error);
+          toast({ variant: 'destructive', title: "Capture Failed", description: "Could not capture a photo. Please try again." });
+      }
+  };
 
   const startRegistration = async () => {
     if (isRegistering || isSubmitting) return;
 
     setCurrentPromptIndex(0);
     capturedImagesRef.current = [];
+    capturedQualityRef.current = [];
+    captureBaselineRef.current = {};
+    setLiveQuality(null);
     setHasCameraPermission(null);
 
     // Request notification permission upfront
@@ -404,7 +534,9 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
           <div>
             <CardTitle className="text-2xl">AI Face Registration</CardTitle>
             <CardDescription className="text-base mt-1">
-              Register your child's face for automated, AI-powered attendance tracking
+              {adultRole
+                ? `Register ${studentName} as an authorized ${adultRole} so they don't trigger intruder alerts`
+                : "Register your child's face for automated, AI-powered attendance tracking"}
             </CardDescription>
           </div>
         </div>
@@ -444,7 +576,7 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
                 <li>• Position your face in the center of the camera frame</li>
                 <li>• Follow the on-screen instructions to capture multiple angles</li>
                 <li>• Keep your face well-lit and clearly visible</li>
-                <li>• The process takes about 15 seconds</li>
+                <li>• Each photo is taken automatically once your pose is clear and sharp</li>
                 {voiceEnabled && (
                   <li className="text-cyan-600 dark:text-cyan-400 font-medium">• Voice guidance will help you through each step</li>
                 )}
@@ -543,6 +675,28 @@ export function FaceRegistration({ studentId, studentName }: FaceRegistrationPro
                     </div>
                   </div>
                   <Progress value={currentPrompt.progress} className="h-3" />
+                  {currentPrompt.step && (
+                    <p className={`mt-3 text-sm font-medium ${
+                      liveQuality?.meetsTarget ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'
+                    }`}>
+                      {!liveQuality
+                        ? 'Checking the camera...'
+                        : liveQuality.meetsTarget
+                          ? 'Perfect - hold still...'
+                          : liveQuality.issues[0]}
+                      {liveQuality && liveQuality.faceCount === 1 && (
+                        <span className="ml-2 text-muted-foreground">Quality {Math.round(liveQuality.score * 100)}%</span>
+                      )}
+                    </p>
+                  )}
+                  {currentPrompt.step && promptTimedOut && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                      <span>No clear photo yet. Keep your whole face in the frame, in good light, or take this photo now.</span>
+                      <Button size="sm" variant="outline" onClick={captureManually}>
+                        Capture Photo
+                      </Button>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="flex items-center justify-center">
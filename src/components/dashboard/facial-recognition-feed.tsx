@@ -2,28 +2,63 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Camera, AlertTriangle } from 'lucide-react';
+import { Camera, AlertTriangle, LogIn, LogOut, Cpu, Users, EyeOff, Siren, Clapperboard } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { MapPin } from 'lucide-react';
-import type { StudentJson as StudentType } from '@/lib/data';
+import type { StudentJson as StudentType, AuthorizedAdult, AuthorizedAdultRole } from '@/lib/data';
 import { Badge } from '@/components/ui/badge';
 import { db } from '@/lib/firebase';
-import { ref as dbRef, push, set, query, orderByChild, equalTo, limitToLast, get, update, endBefore } from 'firebase/database';
+import { ref as dbRef, push, set, query, orderByChild, equalTo, limitToLast, get, update, endBefore, onValue } from 'firebase/database';
 import { format } from 'date-fns';
-import * as tf from '@tensorflow/tfjs';
 import { 
-  detectFacesClient, 
+  explainMatch,
   extractFaceCrop, 
-  generateFaceEmbeddingClient,
-  matchFace,
-  generateStableFaceId,
+  parseStoredFaceEmbedding,
+  type CandidateMatch,
   type StoredFaceEmbedding 
 } from '@/lib/face-detection-client';
+import {
+  createTrackerState,
+  updateTracks,
+  hasPendingTracks,
+  type TrackState,
+} from '@/lib/face-tracker';
+import {
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  isCurrentModelVersion,
+  isValidStoredEmbedding,
+} from '@/lib/face-descriptor';
+import { notifyStudentExited } from '@/lib/notification-manager';
+import { clusterIntruderAlertsAction, matchFaceDescriptorAction, retainOriginalSnapshotAction } from '@/app/actions';
+import type { RestrictedSnapshotMeta, RestrictedSnapshotRef } from '@/ai/flows/restricted-snapshots';
+import { recordMatchDecision, type MatchDecisionKind } from '@/lib/match-audit';
+import { createEventSnapshot, type EventSnapshot } from '@/lib/snapshot-redaction';
+import { analyzeFrame, enhanceContrast } from '@/lib/frame-recognition';
+import { useOnDeviceRecognition } from '@/hooks/use-on-device-recognition';
+import { useHeadcount, type HeadcountDiscrepancyLog } from '@/hooks/use-headcount';
+import { isEntryInTrip, tripIdFor } from '@/lib/headcount';
+import { useCameraTampering } from '@/hooks/use-camera-tampering';
+import { useRecognitionPolicy } from '@/hooks/use-recognition-policy';
+import { useIncidentClips } from '@/hooks/use-incident-clips';
+import { startLiveVideo } from '@/lib/live-stream-manager';
+import { useBusCameras } from '@/hooks/use-bus-cameras';
+import {
+  CAMERA_ROLE_LABELS,
+  DEFAULT_CAMERA,
+  DEFAULT_CAMERA_ID,
+  cameraFeedKey,
+  leadCameraId,
+  setCameraRecognitionMode,
+  type CameraRecognitionMode,
+} from '@/lib/bus-cameras';
+import type { TamperCondition } from '@/lib/camera-tampering';
+import type { LivenessResult, LivenessSample } from '@/lib/liveness';
 
 interface FacialRecognitionFeedProps {
     busId: string;
+    cameraId?: string; // Which of the bus's cameras this device runs
     studentsOnBus: StudentType[];
     isPrimarySession?: boolean; // If false, camera access is disabled
 }
@@ -40,14 +75,29 @@ interface Face {
     isWrongBus?: boolean;
     correctBusName?: string;
     embedding?: Float32Array; // Store embedding for adaptive learning
+    trackState?: TrackState;
+    candidates?: CandidateMatch[]; // Top candidates for staff review of potential matches
+    liveness?: LivenessSample;
+    livenessResult?: LivenessResult;
+    authorizedRole?: AuthorizedAdultRole; // Recognised authorized adult, never an intruder
 }
 
+type RecognitionMode = CameraRecognitionMode;
+
+const TAMPER_BANNERS: Record<TamperCondition, { title: string; description: string }> = {
+    'darkness': { title: 'Camera Is Dark', description: 'The camera sees almost no light. Check it is not covered or in a bag.' },
+    'uniform': { title: 'Camera Blocked', description: 'The camera shows a blank view. Remove anything covering the lens.' },
+    'frozen': { title: 'Camera Frozen', description: 'The video has stopped updating. Restart the camera.' },
+    'scene-change': { title: 'Camera Moved', description: 'The camera is no longer pointed at the boarding area.' },
+    'no-motion-at-stop': { title: 'No Movement at Stop', description: 'Nothing is moving in front of the camera while the bus is stopped.' },
+};
+
 interface RegisteredFace {
     name: string;
     photoDataUri: string;
 }
 
-export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession = true }: FacialRecognitionFeedProps) {
+export function FacialRecognitionFeed({ busId, cameraId = DEFAULT_CAMERA_ID, studentsOnBus, isPrimarySession = true }: FacialRecognitionFeedProps) {
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [hasCameraPermission, setHasCameraPermission] = useState<boolean | null>(null);
@@ -69,7 +119,45 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
     const [storedEmbeddings, setStoredEmbeddings] = useState<StoredFaceEmbedding[]>([]);
     const [busDataState, setBusDataState] = useState<any>({});
     const stableFacesRef = useRef<Map<string, Face>>(new Map()); // Stable face tracking for smooth display
+    const trackerRef = useRef(createTrackerState()); // Multi-frame identity tracks
+    const cameras = useBusCameras(busId);
+    const camera = cameras.find(c => c.cameraId === cameraId) ?? DEFAULT_CAMERA;
+    const isLeadCamera = leadCameraId(cameras) === cameraId;
+    const [recognitionMode, setRecognitionMode] = useState<RecognitionMode>(camera.recognitionMode);
     const [embeddingsLoaded, setEmbeddingsLoaded] = useState(false);
+    const [authorizedAdultEmbeddings, setAuthorizedAdultEmbeddings] = useState<StoredFaceEmbedding[]>([]);
+    const [authorizedAdultRoles, setAuthorizedAdultRoles] = useState<Record<string, AuthorizedAdultRole>>({});
+    const [onDeviceMode, setOnDeviceMode] = useState(false); // Recognise in a Web Worker against this bus's roster only
+    const handleHeadcountDiscrepancy = useCallback((log: HeadcountDiscrepancyLog) => {
+        if (log.type === 'unrecognised-rider') {
+            toast({
+                variant: 'destructive',
+                title: 'Headcount Mismatch: Unrecognised Rider',
+                description: `The camera counted ${log.headcount} riders but only ${log.onBoardCount} are marked On Board. Please check for ${log.difference} unrecognised passenger(s).`,
+            });
+        } else {
+            toast({
+                title: 'Headcount Mismatch: Boarding Not Seen',
+                description: `${log.onBoardCount} students are marked On Board but the camera counted ${log.headcount}.` +
+                    (log.unseenOnBoard.length > 0 ? ` Not seen: ${log.unseenOnBoard.join(', ')}.` : ''),
+            });
+        }
+    }, [toast]);
+    const headcount = useHeadcount(
+        busId,
+        studentsOnBus,
+        isPrimarySession && isLeadCamera && scanningEnabled && recognitionMode === 'boarding',
+        handleHeadcountDiscrepancy
+    );
+    const policy = useRecognitionPolicy(busId);
+    const cameraTampering = useCameraTampering(busId, isPrimarySession && isScanning && scanningEnabled, cameraId);
+    const incidentClips = useIncidentClips(busId, videoRef, isPrimarySession && cameraInitialized, cameraId, isLeadCamera);
+    const onDeviceRecognition = useOnDeviceRecognition(
+        busId,
+        studentsOnBus.map(student => student.studentId),
+        authorizedAdultEmbeddings,
+        onDeviceMode && isPrimarySession
+    );
 
     // Throttled toast function to prevent spam
     const throttledToast = useCallback((key: string, toastOptions: any, throttleTime = 5000) => {
@@ -121,51 +209,10 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                     const embeddings: StoredFaceEmbedding[] = [];
                     
                     for (const studentId in embeddingsData) {
-                        const data = embeddingsData[studentId];
-                        
-                        // Support both new multi-angle format and old single-embedding format
-                        if (data.studentName) {
-                            let primaryEmbedding: number[] | null = null;
-                            let allEmbeddings: Array<{ embedding: number[]; uid: string; angle: number }> | undefined;
-                            
-                            if (data.embeddings && Array.isArray(data.embeddings) && data.embeddings.length > 0) {
-                                // New multi-angle format
-                                const mappedEmbeddings = data.embeddings.map((emb: any) => ({
-                                    embedding: Array.isArray(emb.embedding) ? emb.embedding : Array.from(emb.embedding),
-                                    uid: emb.uid,
-                                    angle: emb.angle || 0
-                                }));
-                                
-                                allEmbeddings = mappedEmbeddings;
-                                
-                                // Use primary embedding or first one
-                                primaryEmbedding = data.primaryEmbedding || mappedEmbeddings[0].embedding;
-                                
-                                console.log(`✓ Loaded ${mappedEmbeddings.length} multi-angle embeddings for ${data.studentName}`);
-                            } else if (data.embedding) {
-                                // Old single-embedding format
-                                primaryEmbedding = Array.isArray(data.embedding) ? data.embedding : Array.from(data.embedding);
-                                console.log(`✓ Loaded single embedding for ${data.studentName}`);
-                            }
-                            
-                            // Validate primary embedding
-                            if (primaryEmbedding) {
-                                const validEmbedding = primaryEmbedding.length === 512 && 
-                                                      primaryEmbedding.some((v: number) => !isNaN(v) && isFinite(v));
-                                
-                                if (validEmbedding) {
-                                    embeddings.push({
-                                        studentId: data.studentId || studentId,
-                                        studentName: data.studentName,
-                                        embedding: primaryEmbedding,
-                                        allEmbeddings: allEmbeddings
-                                    });
-                                } else {
-                                    console.warn(`✗ Invalid embedding for ${data.studentName}`);
-                                }
-                            } else {
-                                console.warn(`✗ No embedding data found for ${data.studentName}`);
-                            }
+                        const embedding = parseStoredFaceEmbedding(studentId, embeddingsData[studentId]);
+                        if (embedding) {
+                            embeddings.push(embedding);
+                            console.log(`✓ Loaded ${embedding.allEmbeddings?.length ?? 1} embedding(s) for ${embedding.studentName}`);
                         }
                     }
                     
@@ -213,6 +260,54 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
         })();
     }, []);
     
+    // On-device mode is a per-tablet setting
+    useEffect(() => {
+        setOnDeviceMode(localStorage.getItem('onDeviceRecognition') === 'true');
+    }, []);
+
+    const toggleOnDeviceMode = useCallback(() => {
+        setOnDeviceMode(previous => {
+            localStorage.setItem('onDeviceRecognition', String(!previous));
+            return !previous;
+        });
+    }, []);
+
+    // Authorized adults for this bus (or all buses); kept live so approvals
+    // and revocations apply without restarting the feed
+    useEffect(() => {
+        const adultsRef = dbRef(db, 'authorizedAdults');
+        const unsubscribe = onValue(adultsRef, (snapshot) => {
+            const data: Record<string, AuthorizedAdult> = snapshot.val() || {};
+            const embeddings: StoredFaceEmbedding[] = [];
+            const roles: Record<string, AuthorizedAdultRole> = {};
+
+            for (const adult of Object.values(data)) {
+                if (adult.busId && adult.busId !== busId) continue;
+                if (!isCurrentModelVersion(adult.modelVersion) || !adult.embeddings?.length) continue;
+
+                const allEmbeddings = adult.embeddings
+                    .filter(emb => isValidStoredEmbedding(emb.embedding, adult.modelVersion))
+                    .map(emb => ({ embedding: emb.embedding, uid: emb.uid, angle: emb.angle || 0 }));
+                if (allEmbeddings.length === 0) continue;
+
+                embeddings.push({
+                    studentId: adult.adultId,
+                    studentName: adult.name,
+                    embedding: allEmbeddings[0].embedding,
+                    modelVersion: adult.modelVersion,
+                    allEmbeddings,
+                });
+                roles[adult.adultId] = adult.role;
+            }
+
+            setAuthorizedAdultEmbeddings(embeddings);
+            setAuthorizedAdultRoles(roles);
+            console.log(`✅ Loaded ${embeddings.length} authorized adults for bus ${busId}`);
+        });
+
+        return () => unsubscribe();
+    }, [busId]);
+
     const requestLocation = useCallback(async () => {
         try {
             const status = await navigator.permissions.query({ name: 'geolocation' });
@@ -342,48 +437,261 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
         };
     }, [isPrimarySession, readyToScan, startCamera, stopCamera, isCameraStarting, cameraInitialized]);
 
-    const handleRecognitionEvent = useCallback(async (face: Face, snapshotDataUrl: string) => {
+    // Serve the camera to admin viewers as live video while it runs
+    useEffect(() => {
+        if (!isPrimarySession || !cameraInitialized || !videoRef.current?.srcObject) return;
+        try {
+            return startLiveVideo(cameraFeedKey(busId, cameraId), videoRef.current);
+        } catch (error) {
+            console.error('Failed to start live video:', error);
+        }
+    }, [isPrimarySession, cameraInitialized, busId, cameraId]);
+
+    // Follow the camera's recognition mode as set by an admin or another staff device
+    useEffect(() => {
+        setRecognitionMode(camera.recognitionMode);
+    }, [camera.recognitionMode]);
+
+    const switchRecognitionMode = useCallback(() => {
+        const next: RecognitionMode = recognitionMode === 'boarding' ? 'exit' : 'boarding';
+        setRecognitionMode(next);
+        setCameraRecognitionMode(busId, cameraId, next)
+            .catch(error => console.error('Failed to save recognition mode:', error));
+    }, [busId, cameraId, recognitionMode]);
+
+    // Tracks confirmed in one direction must not carry over to the other
+    useEffect(() => {
+        trackerRef.current = createTrackerState();
+    }, [recognitionMode]);
+
+    /**
+     * Current bus position for exit records: the bus GPS feed written by
+     * SpeedTracker, falling back to this device's location
+     */
+    const getCurrentPosition = useCallback(async (): Promise<{ latitude: number; longitude: number } | null> => {
+        try {
+            const snapshot = await get(dbRef(db, `busLocations/${busId}`));
+            const location = snapshot.val();
+            if (location?.latitude != null && location?.longitude != null) {
+                return { latitude: location.latitude, longitude: location.longitude };
+            }
+        } catch (error) {
+            console.error('Error reading bus location:', error);
+        }
+
+        if (!navigator.geolocation) return null;
+        return new Promise(resolve => {
+            navigator.geolocation.getCurrentPosition(
+                (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+                () => resolve(null),
+                { enableHighAccuracy: true, timeout: 5000, maximumAge: 30000 }
+            );
+        });
+    }, [busId]);
+
+    // Unredacted frames only go to restricted, expiring storage; admin-facing records keep a reference
+    const retainOriginal = useCallback(async (snapshot: EventSnapshot, meta: RestrictedSnapshotMeta) => {
+        // The event is saved either way; it just has no original to review
+        const result = await retainOriginalSnapshotAction(snapshot.original(), meta)
+            .catch(error => ({ success: false, original: undefined, error: error instanceof Error ? error.message : 'Unknown error' }));
+        if (!result.success) {
+            console.warn('⚠️ Original snapshot not retained:', result.error);
+        }
+        return result.original ?? null;
+    }, []);
+
+    // Evidence for an automatic attendance commit, so a disputed record can be explained later
+    const recordDecision = useCallback(async (
+        face: Face,
+        student: StudentType,
+        kind: MatchDecisionKind,
+        snapshot: EventSnapshot,
+        originalSnapshot: RestrictedSnapshotRef | null
+    ): Promise<string | null> => {
+        if (!face.embedding) return null;
+        const explanation = explainMatch(face.embedding, storedEmbeddings, FACE_DESCRIPTOR_MODEL_VERSION, policy.thresholds);
+        try {
+            return await recordMatchDecision(format(new Date(), 'yyyy-MM-dd'), {
+                studentId: student.studentId,
+                studentName: student.name,
+                busId,
+                kind,
+                decidedAt: new Date().toISOString(),
+                pipeline: onDeviceMode ? 'on-device' : 'main-thread',
+                committedConfidence: face.matchConfidence || 0,
+                explanation,
+                reproduced: explanation.studentId === student.studentId,
+                tracking: {
+                    trackId: face.uid,
+                    detectionConfidence: face.confidence,
+                    liveness: face.livenessResult ?? null,
+                },
+                snapshotUrl: snapshot.studentView(),
+                originalSnapshot,
+            });
+        } catch (error) {
+            console.error('Failed to record match decision:', error);
+            return null;
+        }
+    }, [busId, onDeviceMode, storedEmbeddings, policy.thresholds]);
+
+    const handleExitEvent = useCallback(async (face: Face, student: StudentType, snapshot: EventSnapshot) => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        const tripId = tripIdFor();
+        const attendanceRef = dbRef(db, `attendance/${today}/${student.studentId}`);
+        const record = (await get(attendanceRef)).val();
+
+        // One exit per trip: the morning drop-off at school must not block the afternoon one
+        if (record?.exitTripId === tripId) {
+            console.log(`Exit already recorded for ${student.name} on trip ${tripId}`);
+            return;
+        }
+        // Only a student who boarded on this trip can leave the bus
+        if (record?.status !== 'On Board' || !isEntryInTrip(record.entry, tripId)) {
+            console.warn(`Skipping exit for ${student.name}: no boarding recorded on trip ${tripId}`);
+            throttledToast(`exit-not-boarded-${student.name}`, {
+                title: `Exit Not Recorded: ${student.name}`,
+                description: 'No boarding was recorded for this trip. Please check their attendance.',
+            }, 30000);
+            return;
+        }
+
+        const exitLocation = await getCurrentPosition();
+        const originalSnapshot = await retainOriginal(snapshot, { kind: 'student-event', busId, subjectId: student.studentId });
+        await update(attendanceRef, {
+            status: 'Present',
+            exit: format(new Date(), 'hh:mm a'),
+            exitTripId: tripId,
+            exitLocation,
+            exitDecisionId: await recordDecision(face, student, 'exit', snapshot, originalSnapshot),
+            source: 'AIAttendance'
+        });
+
+        await set(dbRef(db, `studentEvents/${student.studentId}`), {
+            latestSnapshotUrl: snapshot.studentView(),
+            timestamp: new Date().toISOString(),
+            eventType: 'ExitRecognition'
+        });
+
+        if (student.parentId) {
+            const busName = busDataState[busId]?.name || busId;
+            await notifyStudentExited(student.parentId, student.name, student.studentId, busName, busId)
+                .catch(err => console.error('Failed to notify parent of exit:', err));
+        }
+
+        throttledToast(`exited-${student.name}`, {
+            title: `Exited: ${student.name}`,
+            description: exitLocation ? 'Exit time and location recorded.' : 'Exit time recorded (location unavailable).',
+        }, 30000);
+    }, [busId, busDataState, getCurrentPosition, throttledToast, retainOriginal, recordDecision]);
+
+    const handleSpoofEvent = useCallback(async (face: Face, snapshot: EventSnapshot) => {
         const now = Date.now();
-        const recognitionCooldown = 60000; // 1 minute cooldown per UID
-    
-        if (now - (lastRecognitionTime.current[face.uid] || 0) < recognitionCooldown) {
+        // Same cooldown as intruder alerts
+        if (now - (lastIntruderAlertTime.current[face.uid] || 0) < policy.intruderCooldownMs) {
             return;
         }
-        lastRecognitionTime.current[face.uid] = now;
+        lastIntruderAlertTime.current[face.uid] = now;
+
+        try {
+            await set(push(dbRef(db, 'spoofAlerts')), {
+                snapshotUrl: snapshot.alertView(),
+                originalSnapshot: await retainOriginal(snapshot, { kind: 'spoof-alert', busId }),
+                timestamp: new Date().toISOString(),
+                faceUid: face.uid,
+                busId: busId,
+                reason: face.livenessResult?.reason || 'unknown',
+                claimedName: face.name || null,
+                matchConfidence: face.matchConfidence || 0,
+                motion: face.livenessResult?.motion ?? null,
+                sharpness: face.livenessResult?.sharpness ?? null,
+                moireRatio: face.livenessResult?.moireRatio ?? null
+            });
+
+            console.log(`Spoof alert created for face ${face.uid} on bus ${busId} (${face.livenessResult?.reason})`);
+            throttledToast(`spoof-${face.uid}`, {
+                variant: 'destructive',
+                title: 'Spoof Attempt Detected',
+                description: face.name
+                    ? `A photo or screen showing ${face.name} was held up to the camera. Attendance was not marked.`
+                    : 'A photo or screen was held up to the camera. Alert saved.'
+            }, 30000);
+        } catch (error) {
+            console.error('Error saving spoof alert:', error);
+        }
+    }, [busId, throttledToast, retainOriginal, policy.intruderCooldownMs]);
+
+    const handlePanic = useCallback(async () => {
+        try {
+            await incidentClips.raise('panic', { detail: 'Panic button pressed on the staff device' });
+            toast({
+                variant: 'destructive',
+                title: 'Emergency Raised',
+                description: 'Administration can see the incident. A clip of the last 20 seconds and the next 10 is being recorded.',
+            });
+        } catch (error) {
+            console.error('Failed to raise panic incident:', error);
+            toast({
+                variant: 'destructive',
+                title: 'Emergency Not Sent',
+                description: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+    }, [incidentClips.raise, toast]);
+
+    const handleRecognitionEvent = useCallback(async (face: Face, eventSnapshot: EventSnapshot) => {
+        const now = Date.now();
     
         try {
-            if (face.name && !face.isWrongBus) {
+            if (face.authorizedRole) {
+                // Known adult on the bus - nothing to record, nothing to alert
+                console.log(`Authorized ${face.authorizedRole} on bus ${busId}: ${face.name}`);
+                return;
+            } else if (face.name && !face.isWrongBus) {
+                const cooldownKey = `${recognitionMode}-${face.name}`;
+                // Per student, in case a track is lost and re-confirmed
+                if (now - (lastRecognitionTime.current[cooldownKey] || 0) < policy.recognitionCooldownMs) {
+                    return;
+                }
+                lastRecognitionTime.current[cooldownKey] = now;
+
                 const student = studentsOnBus.find(s => s.name === face.name);
                 if (!student) return;
 
+                if (recognitionMode === 'exit') {
+                    await handleExitEvent(face, student, eventSnapshot);
+                    return;
+                }
+
                 const today = format(new Date(), 'yyyy-MM-dd');
+                const originalSnapshot = await retainOriginal(eventSnapshot, { kind: 'student-event', busId, subjectId: student.studentId });
                 const attendanceRef = dbRef(db, `attendance/${today}/${student.studentId}`);
                 await update(attendanceRef, {
                     status: 'On Board',
                     entry: format(new Date(), 'hh:mm a'),
+                    decisionId: await recordDecision(face, student, 'boarding', eventSnapshot, originalSnapshot),
                     source: 'AIAttendance'
                 });
 
                 const studentEventRef = dbRef(db, `studentEvents/${student.studentId}`);
                 await set(studentEventRef, {
-                    latestSnapshotUrl: snapshotDataUrl,
-                    timestamp: new Date().toISOString(),
+                    latestSnapshotUrl: eventSnapshot.studentView(),
+                            timestamp: new Date().toISOString(),
                     eventType: 'OnboardRecognition'
                 });
 
-                // ADAPTIVE LEARNING: Store recognition event with embedding for continuous improvement
-                if (face.embedding && face.confidence > 0.35) { // Only store high-confidence matches
+                // ADAPTIVE LEARNING: Store recognition event with embedding and its match
+                // similarity; the nightly jobs pick the samples they can trust from it
+                if (face.embedding && face.matchConfidence) {
                     const recognitionHistoryRef = dbRef(db, `recognitionHistory/${student.studentId}/${now}`);
                     await set(recognitionHistoryRef, {
                         embedding: Array.from(face.embedding),
-                        confidence: face.confidence,
+                        similarity: face.matchConfidence,
+                        modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
                         timestamp: new Date().toISOString(),
-                        snapshotUrl: snapshotDataUrl,
+                        snapshotUrl: eventSnapshot.studentView(),
                         busId: busId
                     }).catch(err => console.error('Failed to store recognition history:', err));
-                    
-                    // TODO: Periodically aggregate recognition history to update stored embeddings
-                    // This will make the system more robust over time by learning from real-world data
                 }
 
                 throttledToast(`recognized-${face.name}`, {
@@ -394,13 +702,58 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
 
             } else if (!face.name || face.isPotentialMatch) {
                 // INTRUDER ALERT: Add client-side cooldown to prevent spam
-                const intruderCooldown = 5 * 60 * 1000; // 5 minutes cooldown per unique face
                 const lastAlertForThisFace = lastIntruderAlertTime.current[face.uid] || 0;
                 
-                if (now - lastAlertForThisFace < intruderCooldown) {
+                if (now - lastAlertForThisFace < policy.intruderCooldownMs) {
                     console.log(`Skipping intruder alert for ${face.uid} - within cooldown period`);
                     return; // Skip if we already alerted for this face recently
                 }
+
+                // Staff reviews confirm boarding, so unsure faces on the way out are left alone
+                if (face.isPotentialMatch && recognitionMode === 'exit') {
+                    return;
+                }
+
+                // Potential matches go to the staff review queue instead of an intruder alert
+                if (face.isPotentialMatch && face.candidates && face.candidates.length > 0) {
+                    lastIntruderAlertTime.current[face.uid] = now;
+
+                    const reviewRef = push(dbRef(db, `matchReviews/${busId}`));
+                    await set(reviewRef, {
+                        snapshotUrl: eventSnapshot.alertView(),
+                        timestamp: new Date().toISOString(),
+                        faceUid: face.uid,
+                        busId: busId,
+                        candidates: face.candidates,
+                        embedding: face.embedding ? Array.from(face.embedding) : null,
+                        modelVersion: FACE_DESCRIPTOR_MODEL_VERSION,
+                        status: 'pending'
+                    });
+
+                    console.log(`Potential match queued for review: ${face.candidates.map(c => c.studentName).join(', ')}`);
+                    throttledToast('potential-match', {
+                        title: 'Potential Match - Review Needed',
+                        description: `This person looks similar to: ${face.candidates.map(c => c.studentName).join(', ')}. Please confirm below.`
+                    }, 30000);
+                    return;
+                }
+                
+                // The on-device roster only holds this bus's students, so check the whole
+                // school (descriptor only) before treating an unmatched face as an intruder
+                if (onDeviceMode && face.embedding && !face.isPotentialMatch) {
+                    const result = await matchFaceDescriptorAction(Array.from(face.embedding), busId);
+                    if (result.success && result.match?.name) {
+                        lastIntruderAlertTime.current[face.uid] = now;
+                        const studentInfo = allStudents.find(s => s.studentId === result.match!.studentId);
+                        const correctBusName = studentInfo && busDataState[studentInfo.busId]?.name;
+                        throttledToast(`wrong-bus-${result.match.studentId}`, {
+                            variant: 'warning',
+                            title: `Wrong Bus: ${result.match.name}`,
+                            description: `${result.match.name} is not on this bus. Please send them to ${correctBusName || 'their bus'}.`
+                        }, 30000);
+                        return;
+                    }
+                }
                 
                 const recentAlertsRef = dbRef(db, 'intruderAlerts');
                 
@@ -414,7 +767,7 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                 
                 const snapshot = await get(recentAlertsQuery);
                 const nowDate = new Date();
-                const firebaseCooldownPeriod = 5 * 60 * 1000; // 5 minutes cooldown
+                const firebaseCooldownPeriod = policy.intruderCooldownMs;
                 
                 let shouldCreateAlert = true;
                 
@@ -454,17 +807,28 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                     // Create new alert - ONLY ONCE per unique face per cooldown period
                     const newIntruderRef = push(recentAlertsRef);
                     await set(newIntruderRef, {
-                        snapshotUrl: snapshotDataUrl,
+                        snapshotUrl: eventSnapshot.alertView(),
+                        originalSnapshot: await retainOriginal(eventSnapshot, { kind: 'intruder-alert', busId }),
                         timestamp: nowDate.toISOString(),
                         faceUid: face.uid,
                         busId: busId,
+                        cameraId: cameraId,
                         matchConfidence: face.matchConfidence || 0,
                         isPotentialMatch: face.isPotentialMatch || false,
-                        potentialMatches: face.potentialMatches || []
+                        potentialMatches: face.potentialMatches || [],
+                        embedding: face.embedding ? Array.from(face.embedding) : null,
+                        modelVersion: FACE_DESCRIPTOR_MODEL_VERSION
                     });
 
                     console.log(`Intruder alert created for face ${face.uid} on bus ${busId}`);
 
+                    // Record the moments around the sighting and link the clip to the alert
+                    incidentClips.raise('intruder', { alertPath: `intruderAlerts/${newIntruderRef.key}` })
+                        .catch(err => console.error('Failed to raise intruder incident:', err));
+
+                    // Link the alert to earlier sightings of the same unknown person
+                    clusterIntruderAlertsAction().catch(err => console.error('Failed to cluster intruder alert:', err));
+
                     // Show appropriate toast based on match confidence - ONLY ONCE
                     if (face.isPotentialMatch) {
                         const potentialNames = face.potentialMatches?.map(m => m.name).join(', ');
@@ -485,10 +849,10 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
         } catch (error) {
             console.error('Error in recognition event process:', error);
         }
-    }, [busId, throttledToast, studentsOnBus]);
+    }, [busId, throttledToast, studentsOnBus, recognitionMode, handleExitEvent, onDeviceMode, allStudents, busDataState, retainOriginal, recordDecision, policy.recognitionCooldownMs, policy.intruderCooldownMs, incidentClips.raise]);
 
     const lastDrawTime = useRef<number>(0);
-    const DRAW_INTERVAL = 1000 / 15; // 15 FPS instead of 60 FPS for better performance
+    const drawInterval = 1000 / policy.drawFps; // 15 FPS by default instead of 60 FPS for better performance
 
     const scanLoop = useCallback(async () => {
         if (!isScanning || !videoRef.current || !canvasRef.current || videoRef.current.paused || videoRef.current.ended || !scanningEnabled) {
@@ -504,7 +868,7 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
         const now = Date.now();
         const timeSinceLastDraw = now - lastDrawTime.current;
         
-        if (timeSinceLastDraw < DRAW_INTERVAL) {
+        if (timeSinceLastDraw < drawInterval) {
             animationFrameId.current = requestAnimationFrame(scanLoop);
             return;
         }
@@ -523,6 +887,7 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
             
             // CRITICAL: Draw the current video frame to canvas for processing
             context.drawImage(video, 0, 0, canvas.width, canvas.height);
+            cameraTampering.checkFrame(canvas);
             
             // Draw face detection overlays on top
             if (detectedFaces.length > 0) {
@@ -542,7 +907,17 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                     let color = 'red';
                     let label = 'Unrecognized';
 
-                    if (face.isWrongBus) {
+                    if (face.authorizedRole && face.trackState !== 'spoof') {
+                        color = '#14b8a6';
+                        label = `${face.authorizedRole.charAt(0).toUpperCase()}${face.authorizedRole.slice(1)}: ${face.name}`;
+                    } else if (face.trackState === 'spoof') {
+                        color = '#a855f7';
+                        label = 'Spoof Suspected';
+                    } else if (face.trackState === 'tentative') {
+                        // Not enough consistent frames yet to decide either way
+                        color = '#f59e0b';
+                        label = face.name && !face.isPotentialMatch ? `Verifying: ${face.name}` : 'Verifying...';
+                    } else if (face.isWrongBus) {
                         color = '#3b82f6';
                         label = `Wrong Bus: Go to ${face.correctBusName || 'your bus'}`;
                     } else if (face.name) {
@@ -611,12 +986,13 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                 });
             }
 
-            if (!isProcessing) {
+            // In on-device mode, wait until the worker has loaded its models
+            if (!isProcessing && (!onDeviceMode || onDeviceRecognition.isReady)) {
                 setIsProcessing(true);
                 
-                // Create a smaller canvas for processing to reduce payload size
+                // Create a smaller canvas for processing
                 const processingCanvas = document.createElement('canvas');
-                const processingCtx = processingCanvas.getContext('2d');
+                const processingCtx = processingCanvas.getContext('2d', { willReadFrequently: true });
                 
                 // OPTIMIZED: Higher resolution (640x480) for better face detection
                 // BlazeFace works best with higher resolution images
@@ -628,95 +1004,45 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                 processingCanvas.height = canvas.height * scale;
                 
                 if (processingCtx) {
-                    // Enhance image for better face detection
                     // Draw the video frame (not the overlays) to processing canvas
                     processingCtx.drawImage(video, 0, 0, processingCanvas.width, processingCanvas.height);
                     
                     // Apply slight contrast enhancement for better detection
-                    const imageData = processingCtx.getImageData(0, 0, processingCanvas.width, processingCanvas.height);
-                    const data = imageData.data;
-                    const contrastFactor = 1.2; // 20% contrast boost
-                    
-                    for (let i = 0; i < data.length; i += 4) {
-                        data[i] = Math.min(255, ((data[i] - 128) * contrastFactor) + 128);     // R
-                        data[i + 1] = Math.min(255, ((data[i + 1] - 128) * contrastFactor) + 128); // G
-                        data[i + 2] = Math.min(255, ((data[i + 2] - 128) * contrastFactor) + 128); // B
+                    // (the on-device worker enhances its own copy of the frame)
+                    if (!onDeviceMode) {
+                        const imageData = processingCtx.getImageData(0, 0, processingCanvas.width, processingCanvas.height);
+                        processingCtx.putImageData(enhanceContrast(imageData), 0, 0);
                     }
-                    
-                    processingCtx.putImageData(imageData, 0, 0);
                 }
-                
-                // OPTIMIZED: Slightly higher quality (25%) for better feature extraction
-                // Balance between file size and face recognition accuracy
-                const photoDataUri = processingCanvas.toDataURL('image/jpeg', 0.25);
 
                 try {
-                    // Client-side face detection with sensitive thresholds
-                    // returnTensors=true, iouThreshold=0.3, scoreThreshold=0.4, maxFaces=10 for multiple people
-                    // Lower scoreThreshold (0.4 instead of 0.5) to catch more faces in various lighting
-                    const predictions = await detectFacesClient(processingCanvas, true, 0.3, 0.4, 10);
-                    
-                    // If no faces detected, try with even more sensitive threshold
-                    if (predictions.length === 0) {
-                        const retryPredictions = await detectFacesClient(processingCanvas, true, 0.3, 0.25, 10);
-                        if (retryPredictions.length > 0) {
-                            predictions.push(...retryPredictions);
-                        }
-                    }
+                    // On-device mode analyses the frame in a Web Worker against this bus's roster;
+                    // otherwise it runs here against every registered student
+                    const analysis = onDeviceMode
+                        ? await onDeviceRecognition.analyze(processingCanvas, policy.thresholds)
+                        : await analyzeFrame(
+                            processingCanvas,
+                            box => extractFaceCrop(processingCanvas, box).getContext('2d')!.getImageData(0, 0, 160, 160),
+                            { students: storedEmbeddings, adults: authorizedAdultEmbeddings },
+                            policy.thresholds
+                        );
                     
                     const processedFaces: Face[] = [];
                     
-                    for (const prediction of predictions) {
-                        // Validate prediction has required properties
-                        if (!prediction.topLeft || !prediction.bottomRight) {
-                            continue;
-                        }
-                        
-                        // Extract coordinates from tensors
-                        // topLeft and bottomRight are Tensor objects, not arrays!
-                        const topLeftData = Array.from(await prediction.topLeft.data()) as number[];
-                        const bottomRightData = Array.from(await prediction.bottomRight.data()) as number[];
-                        
-                        if (topLeftData.length < 2 || bottomRightData.length < 2) {
-                            continue;
-                        }
-                        
-                        // Handle case where topLeft/bottomRight might be swapped
-                        const x1 = topLeftData[0];
-                        const y1 = topLeftData[1];
-                        const x2 = bottomRightData[0];
-                        const y2 = bottomRightData[1];
-                        
-                        // Use Math.min/max to ensure correct bounding box regardless of order
-                        const x = Math.min(x1, x2);
-                        const y = Math.min(y1, y2);
-                        const width = Math.abs(x2 - x1);
-                        const height = Math.abs(y2 - y1);
-                        
-                        // Extract face crop
-                        const faceCrop = extractFaceCrop(processingCanvas, { x, y, width, height });
-                        
-                        // Generate embedding
-                        const faceTensor = tf.browser.fromPixels(faceCrop);
-                        const embedding = generateFaceEmbeddingClient(faceTensor);
-                        faceTensor.dispose();
-                        
-                        // Embedding generated (verbose logging removed for performance)
-                        
-                        // Match against stored embeddings
-                        const match = matchFace(embedding, storedEmbeddings);
-                        
-                        // Generate stable ID
-                        const uid = generateStableFaceId(embedding);
-                        
+                    for (const { box, probability, embedding, liveness, match, adultMatch, candidates } of analysis) {
                         // Determine student info
                         let studentName: string | undefined;
                         let matchConfidence = 0;
                         let isPotentialMatch = false;
                         let isWrongBus = false;
                         let correctBusName: string | undefined;
+                        let authorizedRole: AuthorizedAdultRole | undefined;
                         
-                        if (match) {
+                        if (adultMatch) {
+                            studentName = adultMatch.studentName;
+                            matchConfidence = adultMatch.confidence;
+                            authorizedRole = authorizedAdultRoles[adultMatch.studentId];
+                        } else if (match) {
                             studentName = match.studentName;
                             matchConfidence = match.confidence;
                             isPotentialMatch = match.isPotentialMatch;
@@ -731,25 +1057,55 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                             }
                         }
                         
+                        if (!match && candidates && candidates.length > 0 && candidates[0].confidence >= policy.thresholds.MEDIUM_CONFIDENCE) {
+                            isPotentialMatch = true; // Ambiguous between similar students
+                        }
+                        
                         processedFaces.push({
                             boundingBox: {
-                                x: x / processingCanvas.width,
-                                y: y / processingCanvas.height,
-                                width: width / processingCanvas.width,
-                                height: height / processingCanvas.height,
+                                x: box.x / processingCanvas.width,
+                                y: box.y / processingCanvas.height,
+                                width: box.width / processingCanvas.width,
+                                height: box.height / processingCanvas.height,
                             },
-                            confidence: prediction.probability ? prediction.probability[0] : 0.9,
+                            confidence: probability,
                             matchConfidence,
                             isPotentialMatch,
                             name: studentName,
-                            uid,
+                            uid: '', // Assigned from the track below
                             isRecognized: !!studentName && !isPotentialMatch,
                             isWrongBus,
                             correctBusName,
                             embedding: embedding, // Store for adaptive learning
+                            candidates,
+                            liveness,
+                            authorizedRole,
                         });
                     }
 
+                    // Associate detections with tracks; only tracks that have been
+                    // consistent for enough frames produce attendance or alerts
+                    const { assignments, confirmed, intruders, spoofs } = updateTracks(
+                        trackerRef.current,
+                        processedFaces.map(face => ({
+                            boundingBox: face.boundingBox,
+                            embedding: face.embedding!,
+                            name: face.isRecognized ? face.name : undefined,
+                            isPotentialMatch: face.isPotentialMatch,
+                            liveness: face.liveness,
+                        }))
+                    );
+                    processedFaces.forEach((face, index) => {
+                        face.uid = assignments[index].id;
+                        face.trackState = assignments[index].state;
+                        face.livenessResult = assignments[index].liveness;
+                    });
+
+                    // Headcount: every decided rider once per trip; staff are not passengers
+                    headcount.countDecidedTracks([...confirmed, ...intruders]
+                        .filter(track => !processedFaces.find(face => face.uid === track.id)?.authorizedRole)
+                        .map(track => ({ id: track.id, name: track.confirmedName, embedding: track.embedding })));
+
                     // Smooth face tracking to prevent jitter
                     // Keep faces stable by averaging positions over time
                     const smoothedFaces: Face[] = [];
@@ -788,15 +1144,28 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
 
                     setDetectedFaces(smoothedFaces);
 
+                    const decidedTrackIds = new Set([...confirmed, ...intruders].map(track => track.id));
+                    const spoofTrackIds = new Set(spoofs.map(track => track.id));
+                    // Snapshots are redacted against the unsmoothed boxes, which match the frame
+                    const snapshotFor = (face: Face) => createEventSnapshot(
+                        processingCanvas,
+                        processedFaces.find(raw => raw.uid === face.uid) ?? face,
+                        processedFaces
+                    );
                     smoothedFaces.forEach((face: Face) => {
-                        handleRecognitionEvent(face, processingCanvas.toDataURL('image/jpeg', 0.7));
+                        if (spoofTrackIds.has(face.uid)) {
+                            handleSpoofEvent(face, snapshotFor(face));
+                        } else if (decidedTrackIds.has(face.uid)) {
+                            handleRecognitionEvent(face, snapshotFor(face));
+                        }
                     });
 
                     // OPTIMIZED: Adaptive delay based on detection
                     // Increased delays for better performance and less lag
+                    // If tracks are still being verified: scan again quickly so boarding isn't held up
                     // If faces detected: scan every 3s (reduced frequency to prevent lag)
                     // If no faces: scan every 5s to save resources
-                    const adaptiveDelay = processedFaces.length > 0 ? 3000 : 5000;
+                    const adaptiveDelay = hasPendingTracks(trackerRef.current) ? 500 : processedFaces.length > 0 ? 3000 : 5000;
                     setTimeout(() => setIsProcessing(false), adaptiveDelay);
 
                 } catch (error) {
@@ -814,7 +1183,7 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
         }
         
         animationFrameId.current = requestAnimationFrame(scanLoop);
-    }, [isScanning, detectedFaces, isProcessing, handleRecognitionEvent, registeredFaces, allStudents, busId, scanningEnabled, throttledToast]);
+    }, [isScanning, detectedFaces, isProcessing, handleRecognitionEvent, handleSpoofEvent, storedEmbeddings, authorizedAdultEmbeddings, authorizedAdultRoles, registeredFaces, allStudents, busId, scanningEnabled, throttledToast, onDeviceMode, onDeviceRecognition.isReady, onDeviceRecognition.analyze, headcount.countDecidedTracks, cameraTampering.checkFrame, drawInterval, policy.thresholds]);
 
     useEffect(() => {
         if (scanningEnabled && cameraInitialized && hasCameraPermission) {
@@ -834,11 +1203,16 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
     // Auto-start scanning when camera is ready (location permission optional for face recognition)
     useEffect(() => {
         console.log('Auto-start check:', { cameraInitialized, hasCameraPermission, hasLocationPermission, readyToScan, scanningEnabled });
+        if (recognitionMode === 'off') {
+            // Cameras such as the driver-facing one stream and record clips without recognising anyone
+            if (scanningEnabled) setScanningEnabled(false);
+            return;
+        }
         if (cameraInitialized && hasCameraPermission && readyToScan && !scanningEnabled) {
             console.log('Auto-starting facial recognition scanning');
             setScanningEnabled(true);
         }
-    }, [cameraInitialized, hasCameraPermission, hasLocationPermission, readyToScan, scanningEnabled]);
+    }, [cameraInitialized, hasCameraPermission, hasLocationPermission, readyToScan, scanningEnabled, recognitionMode]);
 
     const checkCameraPermissions = useCallback(async () => {
         try {
@@ -871,20 +1245,91 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                     <div className="flex items-center gap-2">
                         <Camera className="h-6 w-6 text-primary" />
                         <CardTitle>Facial Recognition</CardTitle>
+                        {cameras.length > 1 && (
+                            <Badge variant="outline">{camera.label} · {CAMERA_ROLE_LABELS[camera.role]}</Badge>
+                        )}
                     </div>
                     <div className="flex items-center gap-2 flex-wrap">
+                        {recognitionMode === 'off' ? (
+                            <Badge variant="secondary" title="An admin turned recognition off for this camera">
+                                Recognition Off
+                            </Badge>
+                        ) : (
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-6 text-xs"
+                                onClick={switchRecognitionMode}
+                                title="Switch between recording boarding and exits"
+                            >
+                                {recognitionMode === 'exit' ? (
+                                    <><LogOut className="h-3 w-3 mr-1 text-orange-600" />Exit Mode</>
+                                ) : (
+                                    <><LogIn className="h-3 w-3 mr-1 text-green-600" />Boarding Mode</>
+                                )}
+                            </Button>
+                        )}
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-6 text-xs"
+                            onClick={toggleOnDeviceMode}
+                            title="On-device: recognise in a background worker against this bus's students only. Only recognition events and snapshots are uploaded."
+                        >
+                            {onDeviceMode ? (
+                                <><Cpu className="h-3 w-3 mr-1 text-primary" />On-device</>
+                            ) : (
+                                <><Users className="h-3 w-3 mr-1" />All Students</>
+                            )}
+                        </Button>
                         <Badge variant={isScanning ? "default" : scanningEnabled ? "outline" : "secondary"}>
                             {isScanning ? "Active" : scanningEnabled ? "Starting..." : "Inactive"}
                         </Badge>
                         <Badge variant="secondary">
                             Detected: {detectedFaces.length}
                         </Badge>
+                        {headcount.summary && (
+                            <Badge
+                                variant={headcount.summary.isSustained ? "destructive" : "outline"}
+                                title={`${headcount.summary.recognised} recognised, ${headcount.summary.unidentified} unidentified this trip`}
+                            >
+                                Headcount: {headcount.summary.headcount} / {headcount.summary.onBoardCount} On Board
+                            </Badge>
+                        )}
                         {cameraInitialized && (
                             <Badge variant="outline" className="text-green-600">
                                 Camera Ready
                             </Badge>
                         )}
-                        {embeddingsLoaded && (
+                        {incidentClips.isRecording && (
+                            <Badge variant="destructive">
+                                <Clapperboard className="h-3 w-3 mr-1" />Recording Clip
+                            </Badge>
+                        )}
+                        {isPrimarySession && cameraInitialized && (
+                            <Button
+                                size="sm"
+                                variant="destructive"
+                                className="h-6 text-xs"
+                                onClick={handlePanic}
+                                title="Raise an emergency and record a clip of the last 20 seconds and the next 10"
+                            >
+                                <Siren className="h-3 w-3 mr-1" />Panic
+                            </Button>
+                        )}
+                        {onDeviceMode && (
+                            <Badge
+                                variant={onDeviceRecognition.error ? "destructive" : onDeviceRecognition.rosterSize > 0 ? "default" : "outline"}
+                                title={onDeviceRecognition.error || undefined}
+                            >
+                                {onDeviceRecognition.error
+                                    ? 'On-device error'
+                                    : !onDeviceRecognition.isReady
+                                        ? 'Loading models...'
+                                        : `${onDeviceRecognition.rosterSize} on this bus${onDeviceRecognition.isCachedRoster ? ' (cached)' : ''}`}
+                            </Badge>
+                        )}
+                        {embeddingsLoaded && !onDeviceMode && (
                             <Badge 
                                 variant={storedEmbeddings.length > 0 ? "default" : "destructive"}
                                 className={storedEmbeddings.length > 0 ? "bg-green-600" : ""}
@@ -904,6 +1349,20 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                 </CardDescription>
             </CardHeader>
             <CardContent>
+                {cameraTampering.activeIssue && (
+                    <Alert variant="destructive" className="mb-4">
+                        <EyeOff className="h-4 w-4" />
+                        <AlertTitle>{TAMPER_BANNERS[cameraTampering.activeIssue].title}</AlertTitle>
+                        <AlertDescription>
+                            {TAMPER_BANNERS[cameraTampering.activeIssue].description} Admins have been alerted.
+                            {cameraTampering.activeIssue === 'scene-change' && (
+                                <Button onClick={cameraTampering.acceptView} size="sm" variant="outline" className="ml-2">
+                                    Use New View
+                                </Button>
+                            )}
+                        </AlertDescription>
+                    </Alert>
+                )}
                 <div className="relative group">
                     <video ref={videoRef} className="w-full aspect-video rounded-md bg-black" autoPlay muted playsInline />
                     <canvas ref={canvasRef} className="absolute top-0 left-0 w-full h-full pointer-events-none z-10" />
@@ -931,7 +1390,7 @@ export function FacialRecognitionFeed({ busId, studentsOnBus, isPrimarySession =
                     )}
 
                     {/* Scanning control overlay */}
-                    {readyToScan && hasCameraPermission && !isProcessing && (
+                    {readyToScan && hasCameraPermission && !isProcessing && recognitionMode !== 'off' && (
                         <div className="absolute top-2 right-2 z-20">
                             <Button 
                                 onClick={() => setScanningEnabled(!scanningEnabled)}
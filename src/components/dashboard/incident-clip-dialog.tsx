@@ -0,0 +1,131 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Film, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '../ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { viewIncidentClipAction } from '@/app/actions';
+import type { IncidentClip } from '@/lib/incident-clips';
+
+interface IncidentClipDialogProps {
+    clip: IncidentClip;
+    busId: string;
+    incidentId: string;
+    title: string;
+}
+
+const formatOffset = (ms: number) => `${ms < 0 ? '-' : '+'}${Math.round(Math.abs(ms) / 1000)}s`;
+
+/**
+ * Plays an incident clip with a timeline marking the moment of the event.
+ * Clicking the timeline seeks; the offset is shown relative to the event.
+ * The clip is fetched through the server when the dialog opens and dropped
+ * when it closes.
+ */
+export function IncidentClipDialog({ clip, busId, incidentId, title }: IncidentClipDialogProps) {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [position, setPosition] = useState(0); // Seconds into the clip
+    const [clipSrc, setClipSrc] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const { toast } = useToast();
+
+    if (clip.expiresAt <= Date.now()) return null;
+
+    const durationMs = Math.max(clip.endedAt - clip.startedAt, 1);
+    const eventOffsetMs = clip.eventAt - clip.startedAt;
+    const eventPercent = Math.min(100, Math.max(0, (eventOffsetMs / durationMs) * 100));
+    const positionPercent = Math.min(100, (position * 1000 / durationMs) * 100);
+
+    const seek = (event: React.MouseEvent<HTMLDivElement>) => {
+        const bounds = event.currentTarget.getBoundingClientRect();
+        const fraction = (event.clientX - bounds.left) / bounds.width;
+        if (videoRef.current) videoRef.current.currentTime = (fraction * durationMs) / 1000;
+    };
+
+    const jumpToEvent = () => {
+        if (!videoRef.current) return;
+        videoRef.current.currentTime = Math.max(0, eventOffsetMs - 2000) / 1000;
+        videoRef.current.play().catch(() => {});
+    };
+
+    const handleOpenChange = async (open: boolean) => {
+        if (!open) {
+            setPosition(0);
+            setClipSrc(null);
+            return;
+        }
+
+        setIsLoading(true);
+        const result = await viewIncidentClipAction(busId, incidentId);
+        setIsLoading(false);
+        if (result.success && result.clipDataUri) {
+            setClipSrc(result.clipDataUri);
+        } else {
+            toast({
+                variant: 'destructive',
+                title: 'Clip Unavailable',
+                description: result.error || 'An unknown error occurred.',
+            });
+        }
+    };
+
+    return (
+        <Dialog onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs">
+                    <Film className="h-3 w-3 mr-1" />Clip
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[720px]">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>
+                        {format(new Date(clip.startedAt), 'PPpp')} to {format(new Date(clip.endedAt), 'pp')}.
+                        The clip is deleted {formatDistanceToNow(new Date(clip.expiresAt), { addSuffix: true })}.
+                    </DialogDescription>
+                </DialogHeader>
+                {clipSrc ? (
+                    <video
+                        ref={videoRef}
+                        src={clipSrc}
+                        controls
+                        playsInline
+                        className="w-full rounded-md bg-black"
+                        onTimeUpdate={(event) => setPosition(event.currentTarget.currentTime)}
+                    />
+                ) : (
+                    <div className="flex aspect-video w-full items-center justify-center rounded-md bg-black text-sm text-muted-foreground">
+                        {isLoading ? <Loader2 className="h-6 w-6 animate-spin" /> : 'Clip unavailable'}
+                    </div>
+                )}
+                <div className="space-y-1">
+                    <div className="relative h-3 rounded-full bg-muted cursor-pointer" onClick={seek}>
+                        <div className="absolute inset-y-0 left-0 rounded-full bg-primary/40" style={{ width: `${positionPercent}%` }} />
+                        <div
+                            className="absolute -top-1 h-5 w-1 rounded bg-destructive"
+                            style={{ left: `${eventPercent}%` }}
+                            title="Incident"
+                        />
+                    </div>
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{formatOffset(-eventOffsetMs)}</span>
+                        <span>{formatOffset(position * 1000 - eventOffsetMs)} from incident</span>
+                        <span>{formatOffset(clip.endedAt - clip.eventAt)}</span>
+                    </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={jumpToEvent} className="w-fit">
+                    Jump to incident
+                </Button>
+            </DialogContent>
+        </Dialog>
+    );
+}
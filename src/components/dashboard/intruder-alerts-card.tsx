@@ -7,19 +7,50 @@ import { ShieldAlert, EyeOff } from "lucide-react";
 import { db } from '@/lib/firebase';
 import { ref, onValue, query, orderByChild, limitToLast } from 'firebase/database';
 import Image from 'next/image';
-import { formatDistanceToNow } from 'date-fns';
+import { formatDistanceToNow, subDays } from 'date-fns';
 import { ScrollArea } from '../ui/scroll-area';
 import { Badge } from '../ui/badge';
+import type { UnknownPerson } from '@/ai/flows/intruder-clustering';
+import type { RestrictedSnapshotRef } from '@/ai/flows/restricted-snapshots';
+import { CLIP_STATUS_LABELS, type ClipStatus, type IncidentClip } from '@/lib/incident-clips';
+import { OriginalSnapshotDialog } from './original-snapshot-dialog';
+import { IncidentClipDialog } from './incident-clip-dialog';
 
 interface IntruderAlert {
     id: string;
     snapshotUrl: string; // This will be a Data URI
     timestamp: string;
     busId: string;
+    personId?: string; // Unknown person this sighting was clustered into
+    originalSnapshot?: RestrictedSnapshotRef | null; // Unredacted frame, until it expires
+    incidentId?: string; // Set once the bus starts recording a clip
+    clipStatus?: ClipStatus;
+    clip?: IncidentClip | null;
+}
+
+const formatBusId = (busId: string) => busId.replace('_', '-');
+
+/**
+ * "Seen 4 times on Bus-02 this week" for a clustered unknown person
+ */
+function describeSightings(person: UnknownPerson, busId: string): string | null {
+    const weekAgo = subDays(new Date(), 7);
+    const thisWeek = Object.values(person.sightings || {}).filter(s => new Date(s.timestamp) >= weekAgo);
+    const onThisBus = thisWeek.filter(s => s.busId === busId).length;
+    const otherBuses = new Set(thisWeek.filter(s => s.busId !== busId).map(s => s.busId));
+
+    if (thisWeek.length <= 1) return null;
+    let text = `Seen ${onThisBus} time${onThisBus === 1 ? '' : 's'} on ${formatBusId(busId)} this week`;
+    if (otherBuses.size > 0) {
+        const otherCount = thisWeek.length - onThisBus;
+        text += ` (+${otherCount} on ${Array.from(otherBuses).map(formatBusId).join(', ')})`;
+    }
+    return text;
 }
 
 export function IntruderAlertsCard() {
     const [alerts, setAlerts] = useState<IntruderAlert[]>([]);
+    const [persons, setPersons] = useState<Record<string, UnknownPerson>>({});
 
     useEffect(() => {
         const alertsRef = ref(db, 'intruderAlerts');
@@ -38,9 +69,26 @@ export function IntruderAlertsCard() {
             }
         });
 
-        return () => unsubscribe();
+        const personsRef = ref(db, 'unknownPersons');
+        const unsubscribePersons = onValue(personsRef, (snapshot) => {
+            setPersons(snapshot.val() || {});
+        });
+
+        return () => {
+            unsubscribe();
+            unsubscribePersons();
+        };
     }, []);
 
+    // One row per unknown person (their latest alert); unclustered alerts stay separate
+    const seenPersons = new Set<string>();
+    const rows = alerts.filter(alert => {
+        if (!alert.personId) return true;
+        if (seenPersons.has(alert.personId)) return false;
+        seenPersons.add(alert.personId);
+        return true;
+    });
+
     return (
         <Card>
             <CardHeader>
@@ -52,9 +100,12 @@ export function IntruderAlertsCard() {
             </CardHeader>
             <CardContent>
                 <ScrollArea className="h-[250px] w-full">
-                    {alerts.length > 0 ? (
+                    {rows.length > 0 ? (
                         <div className="space-y-4">
-                            {alerts.map(alert => (
+                            {rows.map(alert => {
+                                const person = alert.personId ? persons[alert.personId] : undefined;
+                                const sightings = person ? describeSightings(person, alert.busId) : null;
+                                return (
                                 <div key={alert.id} className="flex items-center gap-4 p-2 rounded-md border border-destructive/20 bg-destructive/5">
                                     <Image
                                         src={alert.snapshotUrl}
@@ -68,10 +119,37 @@ export function IntruderAlertsCard() {
                                         <p className="text-muted-foreground">
                                             {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })}
                                         </p>
-                                        <Badge variant="destructive" className="mt-1">{alert.busId.replace('_', '-')}</Badge>
+                                        {sightings && (
+                                            <p className="text-xs font-medium text-destructive">{sightings}</p>
+                                        )}
+                                        {person && person.sightingCount > 1 && (
+                                            <p className="text-xs text-muted-foreground">
+                                                First seen {formatDistanceToNow(new Date(person.firstSeen), { addSuffix: true })}
+                                            </p>
+                                        )}
+                                        <div className="flex items-center gap-2 mt-1">
+                                            <Badge variant="destructive">{formatBusId(alert.busId)}</Badge>
+                                            {alert.originalSnapshot && (
+                                                <OriginalSnapshotDialog
+                                                    original={alert.originalSnapshot}
+                                                    description="Recognised students are blurred in the alert snapshot."
+                                                />
+                                            )}
+                                            {alert.clip && alert.incidentId ? (
+                                                <IncidentClipDialog
+                                                    clip={alert.clip}
+                                                    busId={alert.busId}
+                                                    incidentId={alert.incidentId}
+                                                    title={`Unrecognized Person on ${formatBusId(alert.busId)}`}
+                                                />
+                                            ) : alert.clipStatus && alert.clipStatus !== 'expired' && (
+                                                <Badge variant="outline">{CLIP_STATUS_LABELS[alert.clipStatus]}</Badge>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
-                            ))}
+                                );
+                            })}
                         </div>
                     ) : (
                         <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
@@ -1,11 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Video, VideoOff, Wifi, WifiOff, Clock } from 'lucide-react';
-import { subscribeLiveFeed, getLatestFrame, isBroadcasting, type LiveFeedFrame } from '@/lib/live-stream-manager';
+import { Video, VideoOff, Wifi, WifiOff, Clock, LayoutGrid } from 'lucide-react';
+import {
+  subscribeLiveFeed,
+  getLatestFrame,
+  isBroadcasting,
+  isLiveVideoAvailable,
+  connectLiveVideo,
+  requestSnapshotFallback,
+  type LiveFeedFrame,
+  type LiveVideoState,
+} from '@/lib/live-stream-manager';
 import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { useBusCameras } from '@/hooks/use-bus-cameras';
+import { CAMERA_ROLE_LABELS, cameraFeedKey } from '@/lib/bus-cameras';
+import { openLiveVideoSessionAction } from '@/app/actions';
 
 interface LiveStreamViewerProps {
   busId: string;
@@ -13,70 +26,146 @@ interface LiveStreamViewerProps {
   showStats?: boolean;
 }
 
-export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStreamViewerProps) {
+type Transport = 'webrtc' | 'snapshot';
+
+const TILED = 'tiled';
+
+interface CameraStreamProps {
+  feedId: string;
+  title: string;
+  cameraLabel?: string;
+  showStats?: boolean;
+}
+
+/**
+ * One camera's feed; feedId comes from cameraFeedKey()
+ */
+function CameraStream({ feedId, title, cameraLabel, showStats = true }: CameraStreamProps) {
   const [currentFrame, setCurrentFrame] = useState<LiveFeedFrame | null>(null);
   const [isLive, setIsLive] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [transport, setTransport] = useState<Transport | null>(null);
+  const [videoState, setVideoState] = useState<LiveVideoState | null>(null);
+  const [attempt, setAttempt] = useState(0); // Bumped to retry once the bus starts broadcasting
+  const videoRef = useRef<HTMLVideoElement>(null);
 
+  // Prefer real-time video; fall back to snapshots if the peer connection fails
   useEffect(() => {
-    let unsubscribe: (() => void) | undefined;
-    let checkInterval: NodeJS.Timeout;
+    let closeVideo: (() => void) | undefined;
+    let cancelled = false;
 
-    const init = async () => {
-      try {
-        // Check if bus is broadcasting
-        const broadcasting = await isBroadcasting(busId);
-        setIsLive(broadcasting);
+    setLoading(true);
+    setError(null);
+    setTransport(null);
 
-        if (broadcasting) {
-          // Get latest frame first
-          const latestFrame = await getLatestFrame(busId);
-          if (latestFrame) {
-            setCurrentFrame(latestFrame);
-            setLastUpdate(new Date(latestFrame.timestamp));
-          }
+    (async () => {
+      const liveVideo = await isLiveVideoAvailable(feedId);
+      if (cancelled) return;
 
-          // Subscribe to live updates
-          unsubscribe = subscribeLiveFeed(busId, (frame) => {
-            setCurrentFrame(frame);
-            setLastUpdate(new Date(frame.timestamp));
-            setIsLive(true);
-            setError(null);
-          });
+      if (!liveVideo) {
+        const broadcasting = await isBroadcasting(feedId);
+        if (cancelled) return;
+        setIsLive(broadcasting);
+        if (broadcasting) {
+          setTransport('snapshot'); // An older tablet uploading snapshots only
         } else {
           setError('Bus is not currently broadcasting');
+          setLoading(false);
         }
+        return;
+      }
 
-        setLoading(false);
-      } catch (err) {
-        console.error('Error initializing live stream:', err);
-        setError('Failed to load live stream');
-        setLoading(false);
+      setTransport('webrtc');
+      const session = await openLiveVideoSessionAction(feedId);
+      if (cancelled) return;
+      if (!session.success || !session.sessionId) {
+        console.warn(`Live video for ${feedId} unavailable (${session.error}), using snapshots`);
+        setTransport('snapshot');
+        return;
       }
+
+      closeVideo = connectLiveVideo(
+        feedId,
+        session.sessionId,
+        (stream) => {
+          if (videoRef.current) videoRef.current.srcObject = stream;
+        },
+        (state) => {
+          setVideoState(state);
+          if (state === 'connected') {
+            setIsLive(true);
+            setLoading(false);
+            setLastUpdate(new Date());
+          } else if (state === 'failed') {
+            console.warn(`Live video for ${feedId} failed, using snapshots`);
+            setTransport('snapshot');
+          }
+        }
+      );
+    })().catch(err => {
+      console.error('Error initializing live stream:', err);
+      setError('Failed to load live stream');
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+      if (closeVideo) closeVideo();
+      if (videoRef.current) videoRef.current.srcObject = null;
     };
+  }, [feedId, attempt]);
 
-    init();
+  // Snapshot fallback: ask the bus to upload frames and follow them
+  useEffect(() => {
+    if (transport !== 'snapshot') return;
 
-    // Periodically check broadcast status
-    checkInterval = setInterval(async () => {
-      const broadcasting = await isBroadcasting(busId);
-      setIsLive(broadcasting);
-      
-      if (!broadcasting && isLive) {
-        setError('Stream ended');
-      } else if (broadcasting && !isLive) {
-        // Stream started, reinitialize
-        init();
+    const withdraw = requestSnapshotFallback(feedId);
+    getLatestFrame(feedId).then(latestFrame => {
+      if (latestFrame) {
+        setCurrentFrame(latestFrame);
+        setLastUpdate(new Date(latestFrame.timestamp));
       }
-    }, 5000); // Check every 5 seconds
+      setLoading(false);
+    });
+    const unsubscribe = subscribeLiveFeed(feedId, (frame) => {
+      setCurrentFrame(frame);
+      setLastUpdate(new Date(frame.timestamp));
+      setIsLive(true);
+      setError(null);
+      setLoading(false);
+    });
 
     return () => {
-      if (unsubscribe) unsubscribe();
-      clearInterval(checkInterval);
+      unsubscribe();
+      withdraw();
     };
-  }, [busId]);
+  }, [feedId, transport]);
+
+  // Periodically check broadcast status
+  useEffect(() => {
+    const checkInterval = setInterval(async () => {
+      const broadcasting = await isBroadcasting(feedId);
+      setIsLive(broadcasting);
+
+      if (!broadcasting) {
+        setError(prev => prev ?? 'Stream ended');
+      } else if (error) {
+        // Stream started, reconnect
+        setAttempt(prev => prev + 1);
+      }
+    }, 5000); // Check every 5 seconds
+
+    return () => clearInterval(checkInterval);
+  }, [feedId, error]);
+
+  // Live video has no frame timestamps; keep the "updated" counter current
+  useEffect(() => {
+    if (transport !== 'webrtc' || videoState !== 'connected') return;
+    const interval = setInterval(() => setLastUpdate(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, [transport, videoState]);
 
   // Calculate time since last update
   const timeSinceUpdate = lastUpdate 
@@ -93,9 +182,12 @@ export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStrea
             ) : (
               <VideoOff className="h-5 w-5 text-muted-foreground" />
             )}
-            <CardTitle>Live Feed</CardTitle>
+            <CardTitle>{cameraLabel ? `Live Feed · ${cameraLabel}` : 'Live Feed'}</CardTitle>
           </div>
           <div className="flex items-center gap-2">
+            {isLive && transport && (
+              <Badge variant="outline">{transport === 'webrtc' ? 'WebRTC' : 'Snapshot'}</Badge>
+            )}
             {isLive ? (
               <>
                 <Wifi className="h-4 w-4 text-green-600" />
@@ -112,7 +204,7 @@ export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStrea
           </div>
         </div>
         <CardDescription>
-          {busName ? `Bus ${busName}` : `Bus ID: ${busId}`}
+          {title}
           {showStats && lastUpdate && (
             <span className="ml-2 text-xs">
               • Updated {timeSinceUpdate}s ago
@@ -135,7 +227,25 @@ export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStrea
             </div>
           )}
 
-          {currentFrame && !loading && (
+          {/* Kept mounted so the stream can attach before it connects */}
+          {transport === 'webrtc' && (
+            <video
+              ref={videoRef}
+              autoPlay
+              muted
+              playsInline
+              className={`w-full h-full object-cover ${videoState === 'connected' ? '' : 'invisible'}`}
+            />
+          )}
+
+          {transport === 'webrtc' && videoState === 'connected' && isLive && (
+            <div className="absolute top-2 left-2 flex items-center gap-2 bg-red-600/90 text-white px-3 py-1 rounded-md text-sm font-semibold">
+              <div className="w-2 h-2 bg-white rounded-full animate-pulse"></div>
+              LIVE
+            </div>
+          )}
+
+          {transport === 'snapshot' && currentFrame && !loading && (
             <>
               <img
                 src={currentFrame.url}
@@ -178,7 +288,7 @@ export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStrea
             </>
           )}
 
-          {!currentFrame && !loading && !error && (
+          {transport !== 'webrtc' && !currentFrame && !loading && !error && (
             <div className="absolute inset-0 flex flex-col items-center justify-center text-muted-foreground">
               <Video className="h-12 w-12 mb-2" />
               <p className="text-sm">Waiting for stream...</p>
@@ -187,7 +297,7 @@ export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStrea
         </div>
 
         {/* Additional stats */}
-        {showStats && isLive && currentFrame && (
+        {showStats && isLive && transport === 'snapshot' && currentFrame && (
           <div className="mt-4 grid grid-cols-3 gap-2 text-center">
             <div className="p-2 rounded-md bg-muted">
               <p className="text-xs text-muted-foreground">Quality</p>
@@ -207,3 +317,61 @@ export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStrea
     </Card>
   );
 }
+
+/**
+ * Live view of a bus. Buses with several cameras get a camera switcher and
+ * a tiled view of all of them.
+ */
+export function LiveStreamViewer({ busId, busName, showStats = true }: LiveStreamViewerProps) {
+  const cameras = useBusCameras(busId);
+  const [selected, setSelected] = useState<string>(TILED);
+  const title = busName ? `Bus ${busName}` : `Bus ID: ${busId}`;
+
+  if (cameras.length <= 1) {
+    return <CameraStream feedId={cameraFeedKey(busId, cameras[0]?.cameraId)} title={title} showStats={showStats} />;
+  }
+
+  const selectedCamera = cameras.find(camera => camera.cameraId === selected);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={selectedCamera ? 'outline' : 'default'} onClick={() => setSelected(TILED)}>
+          <LayoutGrid className="h-4 w-4 mr-1" />All cameras
+        </Button>
+        {cameras.map(camera => (
+          <Button
+            key={camera.cameraId}
+            size="sm"
+            variant={camera.cameraId === selectedCamera?.cameraId ? 'default' : 'outline'}
+            onClick={() => setSelected(camera.cameraId)}
+            title={CAMERA_ROLE_LABELS[camera.role]}
+          >
+            {camera.label}
+          </Button>
+        ))}
+      </div>
+      {selectedCamera ? (
+        <CameraStream
+          key={selectedCamera.cameraId}
+          feedId={cameraFeedKey(busId, selectedCamera.cameraId)}
+          title={title}
+          cameraLabel={selectedCamera.label}
+          showStats={showStats}
+        />
+      ) : (
+        <div className="grid grid-cols-1 gap-2 lg:grid-cols-2">
+          {cameras.map(camera => (
+            <CameraStream
+              key={camera.cameraId}
+              feedId={cameraFeedKey(busId, camera.cameraId)}
+              title={CAMERA_ROLE_LABELS[camera.role]}
+              cameraLabel={camera.label}
+              showStats={false}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
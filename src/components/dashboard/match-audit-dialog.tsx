@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { FileSearch, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { ScrollArea } from '../ui/scroll-area';
+import { loadMatchDecision, type MatchDecisionRecord } from '@/lib/match-audit';
+import type { MatchExplanation } from '@/lib/face-detection-client';
+import { OriginalSnapshotDialog } from './original-snapshot-dialog';
+
+interface MatchAuditDialogProps {
+    date: string; // yyyy-MM-dd of the attendance record
+    studentId: string;
+    decisionId: string;
+    label: string;
+}
+
+const ANGLE_LABELS = ['Front', 'Right', 'Left', 'Up', 'Down'];
+
+const OUTCOME_LABELS: Record<MatchExplanation['outcome'], string> = {
+    'matched': 'Matched',
+    'potential': 'Potential match (needs review)',
+    'ambiguous': 'Rejected: too close to the runner-up',
+    'inconsistent': 'Rejected: inconsistent across angles',
+    'no-match': 'No match',
+};
+
+const percent = (value: number | null | undefined) =>
+    value === null || value === undefined ? 'N/A' : `${(value * 100).toFixed(1)}%`;
+
+function RuleRow({ name, passed, detail }: { name: string; passed: boolean | null; detail: string }) {
+    return (
+        <div className="flex items-center justify-between gap-2 text-sm">
+            <span>{name}</span>
+            <span className="flex items-center gap-2 text-muted-foreground">
+                {detail}
+                <Badge variant={passed === null ? 'outline' : passed ? 'secondary' : 'destructive'}>
+                    {passed === null ? 'n/a' : passed ? 'passed' : 'failed'}
+                </Badge>
+            </span>
+        </div>
+    );
+}
+
+/**
+ * Shows why the recognition pipeline committed an attendance record
+ */
+export function MatchAuditDialog({ date, studentId, decisionId, label }: MatchAuditDialogProps) {
+    const [record, setRecord] = useState<MatchDecisionRecord | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleOpenChange = async (open: boolean) => {
+        if (!open || record) return;
+        setIsLoading(true);
+        setError(null);
+        try {
+            const loaded = await loadMatchDecision(date, studentId, decisionId);
+            if (!loaded) setError('The decision record could not be found.');
+            setRecord(loaded);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const explanation = record?.explanation;
+
+    return (
+        <Dialog onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs">
+                    <FileSearch className="h-3 w-3 mr-1" />{label}
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[720px]">
+                <DialogHeader>
+                    <DialogTitle>Recognition Decision</DialogTitle>
+                    <DialogDescription>
+                        {record
+                            ? `${record.kind === 'boarding' ? 'Marked On Board' : 'Exit recorded'} for ${record.studentName} on ${record.busId.replace('_', '-')} at ${format(new Date(record.decidedAt), 'PPpp')}.`
+                            : 'Evidence behind an automatic attendance record.'}
+                    </DialogDescription>
+                </DialogHeader>
+                {isLoading && <Loader2 className="h-6 w-6 animate-spin mx-auto" />}
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                {record && explanation && (
+                    <ScrollArea className="max-h-[70vh] pr-4">
+                        <div className="space-y-4">
+                            <div className="flex gap-4">
+                                <Image
+                                    src={record.snapshotUrl}
+                                    alt={`Snapshot of ${record.studentName}`}
+                                    width={160}
+                                    height={120}
+                                    className="rounded-md object-cover"
+                                />
+                                <div className="space-y-1 text-sm">
+                                    <p className="font-semibold">{OUTCOME_LABELS[explanation.outcome]}</p>
+                                    <p>Acted on similarity {percent(record.committedConfidence)} ({explanation.confidenceBand || 'none'} confidence)</p>
+                                    <p className="text-muted-foreground">
+                                        Model {explanation.modelVersion} · {record.pipeline === 'on-device' ? 'On-device' : 'Main-thread'} recognition · track {record.tracking.trackId}
+                                    </p>
+                                    <p className="text-muted-foreground">
+                                        Liveness: {record.tracking.liveness
+                                            ? `${record.tracking.liveness.verdict}${record.tracking.liveness.reason ? ` (${record.tracking.liveness.reason})` : ''}`
+                                            : 'not measured'}
+                                    </p>
+                                    {!record.reproduced && (
+                                        <Badge variant="destructive">Re-scoring did not reach the same student</Badge>
+                                    )}
+                                    {record.originalSnapshot && (
+                                        <OriginalSnapshotDialog
+                                            original={record.originalSnapshot}
+                                            description="Other riders are blurred in the stored snapshot."
+                                        />
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="space-y-2 rounded-md border p-3">
+                                <p className="text-sm font-semibold">Rules applied</p>
+                                <RuleRow
+                                    name="Gap rule"
+                                    passed={explanation.gapRule.gap === null ? null : explanation.gapRule.passed}
+                                    detail={explanation.gapRule.skipped
+                                        ? `skipped above ${percent(explanation.thresholds.UNAMBIGUOUS_SIMILARITY)}`
+                                        : `lead ${percent(explanation.gapRule.gap)}, needs ${percent(explanation.thresholds.AMBIGUITY_GAP)}`}
+                                />
+                                <RuleRow
+                                    name="Multi-angle rule"
+                                    passed={explanation.multiAngleRule.passed}
+                                    detail={`needs ${explanation.thresholds.MIN_MATCHING_ANGLES} angles above ${percent(explanation.thresholds.LOW_CONFIDENCE)}`}
+                                />
+                                <RuleRow
+                                    name="Angle consistency"
+                                    passed={explanation.consistencyRule.averageSimilarity === null ? null : explanation.consistencyRule.passed}
+                                    detail={`average ${percent(explanation.consistencyRule.averageSimilarity)}`}
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Thresholds: high {percent(explanation.thresholds.HIGH_CONFIDENCE)}, medium {percent(explanation.thresholds.MEDIUM_CONFIDENCE)}, minimum {percent(explanation.thresholds.LOW_CONFIDENCE)}
+                                </p>
+                            </div>
+
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Candidate</TableHead>
+                                        <TableHead>Best</TableHead>
+                                        <TableHead>Per angle</TableHead>
+                                        <TableHead>Eligible</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {explanation.candidates.map(candidate => (
+                                        <TableRow key={candidate.studentId}>
+                                            <TableCell className="font-medium">{candidate.studentName}</TableCell>
+                                            <TableCell>{percent(candidate.similarity)}</TableCell>
+                                            <TableCell className="text-xs text-muted-foreground">
+                                                {candidate.angleScores
+                                                    .map(score => `${ANGLE_LABELS[score.angle] || `Angle ${score.angle}`} ${percent(score.similarity)}`)
+                                                    .join(' · ')}
+                                            </TableCell>
+                                            <TableCell>{candidate.eligible ? 'Yes' : 'No'}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </ScrollArea>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
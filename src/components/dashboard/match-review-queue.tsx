@@ -0,0 +1,227 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { UserSearch, UserCheck, UserX, Loader2 } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue, query, orderByChild, equalTo, push, set, update } from 'firebase/database';
+import Image from 'next/image';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { isCurrentModelVersion } from '@/lib/face-descriptor';
+import type { CandidateMatch } from '@/lib/face-detection-client';
+import { clusterIntruderAlertsAction } from '@/app/actions';
+
+export interface MatchReview {
+    id: string;
+    snapshotUrl: string; // Data URI
+    timestamp: string;
+    faceUid: string;
+    busId: string;
+    candidates: CandidateMatch[];
+    embedding: number[] | null;
+    modelVersion: string;
+    status: 'pending' | 'confirmed' | 'unknown';
+    resolvedBy?: string;
+    resolvedAt?: string;
+    confirmedStudentId?: string;
+}
+
+interface MatchReviewQueueProps {
+    busId: string;
+    staffName: string;
+}
+
+export function MatchReviewQueue({ busId, staffName }: MatchReviewQueueProps) {
+    const [reviews, setReviews] = useState<MatchReview[]>([]);
+    const [resolvingId, setResolvingId] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    useEffect(() => {
+        const reviewsRef = ref(db, `matchReviews/${busId}`);
+        const pendingQuery = query(reviewsRef, orderByChild('status'), equalTo('pending'));
+
+        const unsubscribe = onValue(pendingQuery, (snapshot) => {
+            const data = snapshot.val();
+            if (data) {
+                const loadedReviews: MatchReview[] = Object.keys(data).map(key => ({
+                    id: key,
+                    ...data[key]
+                })).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+                setReviews(loadedReviews);
+            } else {
+                setReviews([]);
+            }
+        });
+
+        return () => unsubscribe();
+    }, [busId]);
+
+    const confirmStudent = async (review: MatchReview, candidate: CandidateMatch) => {
+        setResolvingId(review.id);
+        try {
+            const now = Date.now();
+            const today = format(new Date(), 'yyyy-MM-dd');
+
+            await update(ref(db, `attendance/${today}/${candidate.studentId}`), {
+                status: 'On Board',
+                entry: format(new Date(), 'hh:mm a'),
+                decisionId: null, // Decided by staff, not by the camera
+                source: 'StaffConfirmedMatch'
+            });
+
+            await set(ref(db, `studentEvents/${candidate.studentId}`), {
+                latestSnapshotUrl: review.snapshotUrl,
+                timestamp: new Date().toISOString(),
+                eventType: 'OnboardRecognition'
+            });
+
+            // ADAPTIVE LEARNING: a staff-confirmed sample is exactly the kind of
+            // hard real-world example the stored embeddings are missing
+            if (review.embedding && isCurrentModelVersion(review.modelVersion)) {
+                await set(ref(db, `recognitionHistory/${candidate.studentId}/${now}`), {
+                    embedding: review.embedding,
+                    similarity: candidate.confidence,
+                    modelVersion: review.modelVersion,
+                    timestamp: new Date().toISOString(),
+                    snapshotUrl: review.snapshotUrl,
+                    busId: busId,
+                    source: 'StaffConfirmedMatch'
+                });
+            }
+
+            await update(ref(db, `matchReviews/${busId}/${review.id}`), {
+                status: 'confirmed',
+                confirmedStudentId: candidate.studentId,
+                resolvedBy: staffName,
+                resolvedAt: new Date().toISOString()
+            });
+
+            toast({
+                title: `Confirmed: ${candidate.studentName}`,
+                description: 'Attendance marked as "On Board".',
+            });
+        } catch (error) {
+            console.error('Error confirming potential match:', error);
+            toast({
+                variant: 'destructive',
+                title: 'Update Failed',
+                description: 'Could not confirm the match. Please check your connection.'
+            });
+        } finally {
+            setResolvingId(null);
+        }
+    };
+
+    const markUnknown = async (review: MatchReview) => {
+        setResolvingId(review.id);
+        try {
+            // Staff say this is none of the candidates: raise it as an intruder
+            await set(push(ref(db, 'intruderAlerts')), {
+                snapshotUrl: review.snapshotUrl,
+                timestamp: new Date().toISOString(),
+                faceUid: review.faceUid,
+                busId: busId,
+                matchConfidence: review.candidates[0]?.confidence || 0,
+                isPotentialMatch: false,
+                potentialMatches: [],
+                reviewId: review.id,
+                embedding: review.embedding,
+                modelVersion: review.modelVersion
+            });
+            clusterIntruderAlertsAction().catch(err => console.error('Failed to cluster intruder alert:', err));
+
+            await update(ref(db, `matchReviews/${busId}/${review.id}`), {
+                status: 'unknown',
+                resolvedBy: staffName,
+                resolvedAt: new Date().toISOString()
+            });
+
+            toast({
+                variant: 'destructive',
+                title: 'Marked as Unknown',
+                description: 'An intruder alert has been sent to the admin dashboard.',
+            });
+        } catch (error) {
+            console.error('Error marking potential match as unknown:', error);
+            toast({
+                variant: 'destructive',
+                title: 'Update Failed',
+                description: 'Could not update the review. Please check your connection.'
+            });
+        } finally {
+            setResolvingId(null);
+        }
+    };
+
+    // Only take up space on the dashboard when something needs a decision
+    if (reviews.length === 0) {
+        return null;
+    }
+
+    return (
+        <Card className="border-amber-300">
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <UserSearch className="h-5 w-5 text-amber-600" />
+                    <CardTitle>Review Potential Matches</CardTitle>
+                    <Badge variant="secondary">{reviews.length}</Badge>
+                </div>
+                <CardDescription>The camera is not sure who these people are. Tap the right student, or mark them as unknown.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {reviews.map(review => {
+                    const isResolving = resolvingId === review.id;
+                    return (
+                        <div key={review.id} className="flex flex-col sm:flex-row gap-4 p-3 rounded-md border bg-amber-50/50 dark:bg-amber-950/20">
+                            <Image
+                                src={review.snapshotUrl}
+                                alt="Snapshot of unconfirmed person"
+                                width={96}
+                                height={96}
+                                className="rounded-md object-cover aspect-square"
+                            />
+                            <div className="flex-1 space-y-2">
+                                <p className="text-xs text-muted-foreground">
+                                    {formatDistanceToNow(new Date(review.timestamp), { addSuffix: true })}
+                                </p>
+                                <div className="flex flex-wrap gap-2">
+                                    {review.candidates.map(candidate => (
+                                        <Button
+                                            key={candidate.studentId}
+                                            size="sm"
+                                            variant="outline"
+                                            className="bg-green-100 hover:bg-green-200"
+                                            disabled={isResolving}
+                                            onClick={() => confirmStudent(review, candidate)}
+                                        >
+                                            <UserCheck className="h-4 w-4 mr-2 text-green-700" />
+                                            {candidate.studentName}
+                                            <span className="ml-2 text-xs text-muted-foreground">{Math.round(candidate.confidence * 100)}%</span>
+                                        </Button>
+                                    ))}
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="bg-red-100 hover:bg-red-200"
+                                        disabled={isResolving}
+                                        onClick={() => markUnknown(review)}
+                                    >
+                                        {isResolving ? (
+                                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                        ) : (
+                                            <UserX className="h-4 w-4 mr-2 text-red-700" />
+                                        )}
+                                        Unknown
+                                    </Button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
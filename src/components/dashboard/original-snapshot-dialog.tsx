@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { formatDistanceToNow } from 'date-fns';
+import { Eye, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { viewOriginalSnapshotAction } from '@/app/actions';
+import type { RestrictedSnapshotRef } from '@/ai/flows/restricted-snapshots';
+
+interface OriginalSnapshotDialogProps {
+    original: RestrictedSnapshotRef;
+    description: string;
+}
+
+/**
+ * Opens the unredacted snapshot of an alert after the admin gives a reason.
+ * Nothing is shown once the original has expired.
+ */
+export function OriginalSnapshotDialog({ original, description }: OriginalSnapshotDialogProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [reason, setReason] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const [snapshotUrl, setSnapshotUrl] = useState<string | null>(null);
+    const { toast } = useToast();
+
+    if (original.expiresAt <= Date.now()) return null;
+
+    const handleOpenChange = (open: boolean) => {
+        setIsOpen(open);
+        if (!open) {
+            // Never keep an original around after the dialog closes
+            setSnapshotUrl(null);
+            setReason('');
+        }
+    };
+
+    const handleView = async () => {
+        setIsLoading(true);
+        const result = await viewOriginalSnapshotAction(original.id, reason);
+        setIsLoading(false);
+
+        if (result.success && result.snapshotUrl) {
+            setSnapshotUrl(result.snapshotUrl);
+        } else {
+            toast({
+                variant: 'destructive',
+                title: 'Original Unavailable',
+                description: result.error || 'An unknown error occurred.',
+            });
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+            <DialogTrigger asChild>
+                <Button size="sm" variant="ghost" className="h-6 px-2 text-xs">
+                    <Eye className="h-3 w-3 mr-1" />Original
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[640px]">
+                <DialogHeader>
+                    <DialogTitle>Unredacted Snapshot</DialogTitle>
+                    <DialogDescription>
+                        {description} Other faces are visible in the original, so every view is logged with your reason.
+                        It is deleted {formatDistanceToNow(new Date(original.expiresAt), { addSuffix: true })}.
+                    </DialogDescription>
+                </DialogHeader>
+                {snapshotUrl ? (
+                    <Image
+                        src={snapshotUrl}
+                        alt="Unredacted snapshot"
+                        width={640}
+                        height={480}
+                        className="rounded-md w-full h-auto"
+                    />
+                ) : (
+                    <div className="space-y-3">
+                        <div className="space-y-1">
+                            <Label htmlFor="original-snapshot-reason">Reason for viewing</Label>
+                            <Input
+                                id="original-snapshot-reason"
+                                placeholder="e.g., Identifying the adult for a police report"
+                                value={reason}
+                                onChange={(event) => setReason(event.target.value)}
+                            />
+                        </div>
+                        <Button onClick={handleView} disabled={isLoading || !reason.trim()}>
+                            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'View Original'}
+                        </Button>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue, query, limitToLast } from 'firebase/database';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { updateRecognitionPolicyAction } from '@/app/actions';
+import {
+    recognitionPolicyPath,
+    resolveRecognitionPolicy,
+    type RecognitionPolicy,
+    type RecognitionPolicyChange,
+    type RecognitionPolicyOverrides,
+} from '@/lib/recognition-policy';
+
+interface PolicyField {
+    path: string;  // e.g. 'thresholds.HIGH_CONFIDENCE'
+    label: string;
+    unit: string;
+    scale: number; // Stored value = entered value * scale
+    step: number;
+}
+
+const POLICY_FIELDS: PolicyField[] = [
+    { path: 'thresholds.HIGH_CONFIDENCE', label: 'Match similarity', unit: '', scale: 1, step: 0.01 },
+    { path: 'thresholds.MEDIUM_CONFIDENCE', label: 'Potential match similarity', unit: '', scale: 1, step: 0.01 },
+    { path: 'thresholds.LOW_CONFIDENCE', label: 'Minimum similarity', unit: '', scale: 1, step: 0.01 },
+    { path: 'thresholds.AMBIGUITY_GAP', label: 'Required lead over runner-up', unit: '', scale: 1, step: 0.01 },
+    { path: 'thresholds.UNAMBIGUOUS_SIMILARITY', label: 'Skip lead check above', unit: '', scale: 1, step: 0.01 },
+    { path: 'thresholds.MIN_MATCHING_ANGLES', label: 'Matching angles required', unit: '', scale: 1, step: 1 },
+    { path: 'minFaceSizePx', label: 'Minimum face size', unit: 'px', scale: 1, step: 1 },
+    { path: 'minFaceAreaRatio', label: 'Minimum face area', unit: '% of image', scale: 0.01, step: 0.5 },
+    { path: 'recognitionCooldownMs', label: 'Re-recognition cooldown', unit: 's', scale: 1000, step: 5 },
+    { path: 'intruderCooldownMs', label: 'Intruder alert cooldown', unit: 's', scale: 1000, step: 30 },
+    { path: 'drawFps', label: 'Feed redraw rate', unit: 'fps', scale: 1, step: 1 },
+];
+
+const SCHOOL_SCOPE = 'school';
+
+function readField(source: RecognitionPolicyOverrides | RecognitionPolicy | null, path: string): number | undefined {
+    const [head, tail] = path.split('.');
+    const value = tail ? (source as any)?.[head]?.[tail] : (source as any)?.[head];
+    return typeof value === 'number' ? value : undefined;
+}
+
+function toOverrides(values: Record<string, string>): RecognitionPolicyOverrides {
+    const overrides: RecognitionPolicyOverrides = {};
+    for (const field of POLICY_FIELDS) {
+        const raw = values[field.path];
+        if (raw === undefined || raw.trim() === '') continue;
+        // Round away float noise from the unit conversion
+        const value = Math.round(Number(raw) * field.scale * 1e6) / 1e6;
+        const [head, tail] = field.path.split('.');
+        if (tail) {
+            overrides.thresholds = { ...overrides.thresholds, [tail]: value };
+        } else {
+            (overrides as any)[head] = value;
+        }
+    }
+    return overrides;
+}
+
+/**
+ * Admin editor for the recognition policy: school-wide values and per-bus
+ * overrides. Empty fields inherit from the level above.
+ */
+export function RecognitionPolicyCard() {
+    const [busIds, setBusIds] = useState<string[]>([]);
+    const [scope, setScope] = useState<string>(SCHOOL_SCOPE);
+    const [schoolOverrides, setSchoolOverrides] = useState<RecognitionPolicyOverrides | null>(null);
+    const [busOverrides, setBusOverrides] = useState<RecognitionPolicyOverrides | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [recentChanges, setRecentChanges] = useState<RecognitionPolicyChange[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const { toast } = useToast();
+
+    const busId = scope === SCHOOL_SCOPE ? null : scope;
+    const stored = busId ? busOverrides : schoolOverrides;
+    // What an empty field falls back to
+    const inherited = resolveRecognitionPolicy(busId ? schoolOverrides : null);
+
+    useEffect(() => {
+        const unsubscribeBuses = onValue(ref(db, 'buses'), (snapshot) => {
+            setBusIds(Object.keys(snapshot.val() || {}).sort());
+        });
+        const unsubscribeSchool = onValue(ref(db, recognitionPolicyPath('school')), (snapshot) => {
+            setSchoolOverrides(snapshot.val());
+        });
+        const unsubscribeAudit = onValue(query(ref(db, 'recognitionPolicyAudit'), limitToLast(5)), (snapshot) => {
+            setRecentChanges((Object.values(snapshot.val() || {}) as RecognitionPolicyChange[]).reverse());
+        });
+        return () => {
+            unsubscribeBuses();
+            unsubscribeSchool();
+            unsubscribeAudit();
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!busId) {
+            setBusOverrides(null);
+            return;
+        }
+        const unsubscribe = onValue(ref(db, recognitionPolicyPath('bus', busId)), (snapshot) => {
+            setBusOverrides(snapshot.val());
+        });
+        return () => unsubscribe();
+    }, [busId]);
+
+    // Load the stored overrides of the selected scope into the form
+    useEffect(() => {
+        const next: Record<string, string> = {};
+        for (const field of POLICY_FIELDS) {
+            const value = readField(stored, field.path);
+            next[field.path] = value === undefined ? '' : String(value / field.scale);
+        }
+        setValues(next);
+    }, [stored]);
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        const result = await updateRecognitionPolicyAction(busId ? 'bus' : 'school', busId, toOverrides(values));
+        setIsSaving(false);
+
+        if (result.success) {
+            toast({
+                title: 'Recognition Policy Saved',
+                description: `${result.change?.changes.length ?? 0} setting(s) changed for ${busId ? busId.replace('_', '-') : 'the whole school'}.`,
+            });
+        } else {
+            toast({
+                variant: 'destructive',
+                title: 'Policy Not Saved',
+                description: result.error || 'An unknown error occurred.',
+            });
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <SlidersHorizontal className="h-5 w-5" />
+                    <CardTitle>Recognition Policy</CardTitle>
+                </div>
+                <CardDescription>
+                    Matching thresholds, face size limits, alert cooldowns and feed rate. Bus cameras pick up changes immediately.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex items-end gap-4">
+                    <div className="space-y-1">
+                        <Label>Applies to</Label>
+                        <Select value={scope} onValueChange={setScope}>
+                            <SelectTrigger className="w-[200px]">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={SCHOOL_SCOPE}>Whole school</SelectItem>
+                                {busIds.map(id => (
+                                    <SelectItem key={id} value={id}>{id.replace('_', '-')} override</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                </div>
+
+                <div className="grid gap-3 sm:grid-cols-2">
+                    {POLICY_FIELDS.map(field => {
+                        const fallback = readField(inherited, field.path);
+                        return (
+                            <div key={field.path} className="space-y-1">
+                                <Label htmlFor={`policy-${field.path}`}>
+                                    {field.label}{field.unit && ` (${field.unit})`}
+                                </Label>
+                                <Input
+                                    id={`policy-${field.path}`}
+                                    type="number"
+                                    step={field.step}
+                                    placeholder={fallback === undefined ? '' : `Inherit: ${fallback / field.scale}`}
+                                    value={values[field.path] ?? ''}
+                                    onChange={(event) => setValues(prev => ({ ...prev, [field.path]: event.target.value }))}
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Policy'}
+                </Button>
+
+                {recentChanges.length > 0 && (
+                    <div className="space-y-2 border-t pt-4">
+                        <p className="text-sm font-semibold">Recent changes</p>
+                        {recentChanges.map(change => (
+                            <div key={`${change.changedAt}-${change.scope}-${change.busId}`} className="text-xs text-muted-foreground">
+                                <span className="font-medium text-foreground">{change.changedBy}</span>
+                                {' '}changed {change.busId ? change.busId.replace('_', '-') : 'school'} policy{' '}
+                                {formatDistanceToNow(new Date(change.changedAt), { addSuffix: true })}:{' '}
+                                {(change.changes || []).length > 0
+                                    ? change.changes.map(c => `${c.field} ${c.from ?? 'inherit'} → ${c.to ?? 'inherit'}`).join(', ')
+                                    : 'no changes'}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ScanFace, ShieldCheck } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue, query, orderByChild, limitToLast } from 'firebase/database';
+import Image from 'next/image';
+import { formatDistanceToNow } from 'date-fns';
+import { ScrollArea } from '../ui/scroll-area';
+import { Badge } from '../ui/badge';
+import type { RestrictedSnapshotRef } from '@/ai/flows/restricted-snapshots';
+import { OriginalSnapshotDialog } from './original-snapshot-dialog';
+
+interface SpoofAlert {
+    id: string;
+    snapshotUrl: string; // Data URI
+    timestamp: string;
+    busId: string;
+    reason: 'texture' | 'screen' | 'no-motion' | 'unknown';
+    claimedName: string | null;
+    originalSnapshot?: RestrictedSnapshotRef | null; // Unredacted frame, until it expires
+}
+
+const REASON_LABELS: Record<SpoofAlert['reason'], string> = {
+    'screen': 'Screen detected',
+    'texture': 'Printed photo',
+    'no-motion': 'No head movement',
+    'unknown': 'Failed liveness',
+};
+
+export function SpoofAlertsCard() {
+    const [alerts, setAlerts] = useState<SpoofAlert[]>([]);
+
+    useEffect(() => {
+        const alertsRef = ref(db, 'spoofAlerts');
+        const recentAlertsQuery = query(alertsRef, orderByChild('timestamp'), limitToLast(10));
+
+        const unsubscribe = onValue(recentAlertsQuery, (snapshot) => {
+            const data = snapshot.val();
+            if (data) {
+                const loadedAlerts: SpoofAlert[] = Object.keys(data).map(key => ({
+                    id: key,
+                    ...data[key]
+                })).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+                setAlerts(loadedAlerts);
+            } else {
+                setAlerts([]);
+            }
+        });
+
+        return () => unsubscribe();
+    }, []);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <ScanFace className="h-5 w-5 text-purple-600" />
+                    <CardTitle>Spoof Attempts</CardTitle>
+                </div>
+                <CardDescription>Photos or screens held up to a bus camera.</CardDescription>
+            </CardHeader>
+            <CardContent>
+                <ScrollArea className="h-[250px] w-full">
+                    {alerts.length > 0 ? (
+                        <div className="space-y-4">
+                            {alerts.map(alert => (
+                                <div key={alert.id} className="flex items-center gap-4 p-2 rounded-md border border-purple-300 bg-purple-50 dark:bg-purple-950/20">
+                                    <Image
+                                        src={alert.snapshotUrl}
+                                        alt={`Spoof attempt snapshot from ${alert.busId}`}
+                                        width={64}
+                                        height={64}
+                                        className="rounded-md object-cover aspect-square"
+                                    />
+                                    <div className="text-sm">
+                                        <p className="font-semibold text-purple-700 dark:text-purple-300">
+                                            {alert.claimedName ? `Posing as ${alert.claimedName}` : 'Unidentified spoof'}
+                                        </p>
+                                        <p className="text-muted-foreground">
+                                            {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })} · {REASON_LABELS[alert.reason] || REASON_LABELS.unknown}
+                                        </p>
+                                        <div className="flex items-center gap-2 mt-1">
+                                            <Badge variant="outline">{alert.busId.replace('_', '-')}</Badge>
+                                            {alert.originalSnapshot && (
+                                                <OriginalSnapshotDialog
+                                                    original={alert.originalSnapshot}
+                                                    description="Recognised students are blurred in the alert snapshot."
+                                                />
+                                            )}
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
+                            <ShieldCheck className="h-8 w-8 mb-2" />
+                            <p className="text-sm">No spoof attempts.</p>
+                        </div>
+                    )}
+                </ScrollArea>
+            </CardContent>
+        </Card>
+    );
+}
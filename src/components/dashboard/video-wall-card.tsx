@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { MonitorPlay, VideoOff, X } from "lucide-react";
+import { db } from '@/lib/firebase';
+import { ref, onValue, onChildAdded, query, orderByChild, startAt } from 'firebase/database';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import {
+    getBroadcastStats,
+    getLatestFrame,
+    requestSnapshotFallback,
+    subscribeLiveFeed,
+    type LiveFeedFrame,
+} from '@/lib/live-stream-manager';
+import { busCameraList, cameraFeedKey, leadCameraId } from '@/lib/bus-cameras';
+import { incidentPath, type BusIncident } from '@/lib/incident-clips';
+import { LiveStreamViewer } from './live-stream-viewer';
+
+type FeedHealth = 'webrtc' | 'snapshot' | 'delayed' | 'offline';
+
+interface WallBus {
+    busId: string;
+    name: string;
+    feedId: string; // The lead camera's feed
+}
+
+interface Promotion {
+    reason: 'intruder' | 'emergency';
+    at: number;
+}
+
+type BroadcastStats = Awaited<ReturnType<typeof getBroadcastStats>>;
+
+const STATS_POLL_MS = 15 * 1000;
+const DELAYED_AFTER_MS = 30 * 1000; // Snapshots older than this mean the feed is struggling
+const PROMOTION_MS = 5 * 60 * 1000;
+const THUMBNAIL_INTERVAL_MS = 10 * 1000;
+const SLOW_THUMBNAIL_INTERVAL_MS = 30 * 1000;
+
+const HEALTH_BADGES: Record<FeedHealth, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+    'webrtc': { label: 'Live video', variant: 'default' },
+    'snapshot': { label: 'Snapshots', variant: 'secondary' },
+    'delayed': { label: 'Delayed', variant: 'destructive' },
+    'offline': { label: 'Offline', variant: 'outline' },
+};
+
+function healthOf(stats: BroadcastStats | undefined): FeedHealth {
+    if (!stats) return 'offline';
+    if (stats.transport === 'webrtc') return 'webrtc';
+    if (stats.isActive) return 'snapshot';
+    if (stats.timeSinceLastFrame !== null && stats.timeSinceLastFrame < DELAYED_AFTER_MS) return 'delayed';
+    return 'offline';
+}
+
+/**
+ * Thumbnail refresh this admin's connection can afford
+ */
+function thumbnailInterval(): number {
+    const connection = (navigator as Navigator & { connection?: { saveData?: boolean; effectiveType?: string } }).connection;
+    const slow = connection?.saveData || ['slow-2g', '2g', '3g'].includes(connection?.effectiveType || '');
+    return slow ? SLOW_THUMBNAIL_INTERVAL_MS : THUMBNAIL_INTERVAL_MS;
+}
+
+/**
+ * Low-rate snapshot of a feed. Asks the bus for snapshots instead of opening
+ * a video connection per tile.
+ */
+function FeedThumbnail({ feedId }: { feedId: string }) {
+    const [frame, setFrame] = useState<LiveFeedFrame | null>(null);
+
+    useEffect(() => {
+        const withdraw = requestSnapshotFallback(feedId, thumbnailInterval());
+        getLatestFrame(feedId).then(latest => { if (latest) setFrame(latest); });
+        const unsubscribe = subscribeLiveFeed(feedId, setFrame);
+        return () => {
+            unsubscribe();
+            withdraw();
+        };
+    }, [feedId]);
+
+    return frame ? (
+        <img src={frame.url} alt="Bus camera thumbnail" className="w-full h-full object-cover" loading="lazy" />
+    ) : (
+        <div className="flex h-full items-center justify-center text-muted-foreground text-xs">Waiting for snapshot...</div>
+    );
+}
+
+/**
+ * Fleet monitoring wall: every broadcasting bus as a thumbnail with its feed
+ * health. Buses raising an intruder or emergency alert move to the front;
+ * clicking a tile opens its full live view.
+ */
+export function VideoWallCard() {
+    const [buses, setBuses] = useState<WallBus[]>([]);
+    const [stats, setStats] = useState<Record<string, BroadcastStats>>({});
+    const [promotions, setPromotions] = useState<Record<string, Promotion>>({});
+    const [focusedBusId, setFocusedBusId] = useState<string | null>(null);
+    const mountedAtRef = useRef(new Date().toISOString());
+
+    useEffect(() => {
+        const unsubscribe = onValue(ref(db, 'buses'), (snapshot) => {
+            const data: Record<string, any> = snapshot.val() || {};
+            setBuses(Object.entries(data).map(([busId, bus]) => ({
+                busId,
+                name: bus?.name || busId.replace('_', '-'),
+                feedId: cameraFeedKey(busId, leadCameraId(busCameraList(bus?.cameras))),
+            })).sort((a, b) => a.name.localeCompare(b.name)));
+        });
+        return () => unsubscribe();
+    }, []);
+
+    // Feed health, polled one bus at a time
+    useEffect(() => {
+        if (buses.length === 0) return;
+        let cancelled = false;
+        const poll = async () => {
+            for (const bus of buses) {
+                const busStats = await getBroadcastStats(bus.feedId);
+                if (cancelled) return;
+                setStats(prev => ({ ...prev, [bus.busId]: busStats }));
+            }
+        };
+        poll();
+        const interval = setInterval(poll, STATS_POLL_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [buses]);
+
+    const promote = useCallback((busId: string, reason: Promotion['reason']) => {
+        console.log(`🖥️ Video wall: promoting ${busId} (${reason})`);
+        setPromotions(prev => ({ ...prev, [busId]: { reason, at: Date.now() } }));
+    }, []);
+
+    // Alerts raised after the wall opened promote their bus
+    useEffect(() => {
+        const since = mountedAtRef.current;
+        const unsubscribeIntruders = onChildAdded(
+            query(ref(db, 'intruderAlerts'), orderByChild('timestamp'), startAt(since)),
+            (snapshot) => {
+                const alert = snapshot.val();
+                if (alert?.busId) promote(alert.busId, 'intruder');
+            }
+        );
+        const unsubscribeIncidents = buses.map(bus => onChildAdded(
+            query(ref(db, incidentPath(bus.busId)), orderByChild('timestamp'), startAt(since)),
+            (snapshot) => {
+                const incident: BusIncident = snapshot.val();
+                if (incident?.kind === 'panic') promote(bus.busId, 'emergency');
+            }
+        ));
+        return () => {
+            unsubscribeIntruders();
+            unsubscribeIncidents.forEach(unsubscribe => unsubscribe());
+        };
+    }, [buses, promote]);
+
+    // Promotions lapse after a few minutes
+    useEffect(() => {
+        const interval = setInterval(() => {
+            setPromotions(prev => Object.fromEntries(
+                Object.entries(prev).filter(([, promotion]) => Date.now() - promotion.at < PROMOTION_MS)
+            ));
+        }, 30 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const tiles = buses
+        .filter(bus => promotions[bus.busId] || healthOf(stats[bus.busId]) !== 'offline')
+        .sort((a, b) => (promotions[b.busId]?.at ?? 0) - (promotions[a.busId]?.at ?? 0));
+    const offline = buses.filter(bus => !tiles.includes(bus));
+    const focused = buses.find(bus => bus.busId === focusedBusId);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <MonitorPlay className="h-5 w-5 text-primary" />
+                    <CardTitle>Video Wall</CardTitle>
+                </div>
+                <CardDescription>
+                    {tiles.length} of {buses.length} buses broadcasting. Buses with an intruder or emergency alert move to the front. Click a bus to watch it live.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {focused && (
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <p className="text-sm font-semibold">{focused.name}</p>
+                            <Button size="sm" variant="ghost" onClick={() => setFocusedBusId(null)}>
+                                <X className="h-4 w-4 mr-1" />Close
+                            </Button>
+                        </div>
+                        <LiveStreamViewer busId={focused.busId} busName={focused.name} />
+                    </div>
+                )}
+
+                {tiles.length > 0 ? (
+                    <div className="grid grid-cols-2 gap-2 md:grid-cols-3 xl:grid-cols-4">
+                        {tiles.map(bus => {
+                            const promotion = promotions[bus.busId];
+                            const health = healthOf(stats[bus.busId]);
+                            const isFocused = bus.busId === focusedBusId;
+                            return (
+                                <button
+                                    key={bus.busId}
+                                    type="button"
+                                    onClick={() => setFocusedBusId(isFocused ? null : bus.busId)}
+                                    className={`relative aspect-video overflow-hidden rounded-md border bg-black/5 text-left ${
+                                        promotion ? 'col-span-2 row-span-2 ring-2 ring-destructive' : ''
+                                    } ${isFocused ? 'ring-2 ring-primary' : ''}`}
+                                >
+                                    {isFocused ? (
+                                        <div className="flex h-full items-center justify-center text-xs text-muted-foreground">Watching above</div>
+                                    ) : (
+                                        <FeedThumbnail feedId={bus.feedId} />
+                                    )}
+                                    <div className="absolute top-1 left-1 flex flex-wrap gap-1">
+                                        <Badge variant="secondary">{bus.name}</Badge>
+                                        {promotion && (
+                                            <Badge variant="destructive">{promotion.reason === 'intruder' ? 'Intruder' : 'Emergency'}</Badge>
+                                        )}
+                                    </div>
+                                    <Badge variant={HEALTH_BADGES[health].variant} className="absolute bottom-1 right-1">
+                                        {HEALTH_BADGES[health].label}
+                                        {health !== 'webrtc' && stats[bus.busId]?.timeSinceLastFrame != null &&
+                                            ` · ${Math.round(stats[bus.busId].timeSinceLastFrame! / 1000)}s`}
+                                    </Badge>
+                                </button>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+                        <VideoOff className="h-8 w-8 mb-2" />
+                        <p className="text-sm">No bus is broadcasting.</p>
+                    </div>
+                )}
+
+                {offline.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                        Not broadcasting: {offline.map(bus => bus.name).join(', ')}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
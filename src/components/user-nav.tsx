@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useState } from "react"
 import {
     Avatar,
     AvatarFallback,
@@ -21,6 +22,7 @@ import {
   import { useRouter } from "next/navigation"
   import { NotificationBell } from "@/components/notification-bell"
   import { removeSession } from "@/lib/session-manager"
+  import { adminLogoutAction, getAdminSessionAction } from "@/app/actions"
   
   interface UserNavProps {
     userId?: string
@@ -28,6 +30,17 @@ import {
   
   export function UserNav({ userId = "default-user" }: UserNavProps) {
     const router = useRouter();
+    const [notificationUserId, setNotificationUserId] = useState(userId);
+
+    // A signed-in admin gets their own notifications (server jobs address admins by id)
+    useEffect(() => {
+      setNotificationUserId(userId);
+      getAdminSessionAction()
+        .then(result => {
+          if (result.success && result.adminId) setNotificationUserId(result.adminId);
+        })
+        .catch(error => console.error('Error reading admin session:', error));
+    }, [userId]);
 
     const handleLogout = async (e?: React.MouseEvent) => {
       // Prevent event propagation
@@ -52,10 +65,13 @@ import {
           }
         }
         
+        await adminLogoutAction().catch(error => console.error('Error ending admin session:', error));
+
         // Clear all localStorage
         localStorage.removeItem('loggedInStaffId');
         localStorage.removeItem('loggedInStaffBusId');
         localStorage.removeItem('staffSessionId');
+        localStorage.removeItem('staffCameraId');
         localStorage.removeItem('isPrimarySession');
         
         console.log('localStorage cleared, redirecting to login...');
@@ -76,7 +92,7 @@ import {
 
     return (
       <div className="flex items-center gap-2">
-        <NotificationBell userId={userId} />
+        <NotificationBell userId={notificationUserId} />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" className="relative h-8 w-8 rounded-full">
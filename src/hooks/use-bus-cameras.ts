@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { DEFAULT_CAMERA, subscribeToBusCameras, type BusCamera } from '@/lib/bus-cameras';
+
+/**
+ * A bus's cameras, following admin changes live.
+ * Starts with the implicit main camera until the database answers.
+ */
+export function useBusCameras(busId: string | null): BusCamera[] {
+    const [cameras, setCameras] = useState<BusCamera[]>([DEFAULT_CAMERA]);
+
+    useEffect(() => {
+        if (!busId) return;
+        const unsubscribe = subscribeToBusCameras(busId, setCameras);
+        return () => unsubscribe();
+    }, [busId]);
+
+    return cameras;
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { db } from '@/lib/firebase';
+import { ref, onValue, set, push, update, increment } from 'firebase/database';
+import {
+    acceptCurrentView,
+    assessFrame,
+    createTamperState,
+    frameSignature,
+    takeUptime,
+    type FrameMetrics,
+    type TamperCondition,
+} from '@/lib/camera-tampering';
+import { tripIdFor } from '@/lib/headcount';
+import { DEFAULT_CAMERA_ID } from '@/lib/bus-cameras';
+
+const SAMPLE_INTERVAL_MS = 500;
+const UPTIME_FLUSH_INTERVAL_MS = 30 * 1000;
+const STOPPED_SPEED_KMH = 3;
+
+export interface CameraTamperAlert {
+    busId: string;
+    cameraId?: string; // Missing on alerts from before buses had several cameras
+    tripId: string;
+    condition: TamperCondition;
+    timestamp: string;
+    resolvedAt: string | null;
+    durationMs: number | null;
+    meanLuma: number;
+    stdDev: number;
+}
+
+/**
+ * Watches the feed's frames for a covered, dark, frozen or misaimed camera.
+ * Each raised condition becomes a cameraTamperAlerts entry (resolved when it
+ * clears), and coverage for the trip is added up under
+ * trips/{busId}/{tripId}/cameraUptime (the main camera) or
+ * trips/{busId}/{tripId}/cameraUptimeByCamera/{cameraId}.
+ */
+export function useCameraTampering(busId: string, enabled: boolean, cameraId: string = DEFAULT_CAMERA_ID) {
+    const [activeIssue, setActiveIssue] = useState<TamperCondition | null>(null);
+    const stateRef = useRef(createTamperState());
+    const lastSampleRef = useRef(0);
+    const busStoppedRef = useRef(false);
+    const openAlertRef = useRef<{ key: string; raisedAt: number } | null>(null);
+
+    // Stops are where riders should be moving in front of the camera
+    useEffect(() => {
+        const unsubscribe = onValue(ref(db, `busLocations/${busId}`), (snapshot) => {
+            const speed = snapshot.val()?.speed;
+            busStoppedRef.current = typeof speed === 'number' && speed < STOPPED_SPEED_KMH;
+        });
+        return () => unsubscribe();
+    }, [busId]);
+
+    const flushUptime = useCallback(async () => {
+        const uptime = takeUptime(stateRef.current);
+        if (uptime.monitoredMs === 0) return;
+
+        const updates: Record<string, unknown> = {
+            monitoredMs: increment(uptime.monitoredMs),
+            tamperedMs: increment(uptime.tamperedMs),
+            updatedAt: new Date().toISOString(),
+        };
+        for (const [condition, ms] of Object.entries(uptime.byCondition)) {
+            updates[`byCondition/${condition}`] = increment(ms);
+        }
+        const uptimePath = cameraId === DEFAULT_CAMERA_ID
+            ? `trips/${busId}/${tripIdFor()}/cameraUptime`
+            : `trips/${busId}/${tripIdFor()}/cameraUptimeByCamera/${cameraId}`;
+        await update(ref(db, uptimePath), updates)
+            .catch(error => console.error('Failed to record camera uptime:', error));
+    }, [busId, cameraId]);
+
+    const resolveOpenAlert = useCallback(async () => {
+        const open = openAlertRef.current;
+        if (!open) return;
+        openAlertRef.current = null;
+        await update(ref(db, `cameraTamperAlerts/${open.key}`), {
+            resolvedAt: new Date().toISOString(),
+            durationMs: Date.now() - open.raisedAt,
+        }).catch(error => console.error('Failed to resolve camera tamper alert:', error));
+    }, []);
+
+    const raiseAlert = useCallback(async (condition: TamperCondition, metrics: FrameMetrics) => {
+        await resolveOpenAlert();
+        const alertRef = push(ref(db, 'cameraTamperAlerts'));
+        openAlertRef.current = { key: alertRef.key!, raisedAt: Date.now() };
+
+        const alert: CameraTamperAlert = {
+            busId,
+            cameraId,
+            tripId: tripIdFor(),
+            condition,
+            timestamp: new Date().toISOString(),
+            resolvedAt: null,
+            durationMs: null,
+            meanLuma: Math.round(metrics.meanLuma),
+            stdDev: Math.round(metrics.stdDev * 10) / 10,
+        };
+        await set(alertRef, alert).catch(error => console.error('Failed to save camera tamper alert:', error));
+        console.log(`📷 Camera ${condition} detected on bus ${busId} (${cameraId})`);
+    }, [busId, cameraId, resolveOpenAlert]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        const interval = setInterval(flushUptime, UPTIME_FLUSH_INTERVAL_MS);
+        return () => {
+            clearInterval(interval);
+            flushUptime();
+            // Monitoring stopped; the next session starts from a fresh view
+            resolveOpenAlert();
+            stateRef.current = createTamperState();
+            setActiveIssue(null);
+        };
+    }, [enabled, flushUptime, resolveOpenAlert]);
+
+    /**
+     * Sample the frame just drawn from the video (called every draw, sampled at 2 Hz)
+     */
+    const checkFrame = useCallback((frame: HTMLCanvasElement) => {
+        const now = Date.now();
+        if (!enabled || now - lastSampleRef.current < SAMPLE_INTERVAL_MS || frame.width === 0) return;
+        lastSampleRef.current = now;
+
+        const assessment = assessFrame(stateRef.current, frameSignature(frame), busStoppedRef.current, undefined, now);
+        if (assessment.raised) {
+            raiseAlert(assessment.raised, assessment.metrics);
+        } else if (assessment.cleared) {
+            console.log(`📷 Camera ${assessment.cleared} cleared on bus ${busId}`);
+            resolveOpenAlert();
+        }
+        if (assessment.raised || assessment.cleared) setActiveIssue(assessment.active);
+    }, [enabled, busId, raiseAlert, resolveOpenAlert]);
+
+    const acceptView = useCallback(() => {
+        acceptCurrentView(stateRef.current);
+    }, []);
+
+    return { activeIssue, checkFrame, acceptView };
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { db } from '@/lib/firebase';
+import { ref, onValue, get, set, push, update } from 'firebase/database';
+import type { StudentJson as StudentType } from '@/lib/data';
+import {
+    countTracks,
+    createHeadcountState,
+    reconcileHeadcount,
+    tripIdFor,
+    isEntryInTrip,
+    type CountableTrack,
+    type CountedPerson,
+    type HeadcountDiscrepancyType,
+    type HeadcountReconciliation,
+} from '@/lib/headcount';
+
+const RECONCILE_INTERVAL_MS = 10 * 1000;
+
+export interface HeadcountDiscrepancyLog {
+    type: HeadcountDiscrepancyType;
+    headcount: number;
+    onBoardCount: number;
+    difference: number;
+    unseenOnBoard: string[];   // On Board students the camera has not recognised this trip
+    unidentifiedCount: number;
+    detectedAt: string;
+}
+
+/**
+ * Headcount for the current trip of a bus, reconciled against its On Board
+ * attendance records. Counted people and every reported discrepancy are kept
+ * under trips/{busId}/{tripId}, so a reloaded tablet resumes the same count.
+ */
+export function useHeadcount(
+    busId: string,
+    studentsOnBus: StudentType[],
+    enabled: boolean,
+    onDiscrepancy: (log: HeadcountDiscrepancyLog) => void
+) {
+    const [tripId, setTripId] = useState(() => tripIdFor());
+    const [summary, setSummary] = useState<HeadcountReconciliation | null>(null);
+    const [onBoardNames, setOnBoardNames] = useState<string[]>([]);
+    const stateRef = useRef(createHeadcountState());
+    const lastLoggedRef = useRef<string | null>(null);
+    const onDiscrepancyRef = useRef(onDiscrepancy);
+    onDiscrepancyRef.current = onDiscrepancy;
+
+    const tripPath = `trips/${busId}/${tripId}`;
+
+    // Roll over to the next trip (morning pickup / afternoon run)
+    useEffect(() => {
+        const interval = setInterval(() => setTripId(tripIdFor()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // Resume the trip's count after a reload
+    useEffect(() => {
+        stateRef.current = createHeadcountState();
+        lastLoggedRef.current = null;
+        setSummary(null);
+
+        get(ref(db, `${tripPath}/people`)).then(snapshot => {
+            const people: CountedPerson[] = Object.values(snapshot.val() || {});
+            stateRef.current.people.push(...people);
+            if (people.length > 0) console.log(`🧮 Resumed headcount for ${tripPath}: ${people.length} people`);
+        }).catch(error => console.error('Failed to load trip headcount:', error));
+    }, [tripPath]);
+
+    // On Board records for this bus's students (camera recognitions and manual boardings)
+    // that boarded during this trip; the morning's riders do not count towards the afternoon
+    useEffect(() => {
+        const today = format(new Date(), 'yyyy-MM-dd');
+        const unsubscribe = onValue(ref(db, `attendance/${today}`), (snapshot) => {
+            const records = snapshot.val() || {};
+            setOnBoardNames(studentsOnBus
+                .filter(student => {
+                    const record = records[student.studentId];
+                    return record?.status === 'On Board' && isEntryInTrip(record.entry, tripId);
+                })
+                .map(student => student.name));
+        });
+        return () => unsubscribe();
+    }, [studentsOnBus, tripId]);
+
+    const reconcile = useCallback(async () => {
+        const result = reconcileHeadcount(stateRef.current, onBoardNames.length);
+        setSummary(result);
+
+        await update(ref(db, `${tripPath}/headcount`), {
+            headcount: result.headcount,
+            recognised: result.recognised,
+            unidentified: result.unidentified,
+            onBoardCount: result.onBoardCount,
+            updatedAt: new Date().toISOString(),
+        }).catch(error => console.error('Failed to update trip headcount:', error));
+
+        if (!result.discrepancy || !result.isSustained) return;
+
+        // Report each distinct discrepancy once
+        const key = `${result.discrepancy.type}:${result.headcount}:${result.onBoardCount}`;
+        if (lastLoggedRef.current === key) return;
+        lastLoggedRef.current = key;
+
+        const recognisedNames = new Set(stateRef.current.people.map(person => person.name).filter(Boolean));
+        const log: HeadcountDiscrepancyLog = {
+            type: result.discrepancy.type,
+            headcount: result.headcount,
+            onBoardCount: result.onBoardCount,
+            difference: result.discrepancy.difference,
+            unseenOnBoard: onBoardNames.filter(name => !recognisedNames.has(name)),
+            unidentifiedCount: result.unidentified,
+            detectedAt: new Date().toISOString(),
+        };
+        await set(push(ref(db, `${tripPath}/discrepancies`)), log)
+            .catch(error => console.error('Failed to log headcount discrepancy:', error));
+        onDiscrepancyRef.current(log);
+    }, [onBoardNames, tripPath]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        reconcile();
+        const interval = setInterval(reconcile, RECONCILE_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [enabled, reconcile]);
+
+    /**
+     * Add the tracks the tracker decided on in the latest frame
+     */
+    const countDecidedTracks = useCallback((tracks: CountableTrack[]) => {
+        if (!enabled || tracks.length === 0) return;
+        const changed = countTracks(stateRef.current, tracks);
+        for (const person of changed) {
+            set(ref(db, `${tripPath}/people/${person.personId}`), person)
+                .catch(error => console.error('Failed to save counted person:', error));
+        }
+    }, [enabled, tripPath]);
+
+    return { tripId, summary, countDecidedTracks };
+}
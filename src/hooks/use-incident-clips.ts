@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { db } from '@/lib/firebase';
+import { ref, onValue, onChildAdded, query, orderByChild, startAt } from 'firebase/database';
+import {
+    CLIP_CONFIG,
+    captureClipFrame,
+    clipFrames,
+    createClipBuffer,
+    encodeClip,
+    incidentPath,
+    raiseIncident,
+    setClipStatus,
+    uploadIncidentClip,
+    type BusIncident,
+    type IncidentKind,
+} from '@/lib/incident-clips';
+import { DEFAULT_CAMERA_ID } from '@/lib/bus-cameras';
+
+const HARSH_BRAKING_KMH_PER_S = 12; // About 0.35 g
+const MAX_SPEED_SAMPLE_GAP_MS = 3000; // Older readings say nothing about braking
+const HARSH_DRIVING_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Keeps the last ~30 s of camera frames in memory and turns incidents raised
+ * for the bus (by this device, an admin or another service) into a clip of
+ * the pre- and post-event window. Each incident is recorded by one camera:
+ * the one that raised it, or the bus's lead camera. The lead camera also
+ * raises harsh-driving incidents from sharp drops in the bus's reported speed.
+ */
+export function useIncidentClips(
+    busId: string,
+    videoRef: RefObject<HTMLVideoElement>,
+    enabled: boolean,
+    cameraId: string = DEFAULT_CAMERA_ID,
+    isLeadCamera: boolean = true
+) {
+    const [recordingCount, setRecordingCount] = useState(0);
+    const bufferRef = useRef(createClipBuffer());
+    const handledRef = useRef(new Set<string>());
+
+    // Frame buffer
+    useEffect(() => {
+        if (!enabled) return;
+        const interval = setInterval(() => {
+            const video = videoRef.current;
+            if (video) captureClipFrame(bufferRef.current, video).catch(error => console.error('Failed to buffer clip frame:', error));
+        }, 1000 / CLIP_CONFIG.fps);
+        return () => {
+            clearInterval(interval);
+            bufferRef.current = createClipBuffer();
+        };
+    }, [enabled, videoRef]);
+
+    const recordClip = useCallback(async (incident: BusIncident) => {
+        setRecordingCount(count => count + 1);
+        try {
+            await setClipStatus(incident, 'recording');
+            const eventAt = new Date(incident.timestamp).getTime();
+            const remaining = eventAt + CLIP_CONFIG.postEventMs - Date.now();
+            if (remaining > 0) await new Promise(resolve => setTimeout(resolve, remaining));
+
+            const frames = clipFrames(bufferRef.current, eventAt);
+            await setClipStatus(incident, 'uploading');
+            const video = await encodeClip(frames);
+            await uploadIncidentClip(incident, video, frames);
+        } catch (error) {
+            console.error(`Failed to record clip for incident ${incident.id}:`, error);
+            await setClipStatus(incident, 'failed', error instanceof Error ? error.message : 'Unknown error')
+                .catch(statusError => console.error('Failed to record clip failure:', statusError));
+        } finally {
+            setRecordingCount(count => count - 1);
+        }
+    }, []);
+
+    // Incidents still inside the buffer when they arrive get a clip
+    useEffect(() => {
+        if (!enabled) return;
+        const since = new Date(Date.now() - CLIP_CONFIG.preEventMs).toISOString();
+        const recentIncidents = query(ref(db, incidentPath(busId)), orderByChild('timestamp'), startAt(since));
+        const unsubscribe = onChildAdded(recentIncidents, (snapshot) => {
+            const incident: BusIncident = { id: snapshot.key!, ...snapshot.val() };
+            if (incident.clipStatus !== 'pending' || handledRef.current.has(incident.id)) return;
+            if (incident.cameraId ? incident.cameraId !== cameraId : !isLeadCamera) return;
+            handledRef.current.add(incident.id);
+            recordClip(incident);
+        });
+        return () => unsubscribe();
+    }, [enabled, busId, cameraId, isLeadCamera, recordClip]);
+
+    // Harsh braking from consecutive speed readings
+    useEffect(() => {
+        if (!enabled || !isLeadCamera) return;
+        let previous: { speed: number; at: number } | null = null;
+        let lastRaisedAt = 0;
+        const unsubscribe = onValue(ref(db, `busLocations/${busId}`), (snapshot) => {
+            const speed = snapshot.val()?.speed;
+            if (typeof speed !== 'number') return;
+            const now = Date.now();
+
+            if (previous && now - previous.at <= MAX_SPEED_SAMPLE_GAP_MS && now - lastRaisedAt > HARSH_DRIVING_COOLDOWN_MS) {
+                const seconds = Math.max((now - previous.at) / 1000, 0.5);
+                const deceleration = (previous.speed - speed) / seconds;
+                if (deceleration >= HARSH_BRAKING_KMH_PER_S) {
+                    lastRaisedAt = now;
+                    raiseIncident(busId, 'harsh-driving', {
+                        detail: `Harsh braking: ${Math.round(previous.speed)} to ${Math.round(speed)} km/h in ${seconds.toFixed(1)} s`,
+                    }).catch(error => console.error('Failed to raise harsh-driving incident:', error));
+                }
+            }
+            previous = { speed, at: now };
+        });
+        return () => unsubscribe();
+    }, [enabled, busId, isLeadCamera]);
+
+    const raise = useCallback((kind: IncidentKind, options?: { detail?: string; alertPath?: string }) => {
+        return raiseIncident(busId, kind, { ...options, cameraId });
+    }, [busId, cameraId]);
+
+    return { raise, isRecording: recordingCount > 0 };
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { db } from '@/lib/firebase';
+import { ref, onValue } from 'firebase/database';
+import { parseStoredFaceEmbedding, type StoredFaceEmbedding } from '@/lib/face-detection-client';
+import type { FrameFaceAnalysis, RecognitionWorkerRequest, RecognitionWorkerResponse } from '@/lib/frame-recognition';
+import type { RecognitionThresholds } from '@/lib/face-descriptor';
+
+export type OnDeviceRecognitionState = {
+    isReady: boolean;        // Models loaded in the worker
+    rosterSize: number;      // Students with usable embeddings on this bus
+    isCachedRoster: boolean; // Roster came from the local cache, not yet refreshed from the database
+    error: string | null;
+};
+
+const rosterCacheKey = (busId: string) => `onDeviceRoster:${busId}`;
+
+function readCachedRoster(busId: string): Record<string, StoredFaceEmbedding> {
+    try {
+        return JSON.parse(localStorage.getItem(rosterCacheKey(busId)) || '{}');
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Runs face detection and matching in a Web Worker against the embeddings of
+ * the students on this bus only. The roster is cached in localStorage so the
+ * tablet can start recognising before (or without) a database connection.
+ */
+export function useOnDeviceRecognition(
+    busId: string,
+    studentIds: string[],
+    adults: StoredFaceEmbedding[],
+    enabled: boolean
+) {
+    const [state, setState] = useState<OnDeviceRecognitionState>({
+        isReady: false,
+        rosterSize: 0,
+        isCachedRoster: false,
+        error: null,
+    });
+
+    const workerRef = useRef<Worker | null>(null);
+    const rosterRef = useRef<Record<string, StoredFaceEmbedding>>({});
+    const adultsRef = useRef<StoredFaceEmbedding[]>(adults);
+    const nextRequestId = useRef(0);
+    const syncTimeout = useRef<NodeJS.Timeout>();
+    const pending = useRef(new Map<number, { resolve: (faces: FrameFaceAnalysis[]) => void; reject: (error: Error) => void }>());
+
+    const postRoster = useCallback(() => {
+        const message: RecognitionWorkerRequest = {
+            type: 'roster',
+            roster: { students: Object.values(rosterRef.current), adults: adultsRef.current },
+        };
+        workerRef.current?.postMessage(message);
+    }, []);
+
+    // Worker lifecycle
+    useEffect(() => {
+        if (!enabled) return;
+
+        const worker = new Worker(new URL('../lib/recognition.worker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        const requests = pending.current;
+
+        worker.onmessage = (event: MessageEvent<RecognitionWorkerResponse>) => {
+            const message = event.data;
+            if (message.type === 'ready') {
+                setState(prev => ({ ...prev, isReady: true, error: null }));
+            } else if (message.type === 'result') {
+                requests.get(message.requestId)?.resolve(message.faces);
+                requests.delete(message.requestId);
+            } else if (message.type === 'error') {
+                if (message.requestId !== undefined) {
+                    requests.get(message.requestId)?.reject(new Error(message.error));
+                    requests.delete(message.requestId);
+                } else {
+                    setState(prev => ({ ...prev, error: message.error }));
+                }
+            }
+        };
+        worker.onerror = (event) => {
+            console.error('❌ Recognition worker error:', event.message);
+            setState(prev => ({ ...prev, error: event.message || 'Recognition worker failed' }));
+        };
+
+        postRoster();
+
+        return () => {
+            worker.terminate();
+            workerRef.current = null;
+            requests.forEach(request => request.reject(new Error('Recognition worker stopped')));
+            requests.clear();
+            setState(prev => ({ ...prev, isReady: false }));
+        };
+    }, [enabled, postRoster]);
+
+    // Bus-scoped roster: start from the local cache, then follow the database
+    const studentKey = studentIds.join(',');
+    useEffect(() => {
+        if (!enabled) return;
+
+        const ids = studentKey ? studentKey.split(',') : [];
+        const cached = readCachedRoster(busId);
+        rosterRef.current = Object.fromEntries(Object.entries(cached).filter(([id]) => ids.includes(id)));
+        setState(prev => ({ ...prev, rosterSize: Object.keys(rosterRef.current).length, isCachedRoster: true }));
+        postRoster();
+
+        const unsubscribes = ids.map(studentId => onValue(ref(db, `faceEmbeddings/${studentId}`), (snapshot) => {
+            const embedding = snapshot.exists() ? parseStoredFaceEmbedding(studentId, snapshot.val()) : null;
+            if (embedding) {
+                rosterRef.current[studentId] = embedding;
+            } else {
+                delete rosterRef.current[studentId];
+            }
+
+            // Every listener fires once on subscribe; sync the worker and cache once they settle
+            clearTimeout(syncTimeout.current);
+            syncTimeout.current = setTimeout(() => {
+                try {
+                    localStorage.setItem(rosterCacheKey(busId), JSON.stringify(rosterRef.current));
+                } catch (error) {
+                    console.warn('⚠️ Could not cache on-device roster:', error);
+                }
+                setState(prev => ({ ...prev, rosterSize: Object.keys(rosterRef.current).length, isCachedRoster: false }));
+                postRoster();
+            }, 500);
+        }));
+
+        return () => {
+            clearTimeout(syncTimeout.current);
+            unsubscribes.forEach(unsubscribe => unsubscribe());
+        };
+    }, [enabled, busId, studentKey, postRoster]);
+
+    useEffect(() => {
+        adultsRef.current = adults;
+        if (enabled) postRoster();
+    }, [adults, enabled, postRoster]);
+
+    /**
+     * Analyse one frame in the worker. The canvas is copied into an ImageBitmap
+     * and transferred, so the caller may redraw it immediately.
+     */
+    const analyze = useCallback(async (canvas: HTMLCanvasElement, thresholds: RecognitionThresholds): Promise<FrameFaceAnalysis[]> => {
+        const worker = workerRef.current;
+        if (!worker) throw new Error('On-device recognition is not running');
+
+        const frame = await createImageBitmap(canvas);
+        const requestId = ++nextRequestId.current;
+        return new Promise<FrameFaceAnalysis[]>((resolve, reject) => {
+            pending.current.set(requestId, { resolve, reject });
+            const message: RecognitionWorkerRequest = { type: 'frame', requestId, frame, thresholds };
+            worker.postMessage(message, [frame]);
+        });
+    }, []);
+
+    return { ...state, analyze };
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import {
+    DEFAULT_RECOGNITION_POLICY,
+    subscribeToRecognitionPolicy,
+    type RecognitionPolicy,
+} from '@/lib/recognition-policy';
+
+/**
+ * The recognition policy in force for a bus, following admin changes live.
+ * Starts from the defaults until the database answers.
+ */
+export function useRecognitionPolicy(busId: string | null): RecognitionPolicy {
+    const [policy, setPolicy] = useState<RecognitionPolicy>(DEFAULT_RECOGNITION_POLICY);
+
+    useEffect(() => {
+        const unsubscribe = subscribeToRecognitionPolicy(busId, (next) => {
+            console.log(`⚙️ Recognition policy for ${busId || 'school'} loaded`);
+            setPolicy(next);
+        });
+        return () => unsubscribe();
+    }, [busId]);
+
+    return policy;
+}
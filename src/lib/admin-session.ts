@@ -0,0 +1,91 @@
+/**
+ * Server-verified admin sessions.
+ *
+ * Admin credentials are checked on the server against ADMIN_ID /
+ * ADMIN_PASSWORD, and a successful login sets an HttpOnly cookie signed with
+ * ADMIN_SESSION_SECRET. Server actions that must only run for an admin read
+ * the identity back from that cookie instead of trusting what the client sends.
+ *
+ * Server only: never import this from a client component.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+
+export interface AdminIdentity {
+  adminId: string;
+  expiresAt: number; // Epoch ms
+}
+
+const SESSION_COOKIE = 'admin_session';
+const SESSION_MS = 12 * 60 * 60 * 1000;
+
+// The demo credentials shown on the login page; never accepted in production
+const DEMO_ADMIN = { id: 'Admin', password: 'pass@123' };
+
+function sessionSecret(): string {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+  if (!secret) throw new Error('ADMIN_SESSION_SECRET is not set; admin sessions are disabled');
+  return secret;
+}
+
+function adminCredentials(): { id: string; password: string } | null {
+  if (process.env.ADMIN_ID && process.env.ADMIN_PASSWORD) {
+    return { id: process.env.ADMIN_ID, password: process.env.ADMIN_PASSWORD };
+  }
+  return process.env.NODE_ENV === 'production' ? null : DEMO_ADMIN;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Check admin credentials and start a session; returns false if they are wrong
+ */
+export async function createAdminSession(adminId: string, password: string): Promise<boolean> {
+  const credentials = adminCredentials();
+  if (!credentials || !safeEqual(adminId, credentials.id) || !safeEqual(password, credentials.password)) {
+    return false;
+  }
+
+  const identity: AdminIdentity = { adminId, expiresAt: Date.now() + SESSION_MS };
+  const payload = Buffer.from(JSON.stringify(identity)).toString('base64url');
+  (await cookies()).set(SESSION_COOKIE, `${payload}.${sign(payload)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/',
+    maxAge: SESSION_MS / 1000,
+  });
+  console.log(`🔐 Admin session started for ${adminId}`);
+  return true;
+}
+
+/**
+ * The signed-in admin, or null if there is no valid session
+ */
+export async function getAdminIdentity(): Promise<AdminIdentity | null> {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (!value) return null;
+
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature || !safeEqual(signature, sign(payload))) return null;
+
+  try {
+    const identity: AdminIdentity = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return identity.expiresAt > Date.now() ? identity : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearAdminSession(): Promise<void> {
+  (await cookies()).delete(SESSION_COOKIE);
+}
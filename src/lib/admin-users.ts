@@ -0,0 +1,27 @@
+/**
+ * Directory of admin accounts, for server jobs that notify admins.
+ *
+ * Each admin who signs in is recorded under adminUsers/{adminId}. Their
+ * notification bell reads notifications/{adminId}, so a job that alerts
+ * admins sends to every id listed here. The list is server-only in
+ * database.rules.json.
+ *
+ * Server only: never import this from a client component.
+ */
+
+import { db } from './firebase';
+import { ref, get, update } from 'firebase/database';
+import { ensureServerAccount } from './server-account';
+
+export async function registerAdminUser(adminId: string): Promise<void> {
+  await ensureServerAccount();
+  await update(ref(db, `adminUsers/${adminId}`), { lastSignedInAt: new Date().toISOString() });
+}
+
+/**
+ * Ids of every admin who has signed in
+ */
+export async function getAdminUserIds(): Promise<string[]> {
+  await ensureServerAccount();
+  return Object.keys((await get(ref(db, 'adminUsers'))).val() || {});
+}
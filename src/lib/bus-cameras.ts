@@ -0,0 +1,115 @@
+/**
+ * Cameras of a bus. Each camera is a child of its bus under
+ * buses/{busId}/cameras/{cameraId}, runs on its own staff device session and
+ * has its own live feed and recognition mode.
+ *
+ * A bus with no cameras configured has a single implicit "main" camera, which
+ * keeps the feed paths buses had before cameras were modelled. Other cameras
+ * get feed ids from cameraFeedKey().
+ */
+
+import { db } from './firebase';
+import { ref, get, onValue, set, update, remove } from 'firebase/database';
+
+export type CameraRole = 'boarding-door' | 'cabin' | 'driver-facing';
+
+export type CameraRecognitionMode = 'boarding' | 'exit' | 'off';
+
+export interface BusCamera {
+  cameraId: string;
+  role: CameraRole;
+  label: string;
+  recognitionMode: CameraRecognitionMode;
+}
+
+export const DEFAULT_CAMERA_ID = 'main';
+
+export const CAMERA_ROLE_LABELS: Record<CameraRole, string> = {
+  'boarding-door': 'Boarding door',
+  'cabin': 'Cabin',
+  'driver-facing': 'Driver-facing',
+};
+
+/** What a new camera of each role does until an admin changes it */
+export const DEFAULT_RECOGNITION_MODES: Record<CameraRole, CameraRecognitionMode> = {
+  'boarding-door': 'boarding',
+  'cabin': 'boarding',
+  'driver-facing': 'off',
+};
+
+export const DEFAULT_CAMERA: BusCamera = {
+  cameraId: DEFAULT_CAMERA_ID,
+  role: 'boarding-door',
+  label: 'Main camera',
+  recognitionMode: 'boarding',
+};
+
+export function busCamerasPath(busId: string, cameraId?: string): string {
+  return `buses/${busId}/cameras${cameraId ? `/${cameraId}` : ''}`;
+}
+
+/**
+ * Feed id for live streaming paths (liveFeeds, live-feeds, liveSignals).
+ * The main camera keeps the bare bus id.
+ */
+export function cameraFeedKey(busId: string, cameraId: string = DEFAULT_CAMERA_ID): string {
+  return cameraId === DEFAULT_CAMERA_ID ? busId : `${busId}--${cameraId}`;
+}
+
+/**
+ * The camera that speaks for the whole bus: it runs the headcount and records
+ * clips of incidents no particular camera raised. The cabin camera sees the
+ * most riders, then the door camera.
+ */
+export function leadCameraId(cameras: BusCamera[]): string {
+  const byRole = (role: CameraRole) => cameras.find(camera => camera.role === role);
+  return (byRole('cabin') || byRole('boarding-door') || cameras[0] || DEFAULT_CAMERA).cameraId;
+}
+
+/**
+ * Cameras from a stored buses/{busId}/cameras value
+ */
+export function busCameraList(data: Record<string, Partial<Omit<BusCamera, 'cameraId'>>> | null | undefined): BusCamera[] {
+  const cameras = Object.entries(data || {})
+    .map(([cameraId, camera]) => ({ ...DEFAULT_CAMERA, ...camera, cameraId }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+  return cameras.length > 0 ? cameras : [DEFAULT_CAMERA];
+}
+
+/**
+ * Follow a bus's cameras; always reports at least the implicit main camera
+ */
+export function subscribeToBusCameras(busId: string, onChange: (cameras: BusCamera[]) => void): () => void {
+  return onValue(ref(db, busCamerasPath(busId)), (snapshot) => {
+    onChange(busCameraList(snapshot.val()));
+  });
+}
+
+export async function getBusCameras(busId: string): Promise<BusCamera[]> {
+  return busCameraList((await get(ref(db, busCamerasPath(busId)))).val());
+}
+
+export async function saveBusCamera(busId: string, camera: BusCamera): Promise<void> {
+  const { cameraId, ...fields } = camera;
+  // Adding a second camera: keep the implicit main camera as a real one
+  if (cameraId !== DEFAULT_CAMERA_ID && !(await get(ref(db, busCamerasPath(busId)))).exists()) {
+    const { cameraId: _mainId, ...mainFields } = DEFAULT_CAMERA;
+    await set(ref(db, busCamerasPath(busId, DEFAULT_CAMERA_ID)), mainFields);
+  }
+  await set(ref(db, busCamerasPath(busId, cameraId)), fields);
+  console.log(`🎥 Camera ${cameraId} (${camera.role}) saved for ${busId}`);
+}
+
+export async function setCameraRecognitionMode(
+  busId: string,
+  cameraId: string,
+  recognitionMode: CameraRecognitionMode
+): Promise<void> {
+  // Fields a stored camera lacks fall back to the main camera's, so a partial record is fine
+  await update(ref(db, busCamerasPath(busId, cameraId)), { recognitionMode });
+}
+
+export async function removeBusCamera(busId: string, cameraId: string): Promise<void> {
+  await remove(ref(db, busCamerasPath(busId, cameraId)));
+  console.log(`🎥 Camera ${cameraId} removed from ${busId}`);
+}
@@ -0,0 +1,209 @@
+/**
+ * Camera tampering and obstruction detection for the live recognition feed.
+ *
+ * A covered, dark or misaimed camera finds no faces, which on its own looks
+ * exactly like an empty bus. Each sampled frame is reduced to a small
+ * grayscale signature and checked for:
+ * - darkness: the lens is covered or the tablet is in a bag
+ * - uniform: a flat, featureless frame (tape, a hand, a wall right in front)
+ * - frozen: the stream keeps delivering the same frame
+ * - scene-change: the view no longer matches the one the camera settled on
+ *   (e.g. pointed at the floor); cleared once it is aimed back or the new view
+ *   is accepted
+ * - no-motion-at-stop: nothing moves in front of the camera while the bus is
+ *   stopped to pick up or drop off
+ * A condition has to persist before it is raised, so a child walking right
+ * past the lens does not trigger an alert.
+ */
+
+export type TamperCondition = 'darkness' | 'uniform' | 'frozen' | 'scene-change' | 'no-motion-at-stop';
+
+export interface TamperConfig {
+  darkLuma: number;         // Mean luminance (0-255) below which the frame is dark
+  uniformStdDev: number;    // Luminance spread below which the frame is featureless
+  frozenDiff: number;       // Frame-to-frame difference below which frames are identical
+  motionDiff: number;       // Frame-to-frame difference below which nothing is moving
+  sceneChangeDiff: number;  // Difference from the settled view above which the scene has changed
+  referenceBlend: number;   // How quickly the settled view follows gradual lighting changes
+  sustainMs: Record<TamperCondition, number>;
+}
+
+export const DEFAULT_TAMPER_CONFIG: TamperConfig = {
+  darkLuma: 28,
+  uniformStdDev: 6,
+  frozenDiff: 0.05,
+  motionDiff: 1.5,
+  sceneChangeDiff: 45,
+  referenceBlend: 0.02,
+  sustainMs: {
+    'darkness': 10 * 1000,
+    'uniform': 10 * 1000,
+    'frozen': 5 * 1000,
+    'scene-change': 8 * 1000,
+    'no-motion-at-stop': 60 * 1000,
+  },
+};
+
+// Most severe first; only one condition is reported at a time
+const CONDITION_PRIORITY: TamperCondition[] = ['darkness', 'uniform', 'frozen', 'scene-change', 'no-motion-at-stop'];
+
+const SIGNATURE_WIDTH = 64;
+const SIGNATURE_HEIGHT = 48;
+const MAX_SAMPLE_GAP_MS = 2000; // Longer gaps (tab hidden, scanning paused) do not count as coverage
+
+export interface FrameMetrics {
+  meanLuma: number;
+  stdDev: number;
+  frameDiff: number | null;      // Mean absolute difference from the previous sample
+  referenceDiff: number | null;  // Mean absolute difference from the settled view
+}
+
+export interface CameraUptime {
+  monitoredMs: number;
+  tamperedMs: number;
+  byCondition: Partial<Record<TamperCondition, number>>;
+}
+
+export interface TamperState {
+  previous: Float32Array | null;
+  reference: Float32Array | null;
+  since: Partial<Record<TamperCondition, number>>;
+  active: TamperCondition | null;
+  lastSampleAt: number | null;
+  uptime: CameraUptime;  // Accumulated since the last flush
+}
+
+export interface TamperAssessment {
+  active: TamperCondition | null;
+  raised: TamperCondition | null;   // Became active on this sample
+  cleared: TamperCondition | null;  // Stopped being active on this sample
+  metrics: FrameMetrics;
+}
+
+let signatureCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Small grayscale copy of the frame; averaging away sensor noise keeps the
+ * checks stable across cameras
+ */
+export function frameSignature(frame: HTMLCanvasElement | HTMLVideoElement): Float32Array {
+  signatureCanvas ??= document.createElement('canvas');
+  signatureCanvas.width = SIGNATURE_WIDTH;
+  signatureCanvas.height = SIGNATURE_HEIGHT;
+  const ctx = signatureCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.drawImage(frame, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const luma = new Float32Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+}
+
+function meanAbsDiff(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+}
+
+export function createTamperState(): TamperState {
+  return {
+    previous: null,
+    reference: null,
+    since: {},
+    active: null,
+    lastSampleAt: null,
+    uptime: { monitoredMs: 0, tamperedMs: 0, byCondition: {} },
+  };
+}
+
+/**
+ * Check one sampled frame and update the active condition
+ */
+export function assessFrame(
+  state: TamperState,
+  signature: Float32Array,
+  busStopped: boolean,
+  config: TamperConfig = DEFAULT_TAMPER_CONFIG,
+  now: number = Date.now()
+): TamperAssessment {
+  let sum = 0;
+  for (const value of signature) sum += value;
+  const meanLuma = sum / signature.length;
+  let variance = 0;
+  for (const value of signature) variance += (value - meanLuma) ** 2;
+  const stdDev = Math.sqrt(variance / signature.length);
+
+  const frameDiff = state.previous ? meanAbsDiff(signature, state.previous) : null;
+  const referenceDiff = state.reference ? meanAbsDiff(signature, state.reference) : null;
+
+  const holds: Record<TamperCondition, boolean> = {
+    'darkness': meanLuma < config.darkLuma,
+    'uniform': meanLuma >= config.darkLuma && stdDev < config.uniformStdDev,
+    'frozen': frameDiff !== null && frameDiff < config.frozenDiff,
+    'scene-change': referenceDiff !== null && referenceDiff > config.sceneChangeDiff,
+    'no-motion-at-stop': busStopped && frameDiff !== null && frameDiff < config.motionDiff,
+  };
+
+  for (const condition of CONDITION_PRIORITY) {
+    if (!holds[condition]) delete state.since[condition];
+    else state.since[condition] ??= now;
+  }
+
+  // The settled view follows slow lighting changes, but not a sudden new view
+  if (!state.reference) {
+    state.reference = signature.slice();
+  } else if (!holds['scene-change'] && !holds['darkness'] && !holds['uniform']) {
+    for (let i = 0; i < signature.length; i++) {
+      state.reference[i] += (signature[i] - state.reference[i]) * config.referenceBlend;
+    }
+  }
+  state.previous = signature;
+
+  // Coverage accounting uses the condition that was active over the elapsed interval
+  if (state.lastSampleAt !== null) {
+    const elapsed = now - state.lastSampleAt;
+    if (elapsed > 0 && elapsed <= MAX_SAMPLE_GAP_MS) {
+      state.uptime.monitoredMs += elapsed;
+      if (state.active) {
+        state.uptime.tamperedMs += elapsed;
+        state.uptime.byCondition[state.active] = (state.uptime.byCondition[state.active] || 0) + elapsed;
+      }
+    }
+  }
+  state.lastSampleAt = now;
+
+  const active = CONDITION_PRIORITY.find(condition => {
+    const since = state.since[condition];
+    return since !== undefined && now - since >= config.sustainMs[condition];
+  }) ?? null;
+
+  const previousActive = state.active;
+  state.active = active;
+
+  return {
+    active,
+    raised: active !== previousActive ? active : null,
+    cleared: previousActive && active !== previousActive ? previousActive : null,
+    metrics: { meanLuma, stdDev, frameDiff, referenceDiff },
+  };
+}
+
+/**
+ * Adopt the current view as the settled one after the camera was deliberately re-aimed
+ */
+export function acceptCurrentView(state: TamperState): void {
+  if (state.previous) state.reference = state.previous.slice();
+  delete state.since['scene-change'];
+}
+
+/**
+ * Take the coverage accumulated since the last call
+ */
+export function takeUptime(state: TamperState): CameraUptime {
+  const uptime = state.uptime;
+  state.uptime = { monitoredMs: 0, tamperedMs: 0, byCondition: {} };
+  return uptime;
+}
@@ -0,0 +1,195 @@
+/**
+ * Live quality gating for the face registration wizard.
+ *
+ * Each prompt (front/right/left/up/down) has a pose target measured from the
+ * BlazeFace landmarks, and every frame must also pass the same basic quality
+ * checks: exactly one face, large enough, sharp, and well exposed. The wizard
+ * auto-captures once a prompt's target has held for a few consecutive checks.
+ */
+
+import { landmarkPose, measureTexture } from './liveness';
+
+export type CaptureStep = 'front' | 'right' | 'left' | 'up' | 'down';
+
+export interface CaptureQualityConfig {
+  minFaceSize: number;      // Face width as a fraction of the frame width
+  minSharpness: number;     // Laplacian variance of the face crop
+  minBrightness: number;    // Mean luminance of the face crop (0-255)
+  maxBrightness: number;
+  maxFrontYaw: number;      // Front photo: max |yaw| in inter-eye distances
+  minTurnYaw: number;       // Right/left photos: min |yaw|
+  minTiltPitchDelta: number; // Up/down photos: min pitch change from the front photo
+}
+
+export const DEFAULT_CAPTURE_QUALITY_CONFIG: CaptureQualityConfig = {
+  minFaceSize: 0.2,
+  minSharpness: 20,
+  minBrightness: 60,
+  maxBrightness: 200,
+  maxFrontYaw: 0.12,
+  minTurnYaw: 0.18,
+  minTiltPitchDelta: 0.08,
+};
+
+/**
+ * Quality measurements for one photo; stored with the pending registration
+ */
+export interface CaptureQuality {
+  step: CaptureStep;
+  score: number;          // 0-1 overall quality
+  faceCount: number;
+  faceSize: number;
+  sharpness: number;
+  brightness: number;
+  yaw: number | null;
+  pitch: number | null;
+  meetsTarget: boolean;
+  issues: string[];       // Human-readable problems, first one is shown as a hint
+}
+
+/**
+ * Poses already captured in this session. The camera may or may not be
+ * mirrored, so a turn/tilt only has to go the opposite way to its pair
+ * rather than in a fixed image direction.
+ */
+export interface CaptureBaseline {
+  frontPitch?: number;
+  firstTurnYaw?: number;
+  firstTiltPitchDelta?: number;
+}
+
+export interface FaceMeasurement {
+  box: { x: number; y: number; width: number; height: number };
+  landmarks: number[][] | null;
+  faceCrop: HTMLCanvasElement;
+}
+
+/**
+ * Mean luminance of a face crop
+ */
+export function measureBrightness(faceCanvas: HTMLCanvasElement): number {
+  const ctx = faceCanvas.getContext('2d');
+  if (!ctx) return 0;
+
+  const rgba = ctx.getImageData(0, 0, faceCanvas.width, faceCanvas.height).data;
+  let sum = 0;
+  for (let i = 0; i < rgba.length; i += 4) {
+    sum += 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+  }
+  return rgba.length > 0 ? sum / (rgba.length / 4) : 0;
+}
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+function poseIssue(
+  step: CaptureStep,
+  yaw: number,
+  pitch: number,
+  baseline: CaptureBaseline,
+  config: CaptureQualityConfig
+): string | null {
+  const pitchDelta = baseline.frontPitch !== undefined ? pitch - baseline.frontPitch : 0;
+
+  switch (step) {
+    case 'front':
+      if (Math.abs(yaw) > config.maxFrontYaw) return 'Look straight at the camera';
+      return null;
+    case 'right':
+    case 'left': {
+      if (Math.abs(yaw) < config.minTurnYaw) return `Turn your head a little more to the ${step}`;
+      if (baseline.firstTurnYaw !== undefined && Math.sign(yaw) === Math.sign(baseline.firstTurnYaw)) {
+        return `Turn your head the other way, to the ${step}`;
+      }
+      return null;
+    }
+    case 'up':
+    case 'down': {
+      if (baseline.frontPitch === undefined) return null;
+      if (Math.abs(pitchDelta) < config.minTiltPitchDelta) return `Tilt your head a little more ${step}`;
+      if (baseline.firstTiltPitchDelta !== undefined && Math.sign(pitchDelta) === Math.sign(baseline.firstTiltPitchDelta)) {
+        return `Tilt your head the other way, ${step}`;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Score one frame against the current prompt's pose and quality targets
+ */
+export function assessCaptureQuality(
+  step: CaptureStep,
+  faces: FaceMeasurement[],
+  frameWidth: number,
+  baseline: CaptureBaseline,
+  config: CaptureQualityConfig = DEFAULT_CAPTURE_QUALITY_CONFIG
+): CaptureQuality {
+  const empty: CaptureQuality = {
+    step, score: 0, faceCount: faces.length, faceSize: 0, sharpness: 0, brightness: 0,
+    yaw: null, pitch: null, meetsTarget: false, issues: [],
+  };
+
+  if (faces.length === 0) return { ...empty, issues: ['No face found - move into the frame'] };
+  if (faces.length > 1) return { ...empty, issues: ['Only one person should be in the frame'] };
+
+  const face = faces[0];
+  const faceSize = frameWidth > 0 ? face.box.width / frameWidth : 0;
+  const { sharpness } = measureTexture(face.faceCrop);
+  const brightness = measureBrightness(face.faceCrop);
+  const pose = face.landmarks ? landmarkPose(face.landmarks) : null;
+
+  const issues: string[] = [];
+  if (faceSize < config.minFaceSize) issues.push('Move closer to the camera');
+  if (brightness < config.minBrightness) issues.push('Too dark - find more light');
+  if (brightness > config.maxBrightness) issues.push('Too bright - move away from direct light');
+  if (sharpness < config.minSharpness) issues.push('Hold still - the image is blurry');
+  if (!pose) {
+    issues.push('Keep both eyes and nose visible');
+  } else {
+    const issue = poseIssue(step, pose.yaw, pose.pitch, baseline, config);
+    if (issue) issues.push(issue);
+  }
+
+  // Each check contributes equally; a value at its threshold scores 0.5
+  const brightnessMid = (config.minBrightness + config.maxBrightness) / 2;
+  const brightnessHalfRange = (config.maxBrightness - config.minBrightness) / 2;
+  const score = (
+    clamp01(faceSize / (config.minFaceSize * 2)) +
+    clamp01(sharpness / (config.minSharpness * 2)) +
+    clamp01(1 - Math.abs(brightness - brightnessMid) / (brightnessHalfRange * 2)) +
+    (pose ? 1 : 0)
+  ) / 4;
+
+  return {
+    step,
+    score,
+    faceCount: 1,
+    faceSize,
+    sharpness,
+    brightness,
+    yaw: pose?.yaw ?? null,
+    pitch: pose?.pitch ?? null,
+    meetsTarget: issues.length === 0,
+    issues,
+  };
+}
+
+/**
+ * Record the pose of an accepted photo so later prompts are judged against it
+ */
+export function updateCaptureBaseline(baseline: CaptureBaseline, quality: CaptureQuality): CaptureBaseline {
+  if (quality.yaw === null || quality.pitch === null) return baseline;
+
+  switch (quality.step) {
+    case 'front':
+      return { ...baseline, frontPitch: quality.pitch };
+    case 'right':
+    case 'left':
+      return baseline.firstTurnYaw === undefined ? { ...baseline, firstTurnYaw: quality.yaw } : baseline;
+    case 'up':
+    case 'down':
+      return baseline.firstTiltPitchDelta === undefined && baseline.frontPitch !== undefined
+        ? { ...baseline, firstTiltPitchDelta: quality.pitch - baseline.frontPitch }
+        : baseline;
+  }
+}
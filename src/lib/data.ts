@@ -170,6 +170,26 @@ export interface MissedBusAlert {
   responseTimestamp?: number;
 }
 
+// Authorized adults (staff, guardians) recognised on buses without raising intruder alerts
+export type AuthorizedAdultRole = 'driver' | 'attendant' | 'guardian';
+
+export interface AuthorizedAdult {
+  adultId: string;
+  name: string;
+  role: AuthorizedAdultRole;
+  busId: string | null; // null = authorized on every bus
+  modelVersion: string;
+  embeddings: Array<{
+    embedding: number[];
+    uid: string;
+    angle: number;
+    modelVersion: string;
+    timestamp: string;
+  }>;
+  photoUrl: string | null;
+  approvedAt: string;
+}
+
 
 // This is the data structure for the Parent Dashboard, which is dynamically generated.
 export interface Student extends StudentJson {}
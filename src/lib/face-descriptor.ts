@@ -0,0 +1,153 @@
+/**
+ * Face descriptor model shared by the server flows and the browser client.
+ * Wraps the @vladmandic/face-api recognition network so both sides produce
+ * identical 128-dimensional, identity-discriminative descriptors.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import * as faceapi from '@vladmandic/face-api/dist/face-api.esm-nobundle.js';
+
+/**
+ * Version tag stored with every faceEmbeddings record. Vectors produced by
+ * different models live in different spaces and must never be compared.
+ */
+export const FACE_DESCRIPTOR_MODEL_VERSION = 'faceapi-recognition-v1';
+
+/**
+ * Version assumed for records written before embeddings were versioned
+ * (the 512-value grayscale histogram vectors).
+ */
+export const LEGACY_EMBEDDING_MODEL_VERSION = 'histogram-v0';
+
+export const FACE_DESCRIPTOR_SIZE = 128;
+
+export const LEGACY_EMBEDDING_SIZE = 512;
+
+/**
+ * Cosine-similarity thresholds for face-api descriptors. These correspond
+ * roughly to the 0.5 / 0.6 / 0.7 euclidean distances face-api recommends.
+ */
+export const DESCRIPTOR_THRESHOLDS = {
+  HIGH_CONFIDENCE: 0.87,   // Definite match
+  MEDIUM_CONFIDENCE: 0.82, // Potential match - requires verification
+  LOW_CONFIDENCE: 0.75,    // Minimum similarity to be considered at all
+  AMBIGUITY_GAP: 0.05,     // Required lead of the best match over the runner-up
+  UNAMBIGUOUS_SIMILARITY: 0.93, // Above this the gap rule is skipped
+  MIN_MATCHING_ANGLES: 2,  // Multi-angle records need this many angles above LOW_CONFIDENCE
+} as const;
+
+export type RecognitionThresholds = { -readonly [K in keyof typeof DESCRIPTOR_THRESHOLDS]: number };
+
+/**
+ * The hand-tuned thresholds the legacy histogram embeddings were matched with.
+ * Only used for the dual-read window while records are being re-embedded.
+ */
+export const LEGACY_THRESHOLDS: RecognitionThresholds = {
+  HIGH_CONFIDENCE: 0.85,
+  MEDIUM_CONFIDENCE: 0.78,
+  LOW_CONFIDENCE: 0.70,
+  AMBIGUITY_GAP: 0.10,
+  UNAMBIGUOUS_SIMILARITY: 0.90,
+  MIN_MATCHING_ANGLES: 2,
+};
+
+/**
+ * Resolve the model version of a stored record.
+ * Records without a version tag predate versioning and are treated as legacy.
+ */
+export function resolveModelVersion(modelVersion?: string | null): string {
+  return modelVersion || LEGACY_EMBEDDING_MODEL_VERSION;
+}
+
+/**
+ * Returns true when an embedding record was produced by the current model.
+ */
+export function isCurrentModelVersion(modelVersion?: string | null): boolean {
+  return resolveModelVersion(modelVersion) === FACE_DESCRIPTOR_MODEL_VERSION;
+}
+
+/**
+ * Returns true for records that can still be read during the dual-read
+ * window: legacy histogram records that have not been re-embedded yet.
+ */
+export function isDualReadModelVersion(modelVersion?: string | null): boolean {
+  return resolveModelVersion(modelVersion) === LEGACY_EMBEDDING_MODEL_VERSION;
+}
+
+/**
+ * Validate a descriptor before it is stored or matched against
+ */
+export function isValidDescriptor(descriptor: ArrayLike<number> | null | undefined): boolean {
+  if (!descriptor || descriptor.length !== FACE_DESCRIPTOR_SIZE) return false;
+
+  let norm = 0;
+  for (let i = 0; i < descriptor.length; i++) {
+    const value = descriptor[i];
+    if (!Number.isFinite(value)) return false;
+    norm += value * value;
+  }
+  return norm > 0;
+}
+
+/**
+ * RTDB path of the re-embedding migration progress for a model version.
+ * RTDB keys cannot contain '.', which model versions may use.
+ */
+export function embeddingMigrationPath(modelVersion: string = FACE_DESCRIPTOR_MODEL_VERSION): string {
+  return `embeddingMigrations/${modelVersion.replace(/\./g, '_')}`;
+}
+
+/**
+ * Validate a stored embedding against the model version it was produced by
+ */
+export function isValidStoredEmbedding(embedding: ArrayLike<number> | null | undefined, modelVersion?: string | null): boolean {
+  if (isCurrentModelVersion(modelVersion)) return isValidDescriptor(embedding);
+  if (!isDualReadModelVersion(modelVersion) || !embedding || embedding.length !== LEGACY_EMBEDDING_SIZE) return false;
+  return Array.from(embedding).every(value => Number.isFinite(value));
+}
+
+let netsLoading: Promise<void> | null = null;
+
+/**
+ * Load the landmark and recognition networks once per process.
+ * The server reads the weights from disk, the browser fetches them by URI.
+ */
+export function loadFaceDescriptorNets(source: { diskPath?: string; uri?: string }): Promise<void> {
+  if (!netsLoading) {
+    netsLoading = (async () => {
+      await tf.ready();
+      if (source.diskPath) {
+        await faceapi.nets.faceLandmark68Net.loadFromDisk(source.diskPath);
+        await faceapi.nets.faceRecognitionNet.loadFromDisk(source.diskPath);
+      } else {
+        await faceapi.nets.faceLandmark68Net.loadFromUri(source.uri || '/models/face-api');
+        await faceapi.nets.faceRecognitionNet.loadFromUri(source.uri || '/models/face-api');
+      }
+    })().catch(error => {
+      // Allow a later call to retry instead of caching the failure
+      netsLoading = null;
+      throw error;
+    });
+  }
+  return netsLoading;
+}
+
+/**
+ * Compute a face descriptor for a cropped face (pixel values 0-255).
+ * The crop is aligned on its 68 landmarks before it is described, which is
+ * what face-api's own withFaceDescriptor() pipeline does.
+ */
+export async function computeFaceDescriptor(faceCrop: tf.Tensor3D): Promise<Float32Array | null> {
+  // The nobundle build runs on our own tfjs instance; only its bundled type
+  // declarations differ from @tensorflow/tfjs, hence the cast.
+  const input = faceCrop as unknown as faceapi.tf.Tensor3D;
+  const landmarks = await faceapi.nets.faceLandmark68Net.detectLandmarks(input) as faceapi.FaceLandmarks68;
+  const [alignedFace] = await faceapi.extractFaceTensors(input, [landmarks.align()]);
+
+  try {
+    const descriptor = await faceapi.nets.faceRecognitionNet.computeFaceDescriptor(alignedFace) as Float32Array;
+    return isValidDescriptor(descriptor) ? descriptor : null;
+  } finally {
+    alignedFace.dispose();
+  }
+}
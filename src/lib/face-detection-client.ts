@@ -5,6 +5,17 @@
 
 import * as tf from '@tensorflow/tfjs';
 import '@tensorflow/tfjs-backend-webgl';
+import {
+  computeFaceDescriptor,
+  loadFaceDescriptorNets,
+  isCurrentModelVersion,
+  isDualReadModelVersion,
+  isValidStoredEmbedding,
+  resolveModelVersion,
+  DESCRIPTOR_THRESHOLDS,
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  type RecognitionThresholds,
+} from './face-descriptor';
 
 let blazefaceModel: any = null;
 
@@ -37,7 +48,7 @@ export async function loadFaceDetectionModel() {
  * @param scoreThreshold - Score threshold for face detection (lower = more sensitive)
  */
 export async function detectFacesClient(
-  imageElement: HTMLImageElement | HTMLCanvasElement | HTMLVideoElement,
+  imageElement: HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageData,
   returnTensors: boolean = true,
   iouThreshold: number = 0.3,
   scoreThreshold: number = 0.5,
@@ -71,112 +82,26 @@ export async function detectFacesClient(
   }
 }
 
+/**
+ * Load the face-api landmark and recognition models (client-side)
+ * Weights are served from /public/models/face-api
+ */
+export async function loadFaceDescriptorModel() {
+  try {
+    await loadFaceDescriptorNets({ uri: '/models/face-api' });
+  } catch (error) {
+    console.error('Error loading face descriptor model:', error);
+    throw error;
+  }
+}
+
 /**
  * Generate face embedding (client-side version matching server)
- * Always generates a 512-dimensional embedding for consistency
+ * Produces the same 128-dimensional face-api descriptor as the server
  */
-export function generateFaceEmbeddingClient(faceTensor: tf.Tensor3D): Float32Array {
-  return tf.tidy(() => {
-    // MATCH SERVER: Resize to 256x256 first
-    const resized = tf.image.resizeBilinear(faceTensor, [256, 256]);
-    
-    // Convert to grayscale and normalize
-    const grayscale = tf.image.rgbToGrayscale(resized);
-    const normalizedGray = tf.div(grayscale, 255.0);
-    
-    // MATCH SERVER: Enhance contrast
-    const enhanced = tf.clipByValue(
-      tf.mul(normalizedGray, 1.15), // 15% contrast boost
-      0,
-      1
-    );
-    
-    // MATCH SERVER: Scale back to 0-255 and tile to 3 channels
-    const enhancedScaled = tf.mul(enhanced, 255);
-    const grayscale3Channel = tf.tile(enhancedScaled, [1, 1, 3]) as tf.Tensor3D;
-    
-    // Generate multiple scales for better features - MATCH SERVER-SIDE EXACTLY
-    const scales = [1.0, 0.85, 0.7, 0.5];
-    const featureMaps = scales.map(scale => {
-      const scaled = tf.image.resizeBilinear(
-        grayscale3Channel,
-        [Math.round(224 * scale), Math.round(224 * scale)]
-      );
-      
-      // Extract features using moments and histogram - MATCH SERVER
-      const moments = tf.moments(scaled, [0, 1]);
-      const mean = moments.mean;
-      const variance = moments.variance;
-      
-      // Create histogram-like features - MATCH SERVER
-      const bins = 32;
-      const minVal = tf.min(scaled);
-      const maxVal = tf.max(scaled);
-      const range = maxVal.sub(minVal);
-      const step = range.div(tf.scalar(bins));
-      
-      // Generate histogram features using tf.stack
-      const histogramBins = [];
-      for (let i = 0; i < bins; i++) {
-        const binStart = minVal.add(step.mul(tf.scalar(i)));
-        const binEnd = binStart.add(step);
-        const mask = tf.logicalAnd(
-          tf.greaterEqual(scaled, binStart),
-          tf.less(scaled, binEnd)
-        );
-        const count = tf.sum(tf.cast(mask, 'float32'));
-        histogramBins.push(count);
-      }
-      const histogram = tf.stack(histogramBins);
-      
-      return tf.concat([mean, variance, histogram]);
-    });
-    
-    // Combine all features
-    const combined = tf.concat(featureMaps);
-    
-    // Ensure exactly 512 dimensions - MATCH SERVER-SIDE LOGIC
-    const targetSize = 512;
-    let finalFeatures: tf.Tensor1D;
-    
-    if (combined.shape[0] > targetSize) {
-      // If we have more features, truncate to 512
-      finalFeatures = combined.slice([0], [targetSize]) as tf.Tensor1D;
-    } else if (combined.shape[0] < targetSize) {
-      // If we have fewer features, replicate and pad intelligently
-      // This prevents having large blocks of zeros
-      const repetitions = Math.floor(targetSize / combined.shape[0]);
-      const remainder = targetSize % combined.shape[0];
-      
-      const repeated = [];
-      for (let i = 0; i < repetitions; i++) {
-        repeated.push(combined);
-      }
-      if (remainder > 0) {
-        repeated.push(combined.slice([0], [remainder]));
-      }
-      
-      finalFeatures = tf.concat(repeated) as tf.Tensor1D;
-    } else {
-      finalFeatures = combined as tf.Tensor1D;
-    }
-    
-    // Normalize features AFTER ensuring correct size
-    const featuresMean = tf.mean(finalFeatures);
-    const featureVariance = tf.moments(finalFeatures).variance;
-    const featuresStd = tf.sqrt(tf.add(featureVariance, 1e-8));
-    
-    const normalizedFeatures = tf.div(
-      tf.sub(finalFeatures, featuresMean), 
-      featuresStd
-    ) as tf.Tensor1D;
-    
-    const result = normalizedFeatures.dataSync() as Float32Array;
-    
-    // Embedding normalized (logging disabled for performance)
-    
-    return result;
-  });
+export async function generateFaceEmbeddingClient(faceTensor: tf.Tensor3D): Promise<Float32Array | null> {
+  await loadFaceDescriptorModel();
+  return computeFaceDescriptor(faceTensor);
 }
 
 /**
@@ -299,6 +224,7 @@ export interface StoredFaceEmbedding {
   studentId: string;
   studentName: string;
   embedding: number[];
+  modelVersion?: string;
   allEmbeddings?: Array<{
     embedding: number[];
     uid: string;
@@ -306,6 +232,47 @@ export interface StoredFaceEmbedding {
   }>;
 }
 
+/**
+ * Convert a faceEmbeddings record into the shape matchFace expects.
+ * Returns null for records that can never match (unknown model, invalid data).
+ */
+export function parseStoredFaceEmbedding(studentId: string, data: any): StoredFaceEmbedding | null {
+  if (!data?.studentName) return null;
+
+  // Legacy records stay readable until the student is re-embedded (dual-read window)
+  if (!isCurrentModelVersion(data.modelVersion) && !isDualReadModelVersion(data.modelVersion)) {
+    console.warn(`✗ Skipping ${data.studentName}: unknown embedding model ${data.modelVersion}`);
+    return null;
+  }
+
+  // Support both new multi-angle format and old single-embedding format
+  let primaryEmbedding: number[] | null = null;
+  let allEmbeddings: StoredFaceEmbedding['allEmbeddings'];
+  if (Array.isArray(data.embeddings) && data.embeddings.length > 0) {
+    allEmbeddings = data.embeddings.map((emb: any) => ({
+      embedding: Array.isArray(emb.embedding) ? emb.embedding : Array.from(emb.embedding),
+      uid: emb.uid,
+      angle: emb.angle || 0
+    }));
+    primaryEmbedding = data.primaryEmbedding || allEmbeddings![0].embedding;
+  } else if (data.embedding) {
+    primaryEmbedding = Array.isArray(data.embedding) ? data.embedding : Array.from(data.embedding);
+  }
+
+  if (!primaryEmbedding || !isValidStoredEmbedding(primaryEmbedding, data.modelVersion)) {
+    console.warn(`✗ Invalid embedding for ${data.studentName}`);
+    return null;
+  }
+
+  return {
+    studentId: data.studentId || studentId,
+    studentName: data.studentName,
+    embedding: primaryEmbedding,
+    modelVersion: resolveModelVersion(data.modelVersion),
+    allEmbeddings,
+  };
+}
+
 export interface FaceMatch {
   studentId: string;
   studentName: string;
@@ -314,19 +281,25 @@ export interface FaceMatch {
   isPotentialMatch: boolean;
 }
 
+/**
+ * @param modelVersion - The model that produced faceEmbedding; only stored records from the same model are compared
+ * @param thresholds - Thresholds for that model (legacy records use LEGACY_THRESHOLDS)
+ */
 export function matchFace(
   faceEmbedding: Float32Array,
-  storedEmbeddings: StoredFaceEmbedding[]
+  storedEmbeddings: StoredFaceEmbedding[],
+  modelVersion: string = FACE_DESCRIPTOR_MODEL_VERSION,
+  thresholds: RecognitionThresholds = DESCRIPTOR_THRESHOLDS
 ): FaceMatch | null {
   if (storedEmbeddings.length === 0) {
     return null;
   }
   
   // STRICT THRESHOLDS: Prevent misclassification and false positives
-  // Higher thresholds ensure accurate identification, especially critical for student safety
-  const HIGH_CONFIDENCE = 0.85;   // Strong match - very confident, definite identification
-  const MEDIUM_CONFIDENCE = 0.78; // Decent match - potential, requires verification
-  const MIN_THRESHOLD = 0.70;     // Minimum to consider a match - very strict
+  // Shared with the server flow so both sides agree on what counts as a match
+  const HIGH_CONFIDENCE = thresholds.HIGH_CONFIDENCE;
+  const MEDIUM_CONFIDENCE = thresholds.MEDIUM_CONFIDENCE;
+  const MIN_THRESHOLD = thresholds.LOW_CONFIDENCE;
   
   let bestMatch: FaceMatch | null = null;
   let bestSimilarity = 0;
@@ -336,6 +309,11 @@ export function matchFace(
   const studentMatches: Map<string, { bestSimilarity: number; angleSimilarities: number[] }> = new Map();
   
   for (const stored of storedEmbeddings) {
+    // Embeddings from a different model are not comparable
+    if (resolveModelVersion(stored.modelVersion) !== modelVersion) {
+      continue;
+    }
+
     // Try all angles if multi-angle embeddings are available
     if (stored.allEmbeddings && stored.allEmbeddings.length > 1) {
       // Multi-angle matching: collect similarities from all angles
@@ -357,7 +335,7 @@ export function matchFace(
         const aboveThreshold = angleSimilarities.filter(s => s >= MIN_THRESHOLD).length;
         
         // STRICT: For multi-angle, require at least 2 angles above threshold
-        if (maxSimilarity >= MIN_THRESHOLD && aboveThreshold >= 2) {
+        if (maxSimilarity >= MIN_THRESHOLD && aboveThreshold >= thresholds.MIN_MATCHING_ANGLES) {
           studentMatches.set(stored.studentId, {
             bestSimilarity: maxSimilarity,
             angleSimilarities
@@ -433,9 +411,10 @@ export function matchFace(
     // Check confidence gap between best and second-best match
     const confidenceGap = bestSimilarity - secondBestSimilarity;
     
-    // STRICT: Require significant gap (at least 0.12) between top two matches
+    // STRICT: Require significant gap between top two matches
     // This prevents ambiguous situations where two students score similarly
-    if (secondBestMatch && confidenceGap < 0.12 && bestSimilarity < 0.90) {
+    if (secondBestMatch && confidenceGap < thresholds.AMBIGUITY_GAP &&
+        bestSimilarity < thresholds.UNAMBIGUOUS_SIMILARITY) {
       // Too close to call - reject to prevent misidentification
       console.log(`⚠️ Ambiguous match: ${bestMatch.studentName} (${(bestSimilarity * 100).toFixed(1)}%) vs ${secondBestMatch.studentName} (${(secondBestSimilarity * 100).toFixed(1)}%) - gap too small`);
       return null;
@@ -464,6 +443,170 @@ export function matchFace(
   return null;
 }
 
+export interface CandidateMatch {
+  studentId: string;
+  studentName: string;
+  confidence: number; // Best similarity over all stored angles
+}
+
+/**
+ * Top candidates for a face without any acceptance rules applied, for staff to
+ * resolve potential matches
+ */
+export function rankCandidates(
+  faceEmbedding: Float32Array,
+  storedEmbeddings: StoredFaceEmbedding[],
+  modelVersion: string = FACE_DESCRIPTOR_MODEL_VERSION,
+  limit = 3
+): CandidateMatch[] {
+  const candidates: CandidateMatch[] = [];
+
+  for (const stored of storedEmbeddings) {
+    if (resolveModelVersion(stored.modelVersion) !== modelVersion) {
+      continue;
+    }
+
+    const vectors = stored.allEmbeddings && stored.allEmbeddings.length > 0
+      ? stored.allEmbeddings.map(angleEmb => angleEmb.embedding)
+      : [stored.embedding];
+    const similarities = vectors
+      .filter(vector => vector.length === faceEmbedding.length)
+      .map(vector => calculateSimilarity(faceEmbedding, new Float32Array(vector)));
+
+    if (similarities.length > 0) {
+      candidates.push({
+        studentId: stored.studentId,
+        studentName: stored.studentName,
+        confidence: Math.max(...similarities),
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence).slice(0, limit);
+}
+
+export interface CandidateExplanation {
+  studentId: string;
+  studentName: string;
+  similarity: number; // Best similarity over all stored angles
+  angleScores: Array<{ angle: number; similarity: number }>;
+  anglesAboveThreshold: number;
+  isMultiAngle: boolean;
+  eligible: boolean; // Passes the minimum similarity and the multi-angle rule
+}
+
+export interface MatchExplanation {
+  modelVersion: string;
+  thresholds: RecognitionThresholds;
+  candidates: CandidateExplanation[]; // Top candidates, best first
+  gapRule: {
+    gap: number | null;          // Lead of the best eligible candidate over the runner-up
+    skipped: boolean;            // Best similarity is above UNAMBIGUOUS_SIMILARITY
+    passed: boolean;
+  };
+  multiAngleRule: {
+    passed: boolean | null;      // For the highest-scoring candidate; null when it has a single stored angle
+  };
+  consistencyRule: {
+    averageSimilarity: number | null; // Multi-angle average, checked below HIGH_CONFIDENCE
+    passed: boolean;
+  };
+  outcome: 'matched' | 'potential' | 'ambiguous' | 'inconsistent' | 'no-match';
+  confidenceBand: 'high' | 'medium' | 'low' | null;
+  studentId: string | null;
+}
+
+/**
+ * Why matchFace decides what it does for a face: every candidate's per-angle
+ * scores and the outcome of each acceptance rule, using the same thresholds
+ */
+export function explainMatch(
+  faceEmbedding: Float32Array,
+  storedEmbeddings: StoredFaceEmbedding[],
+  modelVersion: string = FACE_DESCRIPTOR_MODEL_VERSION,
+  thresholds: RecognitionThresholds = DESCRIPTOR_THRESHOLDS,
+  limit = 5
+): MatchExplanation {
+  const scored: CandidateExplanation[] = [];
+
+  for (const stored of storedEmbeddings) {
+    if (resolveModelVersion(stored.modelVersion) !== modelVersion) {
+      continue;
+    }
+
+    const isMultiAngle = !!stored.allEmbeddings && stored.allEmbeddings.length > 1;
+    const angles = isMultiAngle
+      ? stored.allEmbeddings!
+      : [{ embedding: stored.embedding, angle: stored.allEmbeddings?.[0]?.angle ?? 0 }];
+    const angleScores = angles
+      .filter(angleEmb => angleEmb.embedding.length === faceEmbedding.length)
+      .map(angleEmb => ({
+        angle: angleEmb.angle,
+        similarity: calculateSimilarity(faceEmbedding, new Float32Array(angleEmb.embedding)),
+      }));
+    if (angleScores.length === 0) continue;
+
+    const similarity = Math.max(...angleScores.map(score => score.similarity));
+    const anglesAboveThreshold = angleScores.filter(score => score.similarity >= thresholds.LOW_CONFIDENCE).length;
+    scored.push({
+      studentId: stored.studentId,
+      studentName: stored.studentName,
+      similarity,
+      angleScores,
+      anglesAboveThreshold,
+      isMultiAngle,
+      eligible: similarity >= thresholds.LOW_CONFIDENCE &&
+        (!isMultiAngle || anglesAboveThreshold >= thresholds.MIN_MATCHING_ANGLES),
+    });
+  }
+  scored.sort((a, b) => b.similarity - a.similarity);
+
+  const eligible = scored.filter(candidate => candidate.eligible);
+  const best = eligible[0];
+  const runnerUp = eligible[1];
+  const topScored = scored[0];
+
+  const explanation: MatchExplanation = {
+    modelVersion,
+    thresholds: { ...thresholds },
+    candidates: scored.slice(0, limit),
+    gapRule: { gap: null, skipped: false, passed: true },
+    multiAngleRule: {
+      passed: topScored?.isMultiAngle ? topScored.anglesAboveThreshold >= thresholds.MIN_MATCHING_ANGLES : null,
+    },
+    consistencyRule: { averageSimilarity: null, passed: true },
+    outcome: 'no-match',
+    confidenceBand: null,
+    studentId: null,
+  };
+  if (!best) return explanation;
+
+  if (runnerUp) {
+    explanation.gapRule.gap = best.similarity - runnerUp.similarity;
+    explanation.gapRule.skipped = best.similarity >= thresholds.UNAMBIGUOUS_SIMILARITY;
+    explanation.gapRule.passed = explanation.gapRule.skipped || explanation.gapRule.gap >= thresholds.AMBIGUITY_GAP;
+  }
+
+  if (best.isMultiAngle && best.similarity < thresholds.HIGH_CONFIDENCE) {
+    const average = best.angleScores.reduce((sum, score) => sum + score.similarity, 0) / best.angleScores.length;
+    explanation.consistencyRule = { averageSimilarity: average, passed: average >= best.similarity * 0.75 };
+  }
+
+  explanation.confidenceBand = best.similarity >= thresholds.HIGH_CONFIDENCE ? 'high'
+    : best.similarity >= thresholds.MEDIUM_CONFIDENCE ? 'medium' : 'low';
+
+  if (!explanation.gapRule.passed) {
+    explanation.outcome = 'ambiguous';
+  } else if (!explanation.consistencyRule.passed) {
+    explanation.outcome = 'inconsistent';
+  } else {
+    explanation.outcome = explanation.confidenceBand === 'medium' ? 'potential' : 'matched';
+    explanation.studentId = best.studentId;
+  }
+
+  return explanation;
+}
+
 /**
  * Generate stable ID for a face
  */
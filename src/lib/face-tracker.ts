@@ -0,0 +1,237 @@
+/**
+ * Multi-frame face tracking for the live recognition feed.
+ * Detections are associated across frames by box overlap and descriptor
+ * similarity, so a student is only committed after several consistent frames
+ * and an intruder alert only fires after several unmatched frames.
+ * Liveness samples are collected per track, and a student is only committed
+ * once the track has passed the liveness check.
+ */
+
+import { calculateSimilarity } from './face-detection-client';
+import {
+  assessLiveness,
+  DEFAULT_LIVENESS_CONFIG,
+  type LivenessConfig,
+  type LivenessResult,
+  type LivenessSample,
+} from './liveness';
+
+export interface TrackerConfig {
+  confirmFrames: number;        // N consistent named frames before committing a student
+  intruderFrames: number;       // M frames without a confident match before alerting
+  minIou: number;               // Box overlap that associates a detection with a track
+  minEmbeddingSimilarity: number; // Descriptor similarity that associates a detection with a track
+  maxMissedFrames: number;      // Frames a track survives without any detection
+  requireLiveness: boolean;     // Hold back confirmation until the track passes the liveness check
+  liveness: LivenessConfig;
+}
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  confirmFrames: 3,
+  intruderFrames: 5,
+  minIou: 0.3,
+  minEmbeddingSimilarity: 0.8,
+  maxMissedFrames: 3,
+  requireLiveness: true,
+  liveness: DEFAULT_LIVENESS_CONFIG,
+};
+
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A single face detected in one frame
+ */
+export interface TrackDetection {
+  boundingBox: NormalizedBox;
+  embedding: Float32Array;
+  name?: string;              // Set only for a confident match
+  isPotentialMatch?: boolean;
+  liveness?: LivenessSample;
+}
+
+export type TrackState = 'tentative' | 'confirmed' | 'intruder' | 'spoof';
+
+export interface FaceTrack {
+  id: string;
+  state: TrackState;
+  boundingBox: NormalizedBox;
+  embedding: Float32Array;    // Running average of the associated descriptors
+  candidateName?: string;     // Name the consecutive frames agree on
+  consistentFrames: number;
+  unmatchedFrames: number;
+  missedFrames: number;
+  confirmedName?: string;
+  livenessSamples: LivenessSample[];
+  liveness?: LivenessResult;  // Frozen once the verdict is 'live'
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export interface TrackerState {
+  tracks: FaceTrack[];
+  nextId: number;
+}
+
+export interface TrackUpdate {
+  /** Track for every detection, in the order the detections were given */
+  assignments: FaceTrack[];
+  /** Tracks that reached N consistent frames in this update */
+  confirmed: FaceTrack[];
+  /** Tracks that reached M unmatched frames in this update */
+  intruders: FaceTrack[];
+  /** Tracks that failed the liveness check in this update */
+  spoofs: FaceTrack[];
+}
+
+export function createTrackerState(): TrackerState {
+  return { tracks: [], nextId: 1 };
+}
+
+/**
+ * Intersection over union of two normalized boxes
+ */
+export function boxIou(a: NormalizedBox, b: NormalizedBox): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+function blendEmbedding(current: Float32Array, next: Float32Array, alpha = 0.3): Float32Array {
+  if (current.length !== next.length) return next;
+  const blended = new Float32Array(current.length);
+  for (let i = 0; i < current.length; i++) {
+    blended[i] = current[i] * (1 - alpha) + next[i] * alpha;
+  }
+  return blended;
+}
+
+/**
+ * Advance the tracker by one processed frame
+ */
+export function updateTracks(
+  state: TrackerState,
+  detections: TrackDetection[],
+  config: TrackerConfig = DEFAULT_TRACKER_CONFIG,
+  now: number = Date.now()
+): TrackUpdate {
+  // Score every track/detection pair that passes either association test
+  const pairs: Array<{ trackIndex: number; detectionIndex: number; score: number }> = [];
+  state.tracks.forEach((track, trackIndex) => {
+    detections.forEach((detection, detectionIndex) => {
+      const iou = boxIou(track.boundingBox, detection.boundingBox);
+      const similarity = calculateSimilarity(track.embedding, detection.embedding);
+      if (iou >= config.minIou || similarity >= config.minEmbeddingSimilarity) {
+        pairs.push({ trackIndex, detectionIndex, score: iou + similarity });
+      }
+    });
+  });
+
+  // Greedy assignment, best pairs first
+  pairs.sort((a, b) => b.score - a.score);
+  const trackForDetection = new Map<number, FaceTrack>();
+  const usedTracks = new Set<number>();
+  for (const pair of pairs) {
+    if (usedTracks.has(pair.trackIndex) || trackForDetection.has(pair.detectionIndex)) continue;
+    usedTracks.add(pair.trackIndex);
+    trackForDetection.set(pair.detectionIndex, state.tracks[pair.trackIndex]);
+  }
+
+  const confirmed: FaceTrack[] = [];
+  const intruders: FaceTrack[] = [];
+  const spoofs: FaceTrack[] = [];
+
+  const assignments = detections.map((detection, detectionIndex) => {
+    let track = trackForDetection.get(detectionIndex);
+    if (!track) {
+      track = {
+        id: `track-${now}-${state.nextId++}`,
+        state: 'tentative',
+        boundingBox: detection.boundingBox,
+        embedding: detection.embedding,
+        consistentFrames: 0,
+        unmatchedFrames: 0,
+        missedFrames: 0,
+        livenessSamples: [],
+        firstSeen: now,
+        lastSeen: now,
+      };
+      state.tracks.push(track);
+    } else {
+      track.boundingBox = detection.boundingBox;
+      track.embedding = blendEmbedding(track.embedding, detection.embedding);
+      track.missedFrames = 0;
+      track.lastSeen = now;
+    }
+
+    // Keep sampling until the track passes, over the latest maxFrames samples: a
+    // child who stood still long enough to be flagged can still pass by moving later
+    if (detection.liveness && track.liveness?.verdict !== 'live') {
+      track.livenessSamples = [...track.livenessSamples, detection.liveness].slice(-config.liveness.maxFrames);
+      track.liveness = assessLiveness(track.livenessSamples, config.liveness);
+
+      if (config.requireLiveness && track.liveness.verdict === 'spoof' && track.state !== 'spoof') {
+        track.state = 'spoof';
+        spoofs.push(track);
+      } else if (track.state === 'spoof' && track.liveness.verdict === 'live') {
+        track.state = 'tentative';
+        track.consistentFrames = 0;
+        track.unmatchedFrames = 0;
+      }
+    }
+
+    // A spoofed track commits no attendance and raises no intruder alert while it stays spoofed
+    if (track.state === 'spoof') {
+      return track;
+    }
+
+    const isLive = !config.requireLiveness || track.liveness?.verdict === 'live';
+
+    if (detection.name) {
+      // Consecutive frames must agree on the same student
+      track.consistentFrames = detection.name === track.candidateName ? track.consistentFrames + 1 : 1;
+      track.candidateName = detection.name;
+      track.unmatchedFrames = 0;
+
+      if (track.consistentFrames >= config.confirmFrames && isLive && track.confirmedName !== detection.name) {
+        track.state = 'confirmed';
+        track.confirmedName = detection.name;
+        confirmed.push(track);
+      }
+    } else {
+      track.consistentFrames = 0;
+      track.unmatchedFrames++;
+
+      if (track.state === 'tentative' && track.unmatchedFrames >= config.intruderFrames) {
+        track.state = 'intruder';
+        intruders.push(track);
+      }
+    }
+
+    return track;
+  });
+
+  // Age out tracks that were not seen in this frame
+  state.tracks = state.tracks.filter(track => {
+    if (assignments.includes(track)) return true;
+    track.missedFrames++;
+    return track.missedFrames <= config.maxMissedFrames;
+  });
+
+  return { assignments, confirmed, intruders, spoofs };
+}
+
+/**
+ * True while any track still needs more frames before a decision
+ */
+export function hasPendingTracks(state: TrackerState): boolean {
+  return state.tracks.some(track => track.state === 'tentative');
+}
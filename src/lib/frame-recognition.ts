@@ -0,0 +1,163 @@
+/**
+ * Per-frame recognition shared by the live feed and the on-device recognition
+ * worker (recognition.worker.ts): detect every face in a frame, describe it and
+ * match it against a roster. Only pixel data crosses this boundary, so the same
+ * code runs on the main thread and inside a Web Worker.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import {
+  detectFacesClient,
+  generateFaceEmbeddingClient,
+  matchFace,
+  rankCandidates,
+  type CandidateMatch,
+  type FaceMatch,
+  type StoredFaceEmbedding,
+} from './face-detection-client';
+import {
+  DESCRIPTOR_THRESHOLDS,
+  FACE_DESCRIPTOR_MODEL_VERSION,
+  LEGACY_EMBEDDING_MODEL_VERSION,
+  LEGACY_THRESHOLDS,
+  isDualReadModelVersion,
+  type RecognitionThresholds,
+} from './face-descriptor';
+import { computeLegacyHistogramEmbedding } from './legacy-embedding';
+import { landmarkPose, measureTextureData, type LivenessSample } from './liveness';
+
+export interface RecognitionRoster {
+  students: StoredFaceEmbedding[];
+  adults: StoredFaceEmbedding[]; // Authorized adults, matched with the same rules
+}
+
+export interface FrameFaceAnalysis {
+  box: { x: number; y: number; width: number; height: number }; // Pixels of the analysed frame
+  probability: number;
+  embedding: Float32Array;
+  liveness: LivenessSample;
+  match: FaceMatch | null;
+  adultMatch: FaceMatch | null;     // Only set when the adult wins over any student match
+  candidates?: CandidateMatch[];    // Top candidates when there is no confident student match
+}
+
+export type FaceCropper = (box: FrameFaceAnalysis['box']) => ImageData;
+
+/**
+ * Messages between the live feed and the recognition worker
+ */
+export type RecognitionWorkerRequest =
+  | { type: 'roster'; roster: RecognitionRoster }
+  | { type: 'frame'; requestId: number; frame: ImageBitmap; thresholds: RecognitionThresholds };
+
+export type RecognitionWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; requestId: number; faces: FrameFaceAnalysis[] }
+  | { type: 'error'; requestId?: number; error: string };
+
+/**
+ * Boost contrast in place (20%) before detection; helps BlazeFace in poor lighting
+ */
+export function enhanceContrast(image: ImageData, contrastFactor = 1.2): ImageData {
+  const data = image.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = Math.min(255, ((data[i] - 128) * contrastFactor) + 128);         // R
+    data[i + 1] = Math.min(255, ((data[i + 1] - 128) * contrastFactor) + 128); // G
+    data[i + 2] = Math.min(255, ((data[i + 2] - 128) * contrastFactor) + 128); // B
+  }
+  return image;
+}
+
+/**
+ * Detect, describe and match every face in a frame
+ * @param thresholds - Current-model thresholds from the recognition policy in force
+ */
+export async function analyzeFrame(
+  frame: HTMLCanvasElement | ImageData,
+  cropFace: FaceCropper,
+  roster: RecognitionRoster,
+  thresholds: RecognitionThresholds = DESCRIPTOR_THRESHOLDS
+): Promise<FrameFaceAnalysis[]> {
+  // Sensitive thresholds first (scoreThreshold 0.4), then even more sensitive if nothing was found
+  let predictions = await detectFacesClient(frame, true, 0.3, 0.4, 10);
+  if (predictions.length === 0) {
+    predictions = await detectFacesClient(frame, true, 0.3, 0.25, 10);
+  }
+
+  const hasLegacyRecords = roster.students.some(s => isDualReadModelVersion(s.modelVersion));
+  const faces: FrameFaceAnalysis[] = [];
+
+  for (const prediction of predictions) {
+    if (!prediction.topLeft || !prediction.bottomRight) continue;
+
+    // topLeft and bottomRight are tensors when returnTensors is true
+    const topLeft = Array.from(await prediction.topLeft.data()) as number[];
+    const bottomRight = Array.from(await prediction.bottomRight.data()) as number[];
+    if (topLeft.length < 2 || bottomRight.length < 2) continue;
+
+    // Use Math.min/max to ensure a correct box regardless of corner order
+    const box = {
+      x: Math.min(topLeft[0], bottomRight[0]),
+      y: Math.min(topLeft[1], bottomRight[1]),
+      width: Math.abs(bottomRight[0] - topLeft[0]),
+      height: Math.abs(bottomRight[1] - topLeft[1]),
+    };
+    const crop = cropFace(box);
+
+    // Liveness cues for this frame: landmark pose and crop texture
+    const landmarks: number[][] | null = prediction.landmarks
+      ? (Array.isArray(prediction.landmarks) ? prediction.landmarks : await prediction.landmarks.array())
+      : null;
+    const pose = landmarks ? landmarkPose(landmarks) : null;
+    const liveness: LivenessSample = {
+      yaw: pose?.yaw ?? null,
+      pitch: pose?.pitch ?? null,
+      ...measureTextureData(crop),
+    };
+
+    const faceTensor = tf.browser.fromPixels(crop);
+    const embedding = await generateFaceEmbeddingClient(faceTensor);
+
+    // Landmarks could not be aligned - not a usable face
+    if (!embedding) {
+      faceTensor.dispose();
+      continue;
+    }
+
+    let match = matchFace(embedding, roster.students, FACE_DESCRIPTOR_MODEL_VERSION, thresholds);
+
+    // Dual-read window: fall back to the legacy embedding for students whose
+    // records have not been re-embedded yet
+    if (!match && hasLegacyRecords) {
+      const legacyEmbedding = computeLegacyHistogramEmbedding(faceTensor);
+      match = matchFace(legacyEmbedding, roster.students, LEGACY_EMBEDDING_MODEL_VERSION, LEGACY_THRESHOLDS);
+    }
+    faceTensor.dispose();
+
+    // Authorized adults win over anything but a confident student match
+    let adultMatch = roster.adults.length > 0
+      ? matchFace(embedding, roster.adults, FACE_DESCRIPTOR_MODEL_VERSION, thresholds)
+      : null;
+    if (!adultMatch || adultMatch.isPotentialMatch ||
+        (match && !match.isPotentialMatch && adultMatch.confidence <= match.confidence)) {
+      adultMatch = null;
+    }
+
+    // Keep the top candidates so staff can resolve potential and ambiguous matches
+    const candidates = !adultMatch && (!match || match.isPotentialMatch)
+      ? rankCandidates(embedding, roster.students)
+      : undefined;
+
+    faces.push({
+      box,
+      probability: prediction.probability ? prediction.probability[0] : 0.9,
+      embedding,
+      liveness,
+      match,
+      adultMatch,
+      candidates,
+    });
+  }
+
+  return faces;
+}
@@ -0,0 +1,169 @@
+/**
+ * Passenger headcount from the live recognition feed.
+ *
+ * Every face track that the tracker decides on while boarding (a confirmed
+ * student or an unidentified person) is counted once per trip. Recognised
+ * students are de-duplicated by name and everyone else by descriptor
+ * similarity, so a rider whose track is lost and picked up again is not
+ * counted twice. Authorized adults and spoofed tracks are never counted.
+ *
+ * The headcount is reconciled against the trip's `On Board` attendance
+ * records (camera recognitions plus manual boardings). A difference has to
+ * persist before it is reported, so a student marked on board by staff a few
+ * seconds before walking past the camera does not raise an alert.
+ */
+
+import { format, parse } from 'date-fns';
+import { calculateSimilarity } from './face-detection-client';
+import { DESCRIPTOR_THRESHOLDS } from './face-descriptor';
+import { zonedTime } from './trip-schedule';
+
+export interface HeadcountConfig {
+  samePersonSimilarity: number; // Descriptor similarity above which two unidentified tracks are the same person
+  sustainMs: number;            // How long a difference must persist before it is reported
+}
+
+export const DEFAULT_HEADCOUNT_CONFIG: HeadcountConfig = {
+  samePersonSimilarity: DESCRIPTOR_THRESHOLDS.LOW_CONFIDENCE,
+  sustainMs: 60 * 1000,
+};
+
+export interface CountedPerson {
+  personId: string;
+  name: string | null;  // Recognised student, or null for an unidentified rider
+  embedding: number[];
+  firstSeen: number;
+}
+
+export interface HeadcountState {
+  people: CountedPerson[];
+  countedTrackIds: Set<string>;
+  pendingDiscrepancy: { type: HeadcountDiscrepancyType; since: number } | null;
+}
+
+export interface CountableTrack {
+  id: string;
+  name?: string;         // Confirmed student name
+  embedding: Float32Array;
+}
+
+/**
+ * 'unrecognised-rider': more people than On Board records.
+ * 'unconfirmed-boarding': fewer people than On Board records, so a boarding
+ * may have been marked for a student the camera never saw.
+ */
+export type HeadcountDiscrepancyType = 'unrecognised-rider' | 'unconfirmed-boarding';
+
+export interface HeadcountReconciliation {
+  headcount: number;
+  recognised: number;
+  unidentified: number;
+  onBoardCount: number;
+  discrepancy: { type: HeadcountDiscrepancyType; difference: number; since: number } | null;
+  isSustained: boolean; // The discrepancy has lasted for sustainMs
+}
+
+/**
+ * Trips are split by time of day: the morning pickup and the afternoon run home
+ */
+export function tripIdFor(date: Date = new Date(), timeZone?: string): string {
+  // Server code runs in UTC, so it passes the school's zone (see getTripSchedule)
+  if (timeZone) {
+    const { day, minutes } = zonedTime(date, timeZone);
+    return `${day}-${minutes < 12 * 60 ? 'am' : 'pm'}`;
+  }
+  return `${format(date, 'yyyy-MM-dd')}-${date.getHours() < 12 ? 'am' : 'pm'}`;
+}
+
+/**
+ * Whether an attendance record's `entry` time (hh:mm a, on `day`) falls in the trip
+ */
+export function isEntryInTrip(entry: string | null | undefined, tripId: string, day: Date = new Date()): boolean {
+  if (!entry) return false;
+  const boardedAt = parse(entry, 'hh:mm a', day);
+  return !isNaN(boardedAt.getTime()) && tripIdFor(boardedAt) === tripId;
+}
+
+export function createHeadcountState(people: CountedPerson[] = []): HeadcountState {
+  return { people, countedTrackIds: new Set(), pendingDiscrepancy: null };
+}
+
+/**
+ * Count newly decided tracks; returns the people added or newly identified
+ */
+export function countTracks(
+  state: HeadcountState,
+  tracks: CountableTrack[],
+  config: HeadcountConfig = DEFAULT_HEADCOUNT_CONFIG,
+  now: number = Date.now()
+): CountedPerson[] {
+  const changed: CountedPerson[] = [];
+
+  for (const track of tracks) {
+    if (state.countedTrackIds.has(track.id)) continue;
+    state.countedTrackIds.add(track.id);
+
+    // Recognised students match by name; otherwise by descriptor, but a named
+    // track never merges into a different named student
+    const isSamePerson = (person: CountedPerson) =>
+      (!track.name || !person.name) &&
+      calculateSimilarity(track.embedding, new Float32Array(person.embedding)) >= config.samePersonSimilarity;
+    const existing = (track.name && state.people.find(person => person.name === track.name)) ||
+      state.people.find(isSamePerson);
+
+    if (existing) {
+      // A rider first counted as unidentified and later recognised is the same person
+      if (track.name && !existing.name) {
+        existing.name = track.name;
+        changed.push(existing);
+      }
+      continue;
+    }
+
+    const person: CountedPerson = {
+      personId: `person-${now}-${state.people.length + 1}`,
+      name: track.name ?? null,
+      embedding: Array.from(track.embedding),
+      firstSeen: now,
+    };
+    state.people.push(person);
+    changed.push(person);
+  }
+
+  return changed;
+}
+
+/**
+ * Compare the headcount with the number of On Board records for the trip
+ */
+export function reconcileHeadcount(
+  state: HeadcountState,
+  onBoardCount: number,
+  config: HeadcountConfig = DEFAULT_HEADCOUNT_CONFIG,
+  now: number = Date.now()
+): HeadcountReconciliation {
+  const headcount = state.people.length;
+  const recognised = state.people.filter(person => person.name).length;
+  const difference = headcount - onBoardCount;
+  const type: HeadcountDiscrepancyType | null =
+    difference > 0 ? 'unrecognised-rider' : difference < 0 ? 'unconfirmed-boarding' : null;
+
+  if (!type) {
+    state.pendingDiscrepancy = null;
+  } else if (state.pendingDiscrepancy?.type !== type) {
+    state.pendingDiscrepancy = { type, since: now };
+  }
+
+  const discrepancy = type && state.pendingDiscrepancy
+    ? { type, difference: Math.abs(difference), since: state.pendingDiscrepancy.since }
+    : null;
+
+  return {
+    headcount,
+    recognised,
+    unidentified: headcount - recognised,
+    onBoardCount,
+    discrepancy,
+    isSustained: !!discrepancy && now - discrepancy.since >= config.sustainMs,
+  };
+}
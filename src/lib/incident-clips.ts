@@ -0,0 +1,297 @@
+/**
+ * Event clips: short videos of the moments around a bus incident.
+ *
+ * The staff device keeps a rolling in-memory buffer of recent camera frames.
+ * When an incident is raised under busIncidents/{busId} (an intruder alert, the
+ * panic button, harsh driving), it waits for the post-event window, encodes the
+ * buffered frames around the event into a clip, uploads it to Storage and links
+ * it to the incident and to the alert that caused it.
+ *
+ * Clips are unredacted, so they are kept like restricted snapshots:
+ * - Records carry only the clip's storagePath, never a download URL. The
+ *   storage rules (storage.rules) let the device upload a clip but let only
+ *   the server account read or delete one.
+ * - Admins play a clip through viewIncidentClipAction, which checks their
+ *   session and logs the view.
+ * - Every upload is indexed under incidentClipExpiry and deleted by the daily
+ *   purge, which runs as the server account.
+ */
+
+import { db, storage } from './firebase';
+import { ref as dbRef, get, push, set, update, remove, query, orderByChild, endAt } from 'firebase/database';
+import { ref as storageRef, uploadBytes, deleteObject } from 'firebase/storage';
+
+export type IncidentKind = 'intruder' | 'panic' | 'harsh-driving';
+
+export type ClipStatus = 'pending' | 'recording' | 'uploading' | 'ready' | 'failed' | 'expired';
+
+export interface IncidentClip {
+  storagePath: string; // Readable by the server account only
+  mimeType: string;
+  startedAt: number;  // Epoch ms of the first frame
+  eventAt: number;    // Epoch ms of the incident, for the timeline marker
+  endedAt: number;    // Epoch ms of the last frame
+  frameCount: number;
+  expiresAt: number;
+}
+
+export interface BusIncident {
+  id: string;
+  kind: IncidentKind;
+  busId: string;
+  cameraId?: string | null; // Camera that should record the clip; the bus's lead camera when unset
+  timestamp: string;
+  detail: string | null;
+  alertPath: string | null; // Record the incident came from, e.g. intruderAlerts/{id}
+  clipStatus: ClipStatus;
+  clip?: IncidentClip | null;
+  clipError?: string | null;
+}
+
+export const CLIP_STATUS_LABELS: Record<ClipStatus, string> = {
+  'pending': 'Clip pending',
+  'recording': 'Recording clip',
+  'uploading': 'Uploading clip',
+  'ready': 'Clip ready',
+  'failed': 'Clip failed',
+  'expired': 'Clip expired',
+};
+
+export const CLIP_CONFIG = {
+  fps: 4,
+  width: 640,
+  jpegQuality: 0.7,
+  preEventMs: 20 * 1000,
+  postEventMs: 10 * 1000,
+  videoBitsPerSecond: 600 * 1000,
+  retentionDays: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FRAME_GAP_MS = 1000; // Gaps in the buffer (a stalled camera) are not replayed in full
+
+export const INCIDENT_CLIP_FOLDER = 'incident-clips';
+
+export function incidentPath(busId: string, incidentId?: string): string {
+  return `busIncidents/${busId}${incidentId ? `/${incidentId}` : ''}`;
+}
+
+/**
+ * Queue an incident for the bus; the staff device records its clip
+ */
+export async function raiseIncident(
+  busId: string,
+  kind: IncidentKind,
+  options: { detail?: string; alertPath?: string; cameraId?: string } = {}
+): Promise<string> {
+  const incidentRef = push(dbRef(db, incidentPath(busId)));
+  const incident: Omit<BusIncident, 'id'> = {
+    kind,
+    busId,
+    cameraId: options.cameraId ?? null,
+    timestamp: new Date().toISOString(),
+    detail: options.detail ?? null,
+    alertPath: options.alertPath ?? null,
+    clipStatus: 'pending',
+    clip: null,
+  };
+  await set(incidentRef, incident);
+  if (options.alertPath) {
+    await update(dbRef(db, options.alertPath), { incidentId: incidentRef.key, clipStatus: 'pending' });
+  }
+  console.log(`🎬 ${kind} incident raised on ${busId}`);
+  return incidentRef.key!;
+}
+
+export interface ClipFrame {
+  at: number;
+  blob: Blob;
+}
+
+export interface ClipBuffer {
+  frames: ClipFrame[];
+  canvas: HTMLCanvasElement | null;
+  capturing: boolean;
+}
+
+export function createClipBuffer(): ClipBuffer {
+  return { frames: [], canvas: null, capturing: false };
+}
+
+/**
+ * Add the current video frame to the buffer and drop frames too old to be
+ * in any clip. Frames are kept as JPEG blobs, about 5 MB for a full buffer.
+ */
+export async function captureClipFrame(buffer: ClipBuffer, video: HTMLVideoElement, now = Date.now()): Promise<void> {
+  if (buffer.capturing || video.readyState < 2 || !video.videoWidth) return;
+  buffer.capturing = true;
+  try {
+    buffer.canvas ??= document.createElement('canvas');
+    const scale = Math.min(1, CLIP_CONFIG.width / video.videoWidth);
+    buffer.canvas.width = Math.round(video.videoWidth * scale);
+    buffer.canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = buffer.canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0, buffer.canvas.width, buffer.canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve =>
+      buffer.canvas!.toBlob(resolve, 'image/jpeg', CLIP_CONFIG.jpegQuality)
+    );
+    if (!blob) return;
+
+    const oldest = now - CLIP_CONFIG.preEventMs - CLIP_CONFIG.postEventMs;
+    buffer.frames = [...buffer.frames.filter(frame => frame.at >= oldest), { at: now, blob }];
+  } finally {
+    buffer.capturing = false;
+  }
+}
+
+/**
+ * Buffered frames in the clip window around an event
+ */
+export function clipFrames(buffer: ClipBuffer, eventAt: number): ClipFrame[] {
+  const from = eventAt - CLIP_CONFIG.preEventMs;
+  const to = eventAt + CLIP_CONFIG.postEventMs;
+  return buffer.frames.filter(frame => frame.at >= from && frame.at <= to);
+}
+
+function clipMimeType(): string {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+}
+
+/**
+ * Encode frames into a video by replaying them onto a canvas at their
+ * original pace. Takes about as long as the clip.
+ */
+export async function encodeClip(frames: ClipFrame[]): Promise<Blob> {
+  if (frames.length === 0) throw new Error('No frames buffered for this clip');
+  if (typeof MediaRecorder === 'undefined') throw new Error('Video recording is not supported on this device');
+
+  const first = await createImageBitmap(frames[0].blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = first.width;
+  canvas.height = first.height;
+  first.close();
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+
+  const stream = canvas.captureStream(CLIP_CONFIG.fps);
+  const mimeType = clipMimeType();
+  const recorder = new MediaRecorder(stream, {
+    ...(mimeType && { mimeType }),
+    videoBitsPerSecond: CLIP_CONFIG.videoBitsPerSecond,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start();
+  for (let i = 0; i < frames.length; i++) {
+    const bitmap = await createImageBitmap(frames[i].blob);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    const next = frames[i + 1];
+    const hold = next ? Math.min(next.at - frames[i].at, MAX_FRAME_GAP_MS) : 1000 / CLIP_CONFIG.fps;
+    await new Promise(resolve => setTimeout(resolve, hold));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+
+  return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+}
+
+/**
+ * Upload an encoded clip and link it to the incident and its alert
+ */
+export async function uploadIncidentClip(
+  incident: BusIncident,
+  video: Blob,
+  frames: ClipFrame[]
+): Promise<IncidentClip> {
+  const extension = video.type.includes('mp4') ? 'mp4' : 'webm';
+  const storagePath = `${INCIDENT_CLIP_FOLDER}/${incident.busId}/${incident.id}.${extension}`;
+  const clipRef = storageRef(storage, storagePath);
+  await uploadBytes(clipRef, video, { contentType: video.type });
+
+  const clip: IncidentClip = {
+    storagePath,
+    mimeType: video.type,
+    startedAt: frames[0].at,
+    eventAt: new Date(incident.timestamp).getTime(),
+    endedAt: frames[frames.length - 1].at,
+    frameCount: frames.length,
+    expiresAt: Date.now() + CLIP_CONFIG.retentionDays * DAY_MS,
+  };
+
+  const updates: Record<string, unknown> = {
+    [`${incidentPath(incident.busId, incident.id)}/clip`]: clip,
+    [`${incidentPath(incident.busId, incident.id)}/clipStatus`]: 'ready',
+  };
+  if (incident.alertPath) {
+    updates[`${incident.alertPath}/clip`] = clip;
+    updates[`${incident.alertPath}/clipStatus`] = 'ready';
+  }
+  await update(dbRef(db), updates);
+  await set(push(dbRef(db, 'incidentClipExpiry')), {
+    storagePath,
+    incidentPath: incidentPath(incident.busId, incident.id),
+    alertPath: incident.alertPath,
+    expiresAt: clip.expiresAt,
+  });
+
+  console.log(`🎬 Clip for ${incident.kind} incident on ${incident.busId} uploaded (${frames.length} frames)`);
+  return clip;
+}
+
+export async function setClipStatus(incident: BusIncident, clipStatus: ClipStatus, clipError?: string): Promise<void> {
+  const updates: Record<string, unknown> = {
+    [`${incidentPath(incident.busId, incident.id)}/clipStatus`]: clipStatus,
+    [`${incidentPath(incident.busId, incident.id)}/clipError`]: clipError ?? null,
+  };
+  if (incident.alertPath) {
+    updates[`${incident.alertPath}/clipStatus`] = clipStatus;
+  }
+  await update(dbRef(db), updates);
+}
+
+/**
+ * Delete every clip past its expiry and unlink it from its records.
+ * Server only: the caller must be signed in as the server account.
+ */
+export async function purgeExpiredClips(): Promise<{ purged: number; failed: number }> {
+  const expired = await get(query(dbRef(db, 'incidentClipExpiry'), orderByChild('expiresAt'), endAt(Date.now())));
+
+  let purged = 0;
+  let failed = 0;
+  const entries: Array<[string, { storagePath: string; incidentPath: string; alertPath: string | null }]> =
+    Object.entries(expired.val() || {});
+  for (const [entryId, entry] of entries) {
+    try {
+      await deleteObject(storageRef(storage, entry.storagePath)).catch(error => {
+        if (error?.code !== 'storage/object-not-found') throw error;
+      });
+      const updates: Record<string, unknown> = {
+        [`${entry.incidentPath}/clip`]: null,
+        [`${entry.incidentPath}/clipStatus`]: 'expired',
+      };
+      // Intruder alerts are pruned after a day, so the alert may be gone already
+      if (entry.alertPath && (await get(dbRef(db, entry.alertPath))).exists()) {
+        updates[`${entry.alertPath}/clip`] = null;
+        updates[`${entry.alertPath}/clipStatus`] = 'expired';
+      }
+      await update(dbRef(db), updates);
+      await remove(dbRef(db, `incidentClipExpiry/${entryId}`));
+      purged++;
+    } catch (error) {
+      failed++;
+      console.error(`Failed to purge incident clip ${entryId}:`, error);
+    }
+  }
+
+  console.log(`🧹 Incident clips: ${purged} expired clip(s) deleted, ${failed} failed`);
+  return { purged, failed };
+}
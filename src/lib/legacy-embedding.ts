@@ -0,0 +1,114 @@
+/**
+ * Legacy grayscale-histogram face embedding ('histogram-v0').
+ * Kept only so records that have not yet been re-embedded can still be
+ * matched during a descriptor migration (see embedding-migration.ts).
+ * Do not use it for new enrolments.
+ */
+
+import * as tf from '@tensorflow/tfjs';
+import { LEGACY_EMBEDDING_SIZE } from './face-descriptor';
+
+/**
+ * Generate the legacy 512-dimensional histogram embedding for a face crop
+ */
+export function computeLegacyHistogramEmbedding(faceTensor: tf.Tensor3D): Float32Array {
+  return tf.tidy(() => {
+    // Resize to 256x256 first
+    const resized = tf.image.resizeBilinear(faceTensor, [256, 256]);
+    
+    // Convert to grayscale and normalize
+    const grayscale = tf.image.rgbToGrayscale(resized);
+    const normalizedGray = tf.div(grayscale, 255.0);
+    
+    // Enhance contrast
+    const enhanced = tf.clipByValue(
+      tf.mul(normalizedGray, 1.15), // 15% contrast boost
+      0,
+      1
+    );
+    
+    // Scale back to 0-255 and tile to 3 channels
+    const enhancedScaled = tf.mul(enhanced, 255);
+    const grayscale3Channel = tf.tile(enhancedScaled, [1, 1, 3]) as tf.Tensor3D;
+    
+    // Generate multiple scales for better features - same on server and client
+    const scales = [1.0, 0.85, 0.7, 0.5];
+    const featureMaps = scales.map(scale => {
+      const scaled = tf.image.resizeBilinear(
+        grayscale3Channel,
+        [Math.round(224 * scale), Math.round(224 * scale)]
+      );
+      
+      // Extract features using moments and histogram
+      const moments = tf.moments(scaled, [0, 1]);
+      const mean = moments.mean;
+      const variance = moments.variance;
+      
+      // Create histogram-like features
+      const bins = 32;
+      const minVal = tf.min(scaled);
+      const maxVal = tf.max(scaled);
+      const range = maxVal.sub(minVal);
+      const step = range.div(tf.scalar(bins));
+      
+      // Generate histogram features using tf.stack
+      const histogramBins = [];
+      for (let i = 0; i < bins; i++) {
+        const binStart = minVal.add(step.mul(tf.scalar(i)));
+        const binEnd = binStart.add(step);
+        const mask = tf.logicalAnd(
+          tf.greaterEqual(scaled, binStart),
+          tf.less(scaled, binEnd)
+        );
+        const count = tf.sum(tf.cast(mask, 'float32'));
+        histogramBins.push(count);
+      }
+      const histogram = tf.stack(histogramBins);
+      
+      return tf.concat([mean, variance, histogram]);
+    });
+    
+    // Combine all features
+    const combined = tf.concat(featureMaps);
+    
+    // Ensure exactly 512 dimensions
+    const targetSize = LEGACY_EMBEDDING_SIZE;
+    let finalFeatures: tf.Tensor1D;
+    
+    if (combined.shape[0] > targetSize) {
+      // If we have more features, truncate to 512
+      finalFeatures = combined.slice([0], [targetSize]) as tf.Tensor1D;
+    } else if (combined.shape[0] < targetSize) {
+      // If we have fewer features, replicate and pad intelligently
+      // This prevents having large blocks of zeros
+      const repetitions = Math.floor(targetSize / combined.shape[0]);
+      const remainder = targetSize % combined.shape[0];
+      
+      const repeated = [];
+      for (let i = 0; i < repetitions; i++) {
+        repeated.push(combined);
+      }
+      if (remainder > 0) {
+        repeated.push(combined.slice([0], [remainder]));
+      }
+      
+      finalFeatures = tf.concat(repeated) as tf.Tensor1D;
+    } else {
+      finalFeatures = combined as tf.Tensor1D;
+    }
+    
+    // Normalize features AFTER ensuring correct size
+    const featuresMean = tf.mean(finalFeatures);
+    const featureVariance = tf.moments(finalFeatures).variance;
+    const featuresStd = tf.sqrt(tf.add(featureVariance, 1e-8));
+    
+    const normalizedFeatures = tf.div(
+      tf.sub(finalFeatures, featuresMean), 
+      featuresStd
+    ) as tf.Tensor1D;
+    
+    const result = normalizedFeatures.dataSync() as Float32Array;
+    
+    return result;
+  });
+}
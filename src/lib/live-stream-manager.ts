@@ -1,5 +1,10 @@
+/**
+ * Live feeds from bus cameras. Each function's busId is the camera's feed id:
+ * the bus id for its main camera, cameraFeedKey(busId, cameraId) for others.
+ */
+
 import { db, storage } from './firebase';
-import { ref as dbRef, set, get, onValue, remove, query, orderByChild, limitToLast } from 'firebase/database';
+import { ref as dbRef, set, get, push, onValue, onChildAdded, onChildRemoved, onDisconnect, remove, query, orderByChild, limitToLast } from 'firebase/database';
 import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject, listAll } from 'firebase/storage';
 
 export interface LiveFeedFrame {
@@ -132,6 +137,315 @@ export function startLiveBroadcast(
   };
 }
 
+/**
+ * WebRTC live video.
+ *
+ * The bus tablet is the broadcaster; each viewer opens its own peer
+ * connection. Signalling goes through liveSignals/{busId}:
+ * - broadcaster: presence and heartbeat of the tablet
+ * - sessions/{sessionId}: the viewer's offer, the tablet's answer, and ICE
+ *   candidates from both sides (viewerCandidates / broadcasterCandidates).
+ *   The database rules only let a viewer open a session whose id the server
+ *   issued to a signed-in admin (see liveViewerTickets)
+ * - fallbackViewers/{sessionId}: viewers that need JPEG snapshots instead
+ *   (their peer connection failed, or they show a thumbnail). While any are
+ *   present the tablet also runs the snapshot broadcast, at the shortest
+ *   interval any of them asked for
+ */
+
+export type LiveVideoState = 'connecting' | 'connected' | 'failed' | 'closed';
+
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+];
+
+/**
+ * ICE servers for both ends, from NEXT_PUBLIC_LIVE_ICE_SERVERS (a JSON
+ * RTCIceServer[]). STUN alone cannot cross the symmetric NAT of most mobile
+ * networks, so production should list a TURN server there.
+ */
+function liveIceServers(): RTCIceServer[] {
+  const configured = process.env.NEXT_PUBLIC_LIVE_ICE_SERVERS;
+  if (!configured) return DEFAULT_ICE_SERVERS;
+  try {
+    const servers = JSON.parse(configured);
+    if (Array.isArray(servers) && servers.length > 0) return servers;
+  } catch (error) {
+    console.error('NEXT_PUBLIC_LIVE_ICE_SERVERS is not valid JSON:', error);
+  }
+  return DEFAULT_ICE_SERVERS;
+}
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+const BROADCASTER_STALE_MS = 10000;
+const FALLBACK_REFRESH_MS = 30000;
+const FALLBACK_STALE_MS = 90000;
+const DEFAULT_SNAPSHOT_INTERVAL_MS = 3000;
+
+interface FallbackRequest {
+  requestedAt: number;
+  intervalMs: number;
+}
+
+const signalsPath = (busId: string) => `liveSignals/${busId}`;
+
+/**
+ * Broadcast the camera in `videoElement` to every viewer over WebRTC, with the
+ * snapshot broadcast started on demand for viewers that cannot connect
+ * @returns Cleanup function that stops broadcasting
+ */
+export function startLiveVideo(busId: string, videoElement: HTMLVideoElement): () => void {
+  const stream = videoElement.srcObject as MediaStream | null;
+  if (!stream) {
+    throw new Error('The camera is not running');
+  }
+
+  const peers = new Map<string, { pc: RTCPeerConnection; unsubscribe: () => void }>();
+  const broadcasterRef = dbRef(db, `${signalsPath(busId)}/broadcaster`);
+  const startedAt = Date.now();
+  let stopSnapshots: (() => void) | null = null;
+
+  const heartbeat = () => set(broadcasterRef, { startedAt, heartbeatAt: Date.now() })
+    .catch(error => console.error('Error updating broadcaster heartbeat:', error));
+  onDisconnect(broadcasterRef).remove();
+  heartbeat();
+  const heartbeatInterval = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS);
+
+  const closePeer = (sessionId: string) => {
+    const peer = peers.get(sessionId);
+    if (!peer) return;
+    peer.unsubscribe();
+    peer.pc.close();
+    peers.delete(sessionId);
+  };
+
+  const answerSession = async (sessionId: string, offer: RTCSessionDescriptionInit) => {
+    const sessionPath = `${signalsPath(busId)}/sessions/${sessionId}`;
+    const pc = new RTCPeerConnection({ iceServers: liveIceServers() });
+    stream.getTracks().forEach(track => pc.addTrack(track, stream));
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        push(dbRef(db, `${sessionPath}/broadcasterCandidates`), event.candidate.toJSON())
+          .catch(error => console.error('Error sending broadcaster ICE candidate:', error)); // Refused once the viewer has left
+      }
+    };
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
+        closePeer(sessionId);
+      }
+    };
+
+    await pc.setRemoteDescription(offer);
+    const answer = await pc.createAnswer();
+    await pc.setLocalDescription(answer);
+    await set(dbRef(db, `${sessionPath}/answer`), { type: answer.type, sdp: answer.sdp });
+
+    const unsubscribe = onChildAdded(dbRef(db, `${sessionPath}/viewerCandidates`), (snapshot) => {
+      pc.addIceCandidate(new RTCIceCandidate(snapshot.val()))
+        .catch(error => console.error('Error adding viewer ICE candidate:', error));
+    });
+    peers.set(sessionId, { pc, unsubscribe });
+    console.log(`📡 Live video session ${sessionId} answered for bus ${busId}`);
+  };
+
+  const sessionsRef = dbRef(db, `${signalsPath(busId)}/sessions`);
+  const unsubscribeAdded = onChildAdded(sessionsRef, (snapshot) => {
+    const session = snapshot.val();
+    // Sessions answered by an earlier broadcast are dead; their viewers will reconnect
+    if (!session?.offer || session.answer || !snapshot.key) return;
+    answerSession(snapshot.key, session.offer)
+      .catch(error => console.error(`Error answering live video session ${snapshot.key}:`, error));
+  });
+  const unsubscribeRemoved = onChildRemoved(sessionsRef, (snapshot) => {
+    if (snapshot.key) closePeer(snapshot.key);
+  });
+
+  // Snapshot fallback, only while a viewer needs it and only as often as the most demanding one
+  let snapshotInterval: number | null = null;
+  const unsubscribeFallback = onValue(dbRef(db, `${signalsPath(busId)}/fallbackViewers`), (snapshot) => {
+    const requests: Record<string, FallbackRequest> = snapshot.val() || {};
+    const intervals = Object.values(requests)
+      .filter(request => Date.now() - request.requestedAt < FALLBACK_STALE_MS)
+      .map(request => request.intervalMs || DEFAULT_SNAPSHOT_INTERVAL_MS);
+    const wanted = intervals.length > 0 ? Math.min(...intervals) : null;
+    if (wanted === snapshotInterval) return;
+
+    if (stopSnapshots) {
+      stopSnapshots();
+      stopSnapshots = null;
+    }
+    if (wanted !== null) {
+      console.log(`📸 Snapshot fallback ${snapshotInterval === null ? 'started' : 'changed'} for bus ${busId} (every ${wanted / 1000}s)`);
+      stopSnapshots = startLiveBroadcast(busId, videoElement, wanted);
+    } else {
+      stopAndCleanupBroadcast(busId);
+    }
+    snapshotInterval = wanted;
+  });
+
+  console.log(`📡 Live video broadcast started for bus ${busId}`);
+
+  return () => {
+    clearInterval(heartbeatInterval);
+    unsubscribeAdded();
+    unsubscribeRemoved();
+    unsubscribeFallback();
+    Array.from(peers.keys()).forEach(closePeer);
+    if (stopSnapshots) {
+      stopSnapshots();
+      stopAndCleanupBroadcast(busId);
+    }
+    onDisconnect(broadcasterRef).cancel();
+    remove(dbRef(db, signalsPath(busId))).catch(error => console.error('Error clearing live video signals:', error));
+    console.log(`📡 Live video broadcast stopped for bus ${busId}`);
+  };
+}
+
+/**
+ * Watch a bus's live video over WebRTC
+ * @param sessionId - Issued by openLiveVideoSessionAction for the signed-in admin
+ * @param onStream - Called with the remote stream once media arrives
+ * @param onStateChange - 'failed' means the caller should fall back to snapshots
+ * @param connectTimeout - Give up if no connection is established in this time
+ * @returns Cleanup function that closes the connection
+ */
+export function connectLiveVideo(
+  busId: string,
+  sessionId: string,
+  onStream: (stream: MediaStream) => void,
+  onStateChange: (state: LiveVideoState) => void,
+  connectTimeout: number = 15000
+): () => void {
+  const sessionPath = `${signalsPath(busId)}/sessions/${sessionId}`;
+  const sessionRef = dbRef(db, sessionPath);
+  const pc = new RTCPeerConnection({ iceServers: liveIceServers() });
+  const unsubscribers: Array<() => void> = [];
+  let state: LiveVideoState = 'connecting';
+
+  const setState = (next: LiveVideoState) => {
+    if (state === next || state === 'closed') return;
+    state = next;
+    onStateChange(next);
+  };
+
+  const close = (finalState: LiveVideoState) => {
+    clearTimeout(timeout);
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    pc.close();
+    onDisconnect(sessionRef).cancel();
+    remove(sessionRef).catch(() => {});
+    setState(finalState);
+  };
+
+  const timeout = setTimeout(() => {
+    if (state === 'connecting') {
+      console.warn(`Live video for bus ${busId} did not connect within ${connectTimeout / 1000}s`);
+      close('failed');
+    }
+  }, connectTimeout);
+
+  pc.addTransceiver('video', { direction: 'recvonly' });
+  pc.ontrack = (event) => {
+    onStream(event.streams[0] ?? new MediaStream([event.track]));
+  };
+  // The rules refuse candidates until the session exists, so hold early ones back
+  let sessionOpened = false;
+  const pendingCandidates: RTCIceCandidateInit[] = [];
+  const sendCandidate = (candidate: RTCIceCandidateInit) => {
+    push(dbRef(db, `${sessionPath}/viewerCandidates`), candidate)
+      .catch(error => console.error('Error sending viewer ICE candidate:', error));
+  };
+  pc.onicecandidate = (event) => {
+    if (!event.candidate) return;
+    if (sessionOpened) {
+      sendCandidate(event.candidate.toJSON());
+    } else {
+      pendingCandidates.push(event.candidate.toJSON());
+    }
+  };
+  pc.onconnectionstatechange = () => {
+    if (pc.connectionState === 'connected') {
+      clearTimeout(timeout);
+      setState('connected');
+    } else if (pc.connectionState === 'failed') {
+      close('failed');
+    }
+  };
+
+  (async () => {
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    onDisconnect(sessionRef).remove();
+    await set(sessionRef, { offer: { type: offer.type, sdp: offer.sdp }, createdAt: Date.now() });
+    sessionOpened = true;
+    pendingCandidates.splice(0).forEach(sendCandidate);
+
+    let answered = false;
+    // A rejected answer or candidate leaves the connection unusable; fall back to snapshots
+    unsubscribers.push(onValue(dbRef(db, `${sessionPath}/answer`), (snapshot) => {
+      if (answered || !snapshot.exists()) return;
+      answered = true;
+      pc.setRemoteDescription(snapshot.val())
+        .then(() => {
+          if (state === 'closed' || state === 'failed') return;
+          unsubscribers.push(onChildAdded(dbRef(db, `${sessionPath}/broadcasterCandidates`), (candidate) => {
+            pc.addIceCandidate(new RTCIceCandidate(candidate.val())).catch(error => {
+              console.error('Error adding broadcaster ICE candidate:', error);
+              close('failed');
+            });
+          }));
+        })
+        .catch(error => {
+          console.error('Error applying live video answer:', error);
+          close('failed');
+        });
+    }));
+  })().catch(error => {
+    console.error('Error starting live video session:', error);
+    close('failed');
+  });
+
+  return () => close('closed');
+}
+
+/**
+ * Ask the bus to run the snapshot broadcast, for a viewer that cannot use
+ * WebRTC or only shows a thumbnail
+ * @param intervalMs - How often this viewer needs a new frame
+ * @returns Function that withdraws the request
+ */
+export function requestSnapshotFallback(busId: string, intervalMs: number = DEFAULT_SNAPSHOT_INTERVAL_MS): () => void {
+  const requestRef = push(dbRef(db, `${signalsPath(busId)}/fallbackViewers`));
+  const refresh = () => {
+    const request: FallbackRequest = { requestedAt: Date.now(), intervalMs };
+    set(requestRef, request).catch(error => console.error('Error requesting snapshot fallback:', error));
+  };
+  onDisconnect(requestRef).remove();
+  refresh();
+  const interval = setInterval(refresh, FALLBACK_REFRESH_MS);
+
+  return () => {
+    clearInterval(interval);
+    onDisconnect(requestRef).cancel();
+    remove(requestRef).catch(() => {});
+  };
+}
+
+/**
+ * Whether the bus tablet is currently offering WebRTC video
+ */
+export async function isLiveVideoAvailable(busId: string): Promise<boolean> {
+  try {
+    const snapshot = await get(dbRef(db, `${signalsPath(busId)}/broadcaster`));
+    return snapshot.exists() && Date.now() - snapshot.val().heartbeatAt < BROADCASTER_STALE_MS;
+  } catch (error) {
+    console.error('Error checking live video status:', error);
+    return false;
+  }
+}
+
 /**
  * Subscribe to live feed updates for a bus
  * @param busId - ID of the bus
@@ -244,6 +558,9 @@ export async function stopAndCleanupBroadcast(busId: string): Promise<void> {
  */
 export async function isBroadcasting(busId: string): Promise<boolean> {
   try {
+    // Live video needs no uploads, so the tablet's heartbeat counts as broadcasting
+    if (await isLiveVideoAvailable(busId)) return true;
+
     const feedRef = dbRef(db, `liveFeeds/${busId}/current`);
     const snapshot = await get(feedRef);
     
@@ -267,11 +584,13 @@ export async function isBroadcasting(busId: string): Promise<boolean> {
  */
 export async function getBroadcastStats(busId: string): Promise<{
   isActive: boolean;
+  transport: 'webrtc' | 'snapshot' | null; // WebRTC while the tablet is offering video
   lastFrameTimestamp: number | null;
   timeSinceLastFrame: number | null;
   frameCount: number;
 }> {
   try {
+    const liveVideo = await isLiveVideoAvailable(busId);
     const feedRef = dbRef(db, `liveFeeds/${busId}/current`);
     const snapshot = await get(feedRef);
     
@@ -284,7 +603,8 @@ export async function getBroadcastStats(busId: string): Promise<{
       const timeSince = now - data.timestamp;
       
       return {
-        isActive: timeSince < 10000,
+        isActive: liveVideo || timeSince < 10000,
+        transport: liveVideo ? 'webrtc' : timeSince < 10000 ? 'snapshot' : null,
         lastFrameTimestamp: data.timestamp,
         timeSinceLastFrame: timeSince,
         frameCount: fileList.items.length
@@ -292,7 +612,8 @@ export async function getBroadcastStats(busId: string): Promise<{
     }
     
     return {
-      isActive: false,
+      isActive: liveVideo,
+      transport: liveVideo ? 'webrtc' : null,
       lastFrameTimestamp: null,
       timeSinceLastFrame: null,
       frameCount: fileList.items.length
@@ -301,6 +622,7 @@ export async function getBroadcastStats(busId: string): Promise<{
     console.error('Error getting broadcast stats:', error);
     return {
       isActive: false,
+      transport: null,
       lastFrameTimestamp: null,
       timeSinceLastFrame: null,
       frameCount: 0
@@ -0,0 +1,169 @@
+/**
+ * Liveness / anti-spoofing heuristics for the live recognition feed.
+ *
+ * A face track must show two kinds of evidence before a recognition may
+ * commit attendance:
+ * - Landmark motion: a real head turns and nods slightly between frames, so the
+ *   nose moves relative to the eyes. A photo or screen held up to the camera
+ *   only moves rigidly, keeping that geometry constant.
+ * - Texture: reprinted photos lose fine skin detail (low Laplacian variance).
+ *
+ * The moiré ratio (pixel-level high-frequency energy, which phone and tablet
+ * screens raise) is measured and kept with spoof alerts, but it does not
+ * decide anything: plain sensor noise already scores about 2.24, so grainy
+ * tablet cameras cannot be told from screens until a threshold is calibrated
+ * against real captures.
+ *
+ * The thresholds are deliberately conservative; tune them against recorded
+ * spoof attempts before tightening.
+ */
+
+export interface LivenessConfig {
+  minFrames: number;          // Samples needed before any decision
+  maxFrames: number;          // Samples after which a face that has not passed is treated as a spoof; also the sampling window
+  minLandmarkMotion: number;  // Std-dev of the normalized nose offset across frames
+  minSharpness: number;       // Laplacian variance of the grayscale face crop
+}
+
+export const DEFAULT_LIVENESS_CONFIG: LivenessConfig = {
+  minFrames: 3,
+  maxFrames: 10,
+  minLandmarkMotion: 0.015,
+  minSharpness: 15,
+};
+
+/**
+ * Per-frame liveness measurements for one face
+ */
+export interface LivenessSample {
+  yaw: number | null;    // Horizontal nose offset from the eye midpoint, in inter-eye distances
+  pitch: number | null;  // Vertical nose offset from the eye midpoint, in inter-eye distances
+  sharpness: number;
+  moireRatio: number;    // Second-derivative to first-derivative energy ratio; recorded only
+}
+
+export type LivenessVerdict = 'live' | 'spoof' | 'undecided';
+
+export interface LivenessResult {
+  verdict: LivenessVerdict;
+  reason?: 'texture' | 'no-motion';
+  motion: number;
+  sharpness: number;
+  moireRatio: number;
+}
+
+/**
+ * Pose features from the BlazeFace landmarks
+ * (0=right eye, 1=left eye, 2=nose, 3=mouth, 4=right ear, 5=left ear)
+ */
+export function landmarkPose(landmarks: number[][]): { yaw: number; pitch: number } | null {
+  if (!landmarks || landmarks.length < 3) return null;
+
+  const [rightEye, leftEye, nose] = landmarks;
+  const eyeMidX = (rightEye[0] + leftEye[0]) / 2;
+  const eyeMidY = (rightEye[1] + leftEye[1]) / 2;
+  const interEye = Math.hypot(leftEye[0] - rightEye[0], leftEye[1] - rightEye[1]);
+  if (!isFinite(interEye) || interEye <= 0) return null;
+
+  return {
+    yaw: (nose[0] - eyeMidX) / interEye,
+    pitch: (nose[1] - eyeMidY) / interEye,
+  };
+}
+
+/**
+ * Texture measurements on a face crop
+ */
+export function measureTexture(faceCanvas: HTMLCanvasElement): { sharpness: number; moireRatio: number } {
+  const ctx = faceCanvas.getContext('2d');
+  if (!ctx) return { sharpness: 0, moireRatio: 0 };
+
+  return measureTextureData(ctx.getImageData(0, 0, faceCanvas.width, faceCanvas.height));
+}
+
+/**
+ * Texture measurements on face crop pixels; usable where there is no DOM canvas (Web Workers)
+ */
+export function measureTextureData(image: ImageData): { sharpness: number; moireRatio: number } {
+  const { width, height } = image;
+  const rgba = image.data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+
+  let lapSum = 0;
+  let lapSqSum = 0;
+  let firstEnergy = 0;
+  let secondEnergy = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+
+      const dx = gray[i + 1] - gray[i];
+      const dy = gray[i + width] - gray[i];
+      firstEnergy += dx * dx + dy * dy;
+      secondEnergy += lap * lap;
+      count++;
+    }
+  }
+
+  if (count === 0) return { sharpness: 0, moireRatio: 0 };
+
+  const lapMean = lapSum / count;
+  return {
+    sharpness: lapSqSum / count - lapMean * lapMean,
+    moireRatio: firstEnergy > 0 ? Math.sqrt(secondEnergy / firstEnergy) : 0,
+  };
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Decide liveness from the samples collected over a face track
+ */
+export function assessLiveness(
+  samples: LivenessSample[],
+  config: LivenessConfig = DEFAULT_LIVENESS_CONFIG
+): LivenessResult {
+  const poses = samples.filter(s => s.yaw !== null && s.pitch !== null);
+  const motion = Math.max(
+    standardDeviation(poses.map(s => s.yaw as number)),
+    standardDeviation(poses.map(s => s.pitch as number))
+  );
+  const sharpness = samples.length > 0 ? median(samples.map(s => s.sharpness)) : 0;
+  const moireRatio = samples.length > 0 ? median(samples.map(s => s.moireRatio)) : 0;
+  const result = { motion, sharpness, moireRatio };
+
+  if (samples.length < config.minFrames) {
+    return { verdict: 'undecided', ...result };
+  }
+
+  const hasMotion = poses.length >= config.minFrames && motion >= config.minLandmarkMotion;
+  const hasTexture = sharpness >= config.minSharpness;
+  if (hasMotion && hasTexture) {
+    return { verdict: 'live', ...result };
+  }
+
+  // Small faces are upscaled and look soft too, so give the face a few more
+  // frames to move closer or turn before calling it a photo
+  if (samples.length >= config.maxFrames) {
+    return { verdict: 'spoof', reason: hasMotion ? 'texture' : 'no-motion', ...result };
+  }
+
+  return { verdict: 'undecided', ...result };
+}
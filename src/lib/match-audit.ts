@@ -0,0 +1,57 @@
+/**
+ * Decision records for attendance committed by the recognition pipeline.
+ *
+ * Each automatic "On Board" or exit is stored with the evidence behind it
+ * under matchAudit/{date}/{studentId}/{decisionId}, and the attendance record
+ * keeps the decisionId, so an admin can answer a disputed record from the
+ * attendance page.
+ */
+
+import { db } from './firebase';
+import { ref, get, push, set } from 'firebase/database';
+import type { MatchExplanation } from './face-detection-client';
+import type { LivenessResult } from './liveness';
+import type { RestrictedSnapshotRef } from '@/ai/flows/restricted-snapshots';
+
+export type MatchDecisionKind = 'boarding' | 'exit';
+
+export interface MatchDecisionRecord {
+  studentId: string;
+  studentName: string;
+  busId: string;
+  kind: MatchDecisionKind;
+  decidedAt: string;
+  pipeline: 'on-device' | 'main-thread';
+  committedConfidence: number;   // Similarity the live feed acted on
+  explanation: MatchExplanation; // The committed descriptor re-scored with the rules in force
+  reproduced: boolean;           // The explanation reaches the same student
+  tracking: {
+    trackId: string;
+    detectionConfidence: number;
+    liveness: LivenessResult | null;
+  };
+  snapshotUrl: string;           // Redacted, as shown to parents
+  originalSnapshot: RestrictedSnapshotRef | null;
+}
+
+export function matchAuditPath(date: string, studentId: string, decisionId?: string): string {
+  return `matchAudit/${date}/${studentId}${decisionId ? `/${decisionId}` : ''}`;
+}
+
+/**
+ * Store a decision record; returns its id for the attendance record
+ */
+export async function recordMatchDecision(date: string, record: MatchDecisionRecord): Promise<string> {
+  const decisionRef = push(ref(db, matchAuditPath(date, record.studentId)));
+  await set(decisionRef, record);
+  return decisionRef.key!;
+}
+
+export async function loadMatchDecision(
+  date: string,
+  studentId: string,
+  decisionId: string
+): Promise<MatchDecisionRecord | null> {
+  const snapshot = await get(ref(db, matchAuditPath(date, studentId, decisionId)));
+  return snapshot.val();
+}
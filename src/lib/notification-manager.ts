@@ -308,6 +308,22 @@ export async function notifyStudentExited(
   );
 }
 
+export async function notifyReEnrolmentNeeded(
+  parentId: string,
+  studentName: string,
+  studentId: string
+): Promise<string> {
+  return createNotification(
+    parentId,
+    'attendance_issue',
+    `Please Update ${studentName}'s Face Registration`,
+    `The bus camera is finding it harder to recognise ${studentName}. Please open Face Registration and register their face again.`,
+    'medium',
+    { studentName, studentId },
+    `/dashboard/parent`
+  );
+}
+
 export async function notifyIntruderAlert(
   userIds: string[],
   busName: string,
@@ -328,6 +344,26 @@ export async function notifyIntruderAlert(
   await Promise.all(promises);
 }
 
+export async function notifyBroadcastStalled(
+  userIds: string[],
+  busName: string,
+  busId: string
+): Promise<void> {
+  const promises = userIds.map(userId =>
+    createNotification(
+      userId,
+      'system',
+      'Bus Camera Offline',
+      `${busName} stopped broadcasting its camera during the trip`,
+      'high',
+      { busName, busId },
+      `/dashboard/buses`
+    )
+  );
+  
+  await Promise.all(promises);
+}
+
 export async function notifyEmergency(
   userIds: string[],
   busName: string,
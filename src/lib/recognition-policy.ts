@@ -0,0 +1,200 @@
+/**
+ * Recognition policy: the tunable knobs of the recognition pipeline, stored
+ * in the database so admins can change them without a deploy.
+ *
+ * recognitionPolicy/school holds school-wide overrides of the defaults below,
+ * and recognitionPolicy/buses/{busId} per-bus overrides on top of those. Only
+ * the fields an admin changed are stored; everything else falls back. Every
+ * change is validated and appended to recognitionPolicyAudit.
+ */
+
+import { z } from 'zod';
+import { db } from './firebase';
+import { ref, onValue, push, set } from 'firebase/database';
+import { DESCRIPTOR_THRESHOLDS, type RecognitionThresholds } from './face-descriptor';
+
+export interface RecognitionPolicy {
+  thresholds: RecognitionThresholds;
+  minFaceSizePx: number;        // Server detection: smallest face width/height
+  minFaceAreaRatio: number;     // Server detection: smallest share of the image a face may cover
+  recognitionCooldownMs: number; // Live feed: per student, in case a track is lost and re-confirmed
+  intruderCooldownMs: number;   // Live feed: per face, for intruder and spoof alerts
+  drawFps: number;              // Live feed: overlay redraws per second
+}
+
+export type RecognitionPolicyOverrides = Partial<Omit<RecognitionPolicy, 'thresholds'>> & {
+  thresholds?: Partial<RecognitionThresholds>;
+};
+
+export type RecognitionPolicyScope = 'school' | 'bus';
+
+export const DEFAULT_RECOGNITION_POLICY: RecognitionPolicy = {
+  thresholds: { ...DESCRIPTOR_THRESHOLDS },
+  minFaceSizePx: 80,
+  minFaceAreaRatio: 0.03,
+  recognitionCooldownMs: 60 * 1000,
+  intruderCooldownMs: 5 * 60 * 1000,
+  drawFps: 15,
+};
+
+const similarity = z.number().min(0).max(1);
+
+export const RecognitionPolicyOverridesSchema = z.object({
+  thresholds: z.object({
+    HIGH_CONFIDENCE: similarity,
+    MEDIUM_CONFIDENCE: similarity,
+    LOW_CONFIDENCE: similarity,
+    AMBIGUITY_GAP: z.number().min(0).max(0.5),
+    UNAMBIGUOUS_SIMILARITY: similarity,
+    MIN_MATCHING_ANGLES: z.number().int().min(1).max(5),
+  }).partial().optional(),
+  minFaceSizePx: z.number().int().min(20).max(400).optional(),
+  minFaceAreaRatio: z.number().min(0).max(0.5).optional(),
+  recognitionCooldownMs: z.number().int().min(5 * 1000).max(60 * 60 * 1000).optional(),
+  intruderCooldownMs: z.number().int().min(30 * 1000).max(24 * 60 * 60 * 1000).optional(),
+  drawFps: z.number().int().min(1).max(30).optional(),
+}).strict();
+
+/**
+ * Defaults, then school overrides, then bus overrides
+ */
+export function resolveRecognitionPolicy(
+  school?: RecognitionPolicyOverrides | null,
+  bus?: RecognitionPolicyOverrides | null
+): RecognitionPolicy {
+  return {
+    ...DEFAULT_RECOGNITION_POLICY,
+    ...school,
+    ...bus,
+    thresholds: {
+      ...DEFAULT_RECOGNITION_POLICY.thresholds,
+      ...school?.thresholds,
+      ...bus?.thresholds,
+    },
+  };
+}
+
+/**
+ * Problems with a resolved policy that the per-field ranges cannot catch
+ */
+export function validateRecognitionPolicy(policy: RecognitionPolicy): string[] {
+  const { HIGH_CONFIDENCE, MEDIUM_CONFIDENCE, LOW_CONFIDENCE, UNAMBIGUOUS_SIMILARITY } = policy.thresholds;
+  const errors: string[] = [];
+  if (!(LOW_CONFIDENCE <= MEDIUM_CONFIDENCE && MEDIUM_CONFIDENCE <= HIGH_CONFIDENCE)) {
+    errors.push('Thresholds must satisfy minimum <= medium <= high confidence');
+  }
+  if (UNAMBIGUOUS_SIMILARITY < HIGH_CONFIDENCE) {
+    errors.push('The unambiguous similarity must not be below the high-confidence threshold');
+  }
+  return errors;
+}
+
+/**
+ * Field-level differences between two override sets, for the audit log
+ */
+export function diffOverrides(
+  before: RecognitionPolicyOverrides | null,
+  after: RecognitionPolicyOverrides
+): Array<{ field: string; from: number | null; to: number | null }> {
+  const flatten = (overrides: RecognitionPolicyOverrides | null) => {
+    const { thresholds, ...rest } = overrides || {};
+    const fields: Record<string, number> = {};
+    Object.entries(rest).forEach(([key, value]) => { if (typeof value === 'number') fields[key] = value; });
+    Object.entries(thresholds || {}).forEach(([key, value]) => { if (typeof value === 'number') fields[`thresholds.${key}`] = value; });
+    return fields;
+  };
+  const from = flatten(before);
+  const to = flatten(after);
+  return Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+    .filter(field => from[field] !== to[field])
+    .sort()
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+export function recognitionPolicyPath(scope: RecognitionPolicyScope, busId?: string | null): string {
+  return scope === 'school' ? 'recognitionPolicy/school' : `recognitionPolicy/buses/${busId}`;
+}
+
+/**
+ * Follow the policy in force for a bus (or the school-wide policy without one)
+ */
+export function subscribeToRecognitionPolicy(
+  busId: string | null,
+  onChange: (policy: RecognitionPolicy) => void
+): () => void {
+  let school: RecognitionPolicyOverrides | null = null;
+  let bus: RecognitionPolicyOverrides | null = null;
+  const emit = () => onChange(resolveRecognitionPolicy(school, bus));
+
+  const unsubscribeSchool = onValue(ref(db, recognitionPolicyPath('school')), (snapshot) => {
+    school = snapshot.val();
+    emit();
+  });
+  const unsubscribeBus = busId
+    ? onValue(ref(db, recognitionPolicyPath('bus', busId)), (snapshot) => {
+        bus = snapshot.val();
+        emit();
+      })
+    : () => {};
+
+  return () => {
+    unsubscribeSchool();
+    unsubscribeBus();
+  };
+}
+
+let policyOverrides: { school: RecognitionPolicyOverrides | null; buses: Record<string, RecognitionPolicyOverrides> } | null = null;
+let policyReady: Promise<void> | null = null;
+
+/**
+ * The policy in force for a bus. Kept current by a listener after the first
+ * call, so per-frame callers never wait on the database again.
+ */
+export async function getRecognitionPolicy(busId?: string | null): Promise<RecognitionPolicy> {
+  policyReady ??= new Promise<void>(resolve => {
+    onValue(ref(db, 'recognitionPolicy'), (snapshot) => {
+      const data = snapshot.val() || {};
+      policyOverrides = { school: data.school || null, buses: data.buses || {} };
+      resolve();
+    }, (error) => {
+      console.error('Failed to load recognition policy, using defaults:', error);
+      resolve();
+    });
+  });
+  await policyReady;
+
+  return resolveRecognitionPolicy(policyOverrides?.school, busId ? policyOverrides?.buses[busId] : null);
+}
+
+export interface RecognitionPolicyChange {
+  scope: RecognitionPolicyScope;
+  busId: string | null;
+  changedBy: string;
+  changedAt: string;
+  changes: Array<{ field: string; from: number | null; to: number | null }>;
+}
+
+/**
+ * Replace the overrides for a scope and log the change.
+ * Callers validate first (see updateRecognitionPolicyAction).
+ */
+export async function saveRecognitionPolicyOverrides(
+  scope: RecognitionPolicyScope,
+  busId: string | null,
+  before: RecognitionPolicyOverrides | null,
+  overrides: RecognitionPolicyOverrides,
+  changedBy: string
+): Promise<RecognitionPolicyChange> {
+  const change: RecognitionPolicyChange = {
+    scope,
+    busId: scope === 'bus' ? busId : null,
+    changedBy,
+    changedAt: new Date().toISOString(),
+    changes: diffOverrides(before, overrides),
+  };
+
+  await set(ref(db, recognitionPolicyPath(scope, busId)), overrides);
+  await set(push(ref(db, 'recognitionPolicyAudit')), change);
+  console.log(`⚙️ Recognition policy (${scope}${busId ? ` ${busId}` : ''}) updated by ${changedBy}: ${change.changes.length} field(s)`);
+  return change;
+}
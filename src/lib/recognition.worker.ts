@@ -0,0 +1,75 @@
+/**
+ * Web Worker for on-device recognition. The live feed transfers each frame as
+ * an ImageBitmap; detection, description and matching against the bus-scoped
+ * roster all run here, off the main thread, and only the per-face results are
+ * posted back. Frames never leave the device.
+ */
+
+import { analyzeFrame, enhanceContrast, type RecognitionRoster, type RecognitionWorkerRequest, type RecognitionWorkerResponse } from './frame-recognition';
+import type { RecognitionThresholds } from './face-descriptor';
+import { loadFaceDetectionModel, loadFaceDescriptorModel } from './face-detection-client';
+
+const FACE_CROP_SIZE = 160;
+const FACE_CROP_PADDING = 0.2;
+
+let roster: RecognitionRoster = { students: [], adults: [] };
+
+const frameCanvas = new OffscreenCanvas(1, 1);
+const frameContext = frameCanvas.getContext('2d', { willReadFrequently: true })!;
+const cropCanvas = new OffscreenCanvas(FACE_CROP_SIZE, FACE_CROP_SIZE);
+const cropContext = cropCanvas.getContext('2d', { willReadFrequently: true })!;
+
+function respond(message: RecognitionWorkerResponse) {
+  self.postMessage(message);
+}
+
+/**
+ * Padded 160x160 face crop, same framing as extractFaceCrop on the main thread
+ */
+function cropFace(box: { x: number; y: number; width: number; height: number }): ImageData {
+  const x = Math.max(0, box.x - box.width * FACE_CROP_PADDING);
+  const y = Math.max(0, box.y - box.height * FACE_CROP_PADDING);
+  const width = Math.max(1, Math.min(frameCanvas.width - x, box.width * (1 + 2 * FACE_CROP_PADDING)));
+  const height = Math.max(1, Math.min(frameCanvas.height - y, box.height * (1 + 2 * FACE_CROP_PADDING)));
+
+  cropContext.clearRect(0, 0, FACE_CROP_SIZE, FACE_CROP_SIZE);
+  cropContext.drawImage(frameCanvas, Math.floor(x), Math.floor(y), Math.floor(width), Math.floor(height), 0, 0, FACE_CROP_SIZE, FACE_CROP_SIZE);
+  return cropContext.getImageData(0, 0, FACE_CROP_SIZE, FACE_CROP_SIZE);
+}
+
+async function handleFrame(requestId: number, frame: ImageBitmap, thresholds: RecognitionThresholds) {
+  frameCanvas.width = frame.width;
+  frameCanvas.height = frame.height;
+  frameContext.drawImage(frame, 0, 0);
+  frame.close();
+
+  // Enhance the frame for detection and crop faces from the enhanced pixels, as the main thread does
+  const image = enhanceContrast(frameContext.getImageData(0, 0, frameCanvas.width, frameCanvas.height));
+  frameContext.putImageData(image, 0, 0);
+
+  const faces = await analyzeFrame(image, cropFace, roster, thresholds);
+  respond({ type: 'result', requestId, faces });
+}
+
+self.onmessage = async (event: MessageEvent<RecognitionWorkerRequest>) => {
+  const message = event.data;
+  try {
+    if (message.type === 'roster') {
+      roster = message.roster;
+      console.log(`📦 Recognition worker roster: ${roster.students.length} students, ${roster.adults.length} adults`);
+    } else if (message.type === 'frame') {
+      await handleFrame(message.requestId, message.frame, message.thresholds);
+    }
+  } catch (error) {
+    respond({
+      type: 'error',
+      requestId: message.type === 'frame' ? message.requestId : undefined,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+// Warm up both models before the first frame arrives
+Promise.all([loadFaceDetectionModel(), loadFaceDescriptorModel()])
+  .then(() => respond({ type: 'ready' }))
+  .catch(error => respond({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' }));
@@ -0,0 +1,41 @@
+/**
+ * Firebase sign-in for server code.
+ *
+ * Server actions and API routes use the same client SDK as the browser, so on
+ * their own they reach the database with no more rights than any visitor.
+ * Paths only the server may touch (restricted originals and their expiry
+ * index) are gated in database.rules.json on `serverAccounts/{uid}`, a list
+ * set up in the Firebase console. This signs the server process in as that
+ * account from FIREBASE_SERVER_EMAIL / FIREBASE_SERVER_PASSWORD.
+ *
+ * Server only: never import this from a client component.
+ */
+
+import { getAuth, signInWithEmailAndPassword } from 'firebase/auth';
+import { app } from './firebase';
+
+let signingIn: Promise<void> | null = null;
+
+/**
+ * Sign in as the server account once per process; later calls reuse the session
+ */
+export async function ensureServerAccount(): Promise<void> {
+  const auth = getAuth(app);
+  if (auth.currentUser) return;
+
+  const email = process.env.FIREBASE_SERVER_EMAIL;
+  const password = process.env.FIREBASE_SERVER_PASSWORD;
+  if (!email || !password) {
+    throw new Error('FIREBASE_SERVER_EMAIL and FIREBASE_SERVER_PASSWORD must be set for server-only data');
+  }
+
+  signingIn ??= signInWithEmailAndPassword(auth, email, password)
+    .then(credential => {
+      console.log(`🔐 Server signed in to Firebase as ${credential.user.uid}`);
+    })
+    .catch(error => {
+      signingIn = null; // Let the next call try again
+      throw error;
+    });
+  return signingIn;
+}
@@ -1,16 +1,20 @@
 import { db } from './firebase';
 import { ref, set, get, remove, onValue, serverTimestamp, Database } from 'firebase/database';
+import { DEFAULT_CAMERA_ID } from './bus-cameras';
 
 export interface StaffSession {
     staffId: string;
     busId: string;
+    cameraId?: string; // Camera this device runs; missing on sessions from before cameras were modelled
     sessionId: string;
     deviceInfo: string;
     loginTime: number;
     lastActive: number;
-    isPrimary: boolean; // Primary session has camera access
+    isPrimary: boolean; // Primary session has camera access (one per camera)
 }
 
+const sessionCameraId = (session: StaffSession) => session.cameraId || DEFAULT_CAMERA_ID;
+
 /**
  * Generate a unique session ID
  */
@@ -44,9 +48,13 @@ export function getDeviceInfo(): string {
 }
 
 /**
- * Check if a staff member already has an active session
+ * Check if a staff member already has an active session on a camera
  */
-export async function checkExistingSession(staffId: string, busId: string): Promise<StaffSession | null> {
+export async function checkExistingSession(
+    staffId: string,
+    busId: string,
+    cameraId: string = DEFAULT_CAMERA_ID
+): Promise<StaffSession | null> {
     const sessionsRef = ref(db, `staffSessions/${busId}`);
     const snapshot = await get(sessionsRef);
     
@@ -55,7 +63,7 @@ export async function checkExistingSession(staffId: string, busId: string): Prom
         // Find any session for this staff member
         for (const sessionId in sessions) {
             const session = sessions[sessionId] as StaffSession;
-            if (session.staffId === staffId) {
+            if (session.staffId === staffId && sessionCameraId(session) === cameraId) {
                 // Check if session is still active (within last 10 minutes - increased for stability)
                 const now = Date.now();
                 if (now - session.lastActive < 10 * 60 * 1000) {
@@ -77,7 +85,8 @@ export async function checkExistingSession(staffId: string, busId: string): Prom
 export async function createSession(
     staffId: string, 
     busId: string, 
-    isPrimary: boolean = true
+    isPrimary: boolean = true,
+    cameraId: string = DEFAULT_CAMERA_ID
 ): Promise<string> {
     const sessionId = generateSessionId();
     const sessionRef = ref(db, `staffSessions/${busId}/${sessionId}`);
@@ -85,6 +94,7 @@ export async function createSession(
     const session: StaffSession = {
         staffId,
         busId,
+        cameraId,
         sessionId,
         deviceInfo: getDeviceInfo(),
         loginTime: Date.now(),
@@ -131,13 +141,14 @@ export async function removeSession(busId: string, sessionId: string): Promise<v
 export async function takeOverSession(
     staffId: string, 
     busId: string, 
-    existingSessionId: string
+    existingSessionId: string,
+    cameraId: string = DEFAULT_CAMERA_ID
 ): Promise<string> {
     // Remove the existing session
     await removeSession(busId, existingSessionId);
     
     // Create new primary session
-    return await createSession(staffId, busId, true);
+    return await createSession(staffId, busId, true, cameraId);
 }
 
 /**
@@ -0,0 +1,79 @@
+/**
+ * Face redaction for stored snapshots. Faces that are not the subject of an
+ * event are blurred before the frame is saved where parents or other staff can
+ * see it. Blurring is done by heavy down- and up-scaling rather than a canvas
+ * filter so it looks the same on every tablet browser.
+ */
+
+export interface RedactionRegion {
+  x: number;      // Normalized 0-1, like the live feed's face boxes
+  y: number;
+  width: number;
+  height: number;
+}
+
+const REDACTION_PADDING = 0.25; // Cover hair and ears around the detected box
+const REDACTION_RESOLUTION = 6; // Pixels across the face after downscaling
+
+/**
+ * Copy of the frame with every region blurred beyond recognition
+ */
+export function redactRegions(frame: HTMLCanvasElement, regions: RedactionRegion[]): HTMLCanvasElement {
+  const output = document.createElement('canvas');
+  output.width = frame.width;
+  output.height = frame.height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.drawImage(frame, 0, 0);
+
+  const tiny = document.createElement('canvas');
+  const tinyCtx = tiny.getContext('2d');
+  if (!tinyCtx) throw new Error('Failed to get canvas context');
+
+  for (const region of regions) {
+    const x = Math.max(0, Math.floor((region.x - region.width * REDACTION_PADDING) * frame.width));
+    const y = Math.max(0, Math.floor((region.y - region.height * REDACTION_PADDING) * frame.height));
+    const width = Math.min(frame.width - x, Math.ceil(region.width * (1 + 2 * REDACTION_PADDING) * frame.width));
+    const height = Math.min(frame.height - y, Math.ceil(region.height * (1 + 2 * REDACTION_PADDING) * frame.height));
+    if (width <= 0 || height <= 0) continue;
+
+    tiny.width = REDACTION_RESOLUTION;
+    tiny.height = Math.max(1, Math.round(REDACTION_RESOLUTION * height / width));
+    tinyCtx.imageSmoothingEnabled = true;
+    tinyCtx.drawImage(frame, x, y, width, height, 0, 0, tiny.width, tiny.height);
+
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(tiny, 0, 0, tiny.width, tiny.height, x, y, width, height);
+  }
+
+  return output;
+}
+
+/**
+ * Views of one event frame. Each is rendered on first use, so an event only
+ * pays for the views it stores.
+ */
+export interface EventSnapshot {
+  studentView: () => string; // Only the subject is visible (student events)
+  alertView: () => string;   // Recognised people blurred, subject and other unknown faces visible (alerts)
+  original: () => string;    // Unredacted; only for restricted storage
+}
+
+export function createEventSnapshot<T extends { boundingBox: RedactionRegion; isRecognized?: boolean }>(
+  frame: HTMLCanvasElement,
+  subject: T,
+  faces: T[],
+  quality = 0.7
+): EventSnapshot {
+  const others = faces.filter(face => face !== subject);
+  const once = (render: () => string) => {
+    let cached: string | null = null;
+    return () => (cached ??= render());
+  };
+
+  return {
+    studentView: once(() => redactRegions(frame, others.map(face => face.boundingBox)).toDataURL('image/jpeg', quality)),
+    alertView: once(() => redactRegions(frame, others.filter(face => face.isRecognized).map(face => face.boundingBox)).toDataURL('image/jpeg', quality)),
+    original: once(() => frame.toDataURL('image/jpeg', quality)),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * School trip schedule.
+ *
+ * The scheduled trip windows and the school's time zone are stored under
+ * tripSchedule (`{ timeZone, windows: [{ start, end }] }`); a bus can
+ * override the windows with `buses/{busId}/tripHours`. Window times are HH:mm
+ * in the school's zone, so server jobs, which run in UTC on Vercel, see the
+ * same trips the school does.
+ */
+
+import { db } from './firebase';
+import { ref, get } from 'firebase/database';
+
+export interface TripWindow {
+  start: string; // HH:mm, school time
+  end: string;
+}
+
+export interface TripSchedule {
+  timeZone: string; // IANA zone, e.g. 'Asia/Kolkata'
+  windows: TripWindow[];
+}
+
+export const DEFAULT_TRIP_SCHEDULE: TripSchedule = {
+  timeZone: process.env.SCHOOL_TIME_ZONE || 'UTC',
+  windows: [
+    { start: '06:30', end: '09:30' },
+    { start: '13:30', end: '17:00' },
+  ],
+};
+
+/**
+ * Calendar day (yyyy-MM-dd) and minutes past midnight of `date` in `timeZone`
+ */
+export function zonedTime(date: Date, timeZone: string): { day: string; minutes: number } {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date).forEach(part => { parts[part.type] = part.value; });
+
+  return {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isValidWindows(windows: unknown): windows is TripWindow[] {
+  return Array.isArray(windows) && windows.length > 0 && windows.every(window =>
+    /^\d{2}:\d{2}$/.test(window?.start) && /^\d{2}:\d{2}$/.test(window?.end));
+}
+
+/**
+ * The stored schedule, with the defaults for anything missing or invalid
+ */
+export async function getTripSchedule(): Promise<TripSchedule> {
+  const stored = (await get(ref(db, 'tripSchedule'))).val() || {};
+
+  if (stored.timeZone && !isValidTimeZone(stored.timeZone)) {
+    console.error(`tripSchedule/timeZone "${stored.timeZone}" is not a valid time zone; using ${DEFAULT_TRIP_SCHEDULE.timeZone}`);
+  }
+  return {
+    timeZone: isValidTimeZone(stored.timeZone) ? stored.timeZone : DEFAULT_TRIP_SCHEDULE.timeZone,
+    windows: isValidWindows(stored.windows) ? stored.windows : DEFAULT_TRIP_SCHEDULE.windows,
+  };
+}
+
+/**
+ * The windows that apply to a bus: its own tripHours if set, else the school's
+ */
+export function busTripWindows(bus: { tripHours?: unknown } | null | undefined, schedule: TripSchedule): TripWindow[] {
+  return isValidWindows(bus?.tripHours) ? bus!.tripHours as TripWindow[] : schedule.windows;
+}
+
+export function isWithinTripWindows(date: Date, windows: TripWindow[], timeZone: string): boolean {
+  const { minutes } = zonedTime(date, timeZone);
+  return windows.some(window => minutes >= minutesOf(window.start) && minutes < minutesOf(window.end));
+}